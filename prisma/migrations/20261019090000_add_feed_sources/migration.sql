@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "FeedSource" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "description" TEXT,
+    "priority" INTEGER NOT NULL DEFAULT 5,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "lastFetchedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "FeedSource_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "FeedSource_url_key" ON "FeedSource"("url");
+
+-- CreateIndex
+CREATE INDEX "FeedSource_active_idx" ON "FeedSource"("active");
+
+-- CreateIndex
+CREATE INDEX "FeedSource_category_idx" ON "FeedSource"("category");
+
+-- CreateIndex
+CREATE INDEX "FeedSource_priority_idx" ON "FeedSource"("priority" DESC);
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "WatchedRepository" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "fullName" TEXT NOT NULL,
+    "lastReleaseTag" TEXT,
+    "lastCheckedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WatchedRepository_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "WatchedRepository_userId_idx" ON "WatchedRepository"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WatchedRepository_userId_fullName_key" ON "WatchedRepository"("userId", "fullName");
+
+-- AddForeignKey
+ALTER TABLE "WatchedRepository" ADD CONSTRAINT "WatchedRepository_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,53 @@
+-- CreateTable
+CREATE TABLE "CollectedItem" (
+    "id" TEXT NOT NULL,
+    "canonicalUrl" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "snippet" TEXT NOT NULL,
+    "source" TEXT NOT NULL,
+    "provider" TEXT,
+    "query" TEXT,
+    "relevanceScore" DOUBLE PRECISION NOT NULL DEFAULT 0.5,
+    "timesSeen" INTEGER NOT NULL DEFAULT 1,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CollectedItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "CollectedItemArticle" (
+    "id" TEXT NOT NULL,
+    "collectedItemId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CollectedItemArticle_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectedItem_canonicalUrl_key" ON "CollectedItem"("canonicalUrl");
+
+-- CreateIndex
+CREATE INDEX "CollectedItem_lastSeenAt_idx" ON "CollectedItem"("lastSeenAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "CollectedItem_provider_idx" ON "CollectedItem"("provider");
+
+-- CreateIndex
+CREATE INDEX "CollectedItemArticle_collectedItemId_idx" ON "CollectedItemArticle"("collectedItemId");
+
+-- CreateIndex
+CREATE INDEX "CollectedItemArticle_articleId_idx" ON "CollectedItemArticle"("articleId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CollectedItemArticle_collectedItemId_articleId_key" ON "CollectedItemArticle"("collectedItemId", "articleId");
+
+-- AddForeignKey
+ALTER TABLE "CollectedItemArticle" ADD CONSTRAINT "CollectedItemArticle_collectedItemId_fkey" FOREIGN KEY ("collectedItemId") REFERENCES "CollectedItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "CollectedItemArticle" ADD CONSTRAINT "CollectedItemArticle_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
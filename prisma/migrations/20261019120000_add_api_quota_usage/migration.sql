@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ApiQuotaUsage" (
+    "id" TEXT NOT NULL,
+    "provider" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "count" INTEGER NOT NULL DEFAULT 0,
+    "warnedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ApiQuotaUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ApiQuotaUsage_date_idx" ON "ApiQuotaUsage"("date" DESC);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ApiQuotaUsage_provider_date_key" ON "ApiQuotaUsage"("provider", "date");
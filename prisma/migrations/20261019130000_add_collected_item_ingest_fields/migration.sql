@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "CollectedItem" ADD COLUMN     "note" TEXT,
+ADD COLUMN     "submittedBy" TEXT,
+ADD COLUMN     "tags" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,37 @@
+-- CreateTable
+CREATE TABLE "DomainRule" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT,
+    "domain" TEXT NOT NULL,
+    "action" TEXT NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 0.2,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DomainRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "DomainRule_domain_idx" ON "DomainRule"("domain");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DomainRule_userId_domain_key" ON "DomainRule"("userId", "domain");
+
+-- AddForeignKey
+ALTER TABLE "DomainRule" ADD CONSTRAINT "DomainRule_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- 従来のtrustedDomainsを全ユーザー共通のboostルールとして移行
+INSERT INTO "DomainRule" ("id", "userId", "domain", "action", "weight", "updatedAt")
+SELECT gen_random_uuid()::text, NULL, "domain", 'boost', 0.2, CURRENT_TIMESTAMP
+FROM (VALUES
+    ('github.com'),
+    ('stackoverflow.com'),
+    ('qiita.com'),
+    ('zenn.dev'),
+    ('dev.to'),
+    ('medium.com'),
+    ('react.dev'),
+    ('nextjs.org'),
+    ('typescript.org')
+) AS "trusted"("domain");
@@ -0,0 +1,42 @@
+-- CreateTable
+CREATE TABLE "PageWatch" (
+    "id" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "category" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "lastCheckedAt" TIMESTAMP(3),
+    "lastChangedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "consecutiveFailures" INTEGER NOT NULL DEFAULT 0,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PageWatch_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PageSnapshot" (
+    "id" TEXT NOT NULL,
+    "watchId" TEXT NOT NULL,
+    "contentHash" TEXT NOT NULL,
+    "content" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PageSnapshot_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PageWatch_url_key" ON "PageWatch"("url");
+
+-- CreateIndex
+CREATE INDEX "PageWatch_active_idx" ON "PageWatch"("active");
+
+-- CreateIndex
+CREATE INDEX "PageSnapshot_watchId_createdAt_idx" ON "PageSnapshot"("watchId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "PageSnapshot" ADD CONSTRAINT "PageSnapshot_watchId_fkey" FOREIGN KEY ("watchId") REFERENCES "PageWatch"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,66 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "aiModel" TEXT,
+ADD COLUMN     "promptTemplateId" TEXT,
+ADD COLUMN     "promptVersion" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PromptExperiment" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "templateId" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'draft',
+    "startedAt" TIMESTAMP(3),
+    "endedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PromptExperiment_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromptExperimentVariant" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "weight" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptExperimentVariant_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "PromptExperimentOutcome" (
+    "id" TEXT NOT NULL,
+    "experimentId" TEXT NOT NULL,
+    "variantId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "aiModel" TEXT NOT NULL,
+    "qualityScore" INTEGER NOT NULL,
+    "interestScore" INTEGER NOT NULL,
+    "editCount" INTEGER NOT NULL DEFAULT 0,
+    "deletedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PromptExperimentOutcome_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PromptExperiment_templateId_status_idx" ON "PromptExperiment"("templateId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptExperimentVariant_experimentId_version_key" ON "PromptExperimentVariant"("experimentId", "version");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PromptExperimentOutcome_articleId_key" ON "PromptExperimentOutcome"("articleId");
+
+-- CreateIndex
+CREATE INDEX "PromptExperimentOutcome_experimentId_variantId_idx" ON "PromptExperimentOutcome"("experimentId", "variantId");
+
+-- AddForeignKey
+ALTER TABLE "PromptExperimentVariant" ADD CONSTRAINT "PromptExperimentVariant_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "PromptExperiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromptExperimentOutcome" ADD CONSTRAINT "PromptExperimentOutcome_experimentId_fkey" FOREIGN KEY ("experimentId") REFERENCES "PromptExperiment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "PromptExperimentOutcome" ADD CONSTRAINT "PromptExperimentOutcome_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "PromptExperimentVariant"("id") ON DELETE CASCADE ON UPDATE CASCADE;
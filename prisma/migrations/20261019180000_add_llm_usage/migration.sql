@@ -0,0 +1,35 @@
+-- CreateTable
+CREATE TABLE "LlmUsage" (
+    "id" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "latencyMs" INTEGER NOT NULL,
+    "estimatedCost" DOUBLE PRECISION,
+    "userId" TEXT,
+    "collectionJobId" TEXT,
+    "articleId" TEXT,
+    "requestId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "LlmUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_date_idx" ON "LlmUsage"("date");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_userId_idx" ON "LlmUsage"("userId");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_collectionJobId_idx" ON "LlmUsage"("collectionJobId");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_articleId_idx" ON "LlmUsage"("articleId");
+
+-- CreateIndex
+CREATE INDEX "LlmUsage_requestId_idx" ON "LlmUsage"("requestId");
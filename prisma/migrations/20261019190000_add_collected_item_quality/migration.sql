@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "CollectedItem" ADD COLUMN     "qualityEvaluatedAt" TIMESTAMP(3),
+ADD COLUMN     "qualityFlags" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "qualityPromptVersion" INTEGER,
+ADD COLUMN     "qualityReasoning" TEXT,
+ADD COLUMN     "qualityScore" DOUBLE PRECISION;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "CollectedItem" ADD COLUMN     "publishedAt" TIMESTAMP(3);
@@ -1,5 +1,6 @@
 import { PrismaClient } from '@prisma/client';
 import { hashPassword } from '../src/lib/security/password';
+import { RSS_SOURCES } from '../src/lib/config/rss-sources';
 
 const prisma = new PrismaClient();
 
@@ -138,6 +139,26 @@ async function main() {
 
   console.log(`✅ Created ${tags.length} tags`);
 
+  // RSSフィードソースの作成（設定ファイルの初期値を取り込む）
+  const feedSources = await Promise.all(
+    RSS_SOURCES.map((source) =>
+      prisma.feedSource.upsert({
+        where: { url: source.url },
+        update: {},
+        create: {
+          url: source.url,
+          name: source.name,
+          category: source.category,
+          description: source.description,
+          priority: source.priority,
+          active: source.active,
+        },
+      })
+    )
+  );
+
+  console.log(`✅ Created ${feedSources.length} feed sources`);
+
   // 管理者ユーザーの作成
   const adminEmail = process.env.ADMIN_USER_ID;
   const adminPassword = process.env.ADMIN_PASSWORD;
@@ -0,0 +1,363 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AuthManager } from '@/lib/auth';
+
+type DomainRuleAction = 'boost' | 'neutral' | 'block';
+type DomainRuleScope = 'global' | 'own';
+
+interface DomainRule {
+  id: string;
+  userId: string | null;
+  domain: string;
+  action: DomainRuleAction;
+  weight: number;
+  note: string | null;
+  updatedAt: string;
+}
+
+const ACTION_LABELS: Record<DomainRuleAction, { label: string; className: string }> = {
+  boost: { label: '優先', className: 'bg-green-100 text-green-700' },
+  neutral: { label: '中立', className: 'bg-gray-100 text-gray-600' },
+  block: { label: 'ブロック', className: 'bg-red-100 text-red-700' },
+};
+
+const ACTION_OPTIONS = (Object.keys(ACTION_LABELS) as DomainRuleAction[]).map((action) => ({
+  value: action,
+  label: ACTION_LABELS[action].label,
+}));
+
+const SCOPE_OPTIONS = [
+  { value: 'global', label: '全ユーザー共通' },
+  { value: 'own', label: '自分のみ' },
+];
+
+const EMPTY_FORM = {
+  domain: '',
+  action: 'boost' as DomainRuleAction,
+  weight: '0.2',
+  note: '',
+  scope: 'global' as DomainRuleScope,
+};
+
+const getHeaders = (): Record<string, string> => {
+  const token = AuthManager.getToken();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export default function DomainRuleManagementPage() {
+  const [rules, setRules] = useState<DomainRule[]>([]);
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const router = useRouter();
+
+  const loadRules = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/domain-rules', { headers: getHeaders() });
+      const data = await response.json();
+
+      if (data.success) {
+        setRules(data.data.rules);
+      } else {
+        setError(data.error || 'ドメインルールの読み込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('Domain rules load error:', error);
+      setError('ドメインルールの読み込み中にエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // 認証チェック
+    const isAuth = AuthManager.isAuthenticated();
+    const currentUser = AuthManager.getUser();
+
+    if (!isAuth || !currentUser) {
+      router.push('/login');
+      return;
+    }
+
+    setCurrentUserId(currentUser.id);
+    loadRules();
+  }, [router, loadRules]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleSubmit = async () => {
+    const weight = Number(formData.weight);
+    if (!formData.domain.trim()) {
+      setError('ドメインは必須です');
+      return;
+    }
+    if (formData.action === 'boost' && (Number.isNaN(weight) || weight < -1 || weight > 1)) {
+      setError('重みは-1〜1の範囲で指定してください');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(
+        editingId ? `/api/admin/domain-rules/${editingId}` : '/api/admin/domain-rules',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({
+            domain: formData.domain.trim(),
+            action: formData.action,
+            ...(formData.action === 'boost' && { weight }),
+            note: formData.note.trim() || null,
+            userId: formData.scope === 'own' ? currentUserId : null,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(editingId ? 'ルールを更新しました' : 'ルールを追加しました');
+        setEditingId(null);
+        setFormData(EMPTY_FORM);
+        await loadRules();
+      } else {
+        setError(data.error || 'ルールの保存に失敗しました');
+      }
+    } catch (error) {
+      console.error('Domain rule save error:', error);
+      setError('保存中にエラーが発生しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (rule: DomainRule) => {
+    setEditingId(rule.id);
+    setFormData({
+      domain: rule.domain,
+      action: rule.action,
+      weight: String(rule.weight),
+      note: rule.note || '',
+      scope: rule.userId ? 'own' : 'global',
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleDelete = async (rule: DomainRule) => {
+    if (!confirm(`「${rule.domain}」のルールを削除してもよろしいですか？`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/domain-rules/${rule.id}`, {
+        method: 'DELETE',
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess('ルールを削除しました');
+        await loadRules();
+      } else {
+        setError(data.error || 'ルールの削除に失敗しました');
+      }
+    } catch (error) {
+      console.error('Domain rule delete error:', error);
+      setError('削除中にエラーが発生しました');
+    }
+  };
+
+  const getScopeLabel = (rule: DomainRule): string => {
+    if (!rule.userId) return '共通';
+    return rule.userId === currentUserId ? '自分のみ' : `ユーザー: ${rule.userId.slice(0, 8)}`;
+  };
+
+  // 他のユーザーのルールは編集フォームで扱えないため一覧表示のみ
+  const isEditable = (rule: DomainRule): boolean => !rule.userId || rule.userId === currentUserId;
+
+  if (loading && rules.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+            <div className="space-y-4">
+              <div className="h-32 bg-gray-200 rounded"></div>
+              <div className="h-32 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+          <div className="text-center mt-4 text-gray-600">ドメインルールを読み込み中...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">🌐 ドメインルール管理</h1>
+            <p className="text-gray-600">
+              収集・検索結果のドメインごとの優先（加点）・ブロックを設定します
+            </p>
+          </div>
+          <Button onClick={() => router.push('/admin')} variant="secondary">
+            ← 管理画面に戻る
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-700">{successMessage}</p>
+          </div>
+        )}
+
+        {/* 追加・編集フォーム */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">
+            {editingId ? '✏️ ルールを編集' : '➕ ルールを追加'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <Input
+              label="ドメイン"
+              value={formData.domain}
+              onChange={(e) => setFormData((prev) => ({ ...prev, domain: e.target.value }))}
+              placeholder="example.com"
+              helperText="サブドメインにも適用されます"
+            />
+            <Select
+              label="適用範囲"
+              value={formData.scope}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, scope: e.target.value as DomainRuleScope }))
+              }
+              options={SCOPE_OPTIONS}
+            />
+            <Select
+              label="動作"
+              value={formData.action}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, action: e.target.value as DomainRuleAction }))
+              }
+              options={ACTION_OPTIONS}
+            />
+            <Input
+              label="重み"
+              type="number"
+              step="0.05"
+              min="-1"
+              max="1"
+              value={formData.weight}
+              onChange={(e) => setFormData((prev) => ({ ...prev, weight: e.target.value }))}
+              disabled={formData.action !== 'boost'}
+              helperText="関連度スコアへの加点（優先のみ有効）"
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="メモ"
+                value={formData.note}
+                onChange={(e) => setFormData((prev) => ({ ...prev, note: e.target.value }))}
+                placeholder="任意"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button onClick={handleCancelEdit} variant="secondary" disabled={saving}>
+                キャンセル
+              </Button>
+            )}
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving ? '保存中...' : editingId ? '更新する' : '追加する'}
+            </Button>
+          </div>
+        </Card>
+
+        {/* ルール一覧 */}
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">ルール一覧</h2>
+
+          {rules.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">登録されたルールはありません</div>
+          ) : (
+            <div className="divide-y">
+              {rules.map((rule) => (
+                <div key={rule.id} className="py-3 flex justify-between items-center gap-4">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900 break-all">{rule.domain}</span>
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${ACTION_LABELS[rule.action].className}`}
+                      >
+                        {ACTION_LABELS[rule.action].label}
+                        {rule.action === 'boost' &&
+                          ` ${rule.weight >= 0 ? '+' : ''}${rule.weight.toFixed(2)}`}
+                      </span>
+                      <span className="px-2 py-1 rounded text-xs bg-blue-50 text-blue-700">
+                        {getScopeLabel(rule)}
+                      </span>
+                    </div>
+                    {rule.note && <p className="text-sm text-gray-500 mt-1">{rule.note}</p>}
+                  </div>
+                  {isEditable(rule) && (
+                    <div className="flex space-x-2 flex-shrink-0">
+                      <Button
+                        onClick={() => handleEdit(rule)}
+                        size="sm"
+                        variant="secondary"
+                        className="text-green-600 border-green-300 hover:bg-green-50"
+                      >
+                        編集
+                      </Button>
+                      <Button
+                        onClick={() => handleDelete(rule)}
+                        size="sm"
+                        variant="secondary"
+                        className="text-red-600 border-red-300 hover:bg-red-50"
+                      >
+                        削除
+                      </Button>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
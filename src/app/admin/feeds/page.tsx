@@ -0,0 +1,629 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AuthManager } from '@/lib/auth';
+import { RSS_CATEGORIES } from '@/lib/config/rss-sources';
+
+interface FeedSource {
+  id: string;
+  url: string;
+  name: string;
+  category: string;
+  description: string | null;
+  priority: number;
+  active: boolean;
+  lastFetchedAt: string | null;
+  lastError: string | null;
+  consecutiveFailures: number;
+}
+
+interface FeedHealth {
+  total: number;
+  active: number;
+  failing: number;
+  autoDisabled: number;
+  lastFetchedAt: string | null;
+}
+
+interface OpmlPreviewFeed {
+  url: string;
+  name: string;
+  category: string;
+  priority: number;
+  active: boolean;
+  status: 'new' | 'update' | 'unchanged';
+  changedFields: string[];
+}
+
+interface OpmlPreview {
+  title: string | null;
+  summary: {
+    total: number;
+    new: number;
+    update: number;
+    unchanged: number;
+    duplicatesInFile: number;
+  };
+  feeds: OpmlPreviewFeed[];
+}
+
+const OPML_STATUS_LABELS: Record<OpmlPreviewFeed['status'], { label: string; className: string }> =
+  {
+    new: { label: '新規', className: 'bg-green-100 text-green-700' },
+    update: { label: '更新', className: 'bg-yellow-100 text-yellow-700' },
+    unchanged: { label: '変更なし', className: 'bg-gray-100 text-gray-600' },
+  };
+
+const EMPTY_FORM = {
+  url: '',
+  name: '',
+  category: RSS_CATEGORIES[0] as string,
+  description: '',
+  priority: 5,
+};
+
+const PRIORITY_OPTIONS = Array.from({ length: 10 }, (_, i) => ({
+  value: String(10 - i),
+  label: `${10 - i}`,
+}));
+
+const getHeaders = (): Record<string, string> => {
+  const token = AuthManager.getToken();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+export default function FeedManagementPage() {
+  const [feeds, setFeeds] = useState<FeedSource[]>([]);
+  const [health, setHealth] = useState<FeedHealth | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [opmlText, setOpmlText] = useState<string | null>(null);
+  const [opmlPreview, setOpmlPreview] = useState<OpmlPreview | null>(null);
+  const [includeInactive, setIncludeInactive] = useState(false);
+  const router = useRouter();
+
+  const loadFeeds = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/feeds', { headers: getHeaders() });
+      const data = await response.json();
+
+      if (data.success) {
+        setFeeds(data.data.feeds);
+        setHealth(data.data.health);
+      } else {
+        setError(data.error || 'フィードの読み込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('Feeds load error:', error);
+      setError('フィードの読み込み中にエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // 認証チェック
+    const isAuth = AuthManager.isAuthenticated();
+    const currentUser = AuthManager.getUser();
+
+    if (!isAuth || !currentUser) {
+      router.push('/login');
+      return;
+    }
+
+    loadFeeds();
+  }, [router, loadFeeds]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.url.trim() || !formData.name.trim()) {
+      setError('URLと名前は必須です');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(
+        editingId ? `/api/admin/feeds/${editingId}` : '/api/admin/feeds',
+        {
+          method: editingId ? 'PUT' : 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({
+            ...formData,
+            url: formData.url.trim(),
+            name: formData.name.trim(),
+            description: formData.description.trim() || null,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(editingId ? 'フィードを更新しました' : 'フィードを追加しました');
+        setEditingId(null);
+        setFormData(EMPTY_FORM);
+        await loadFeeds();
+      } else {
+        setError(data.error || 'フィードの保存に失敗しました');
+      }
+    } catch (error) {
+      console.error('Feed save error:', error);
+      setError('保存中にエラーが発生しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleEdit = (feed: FeedSource) => {
+    setEditingId(feed.id);
+    setFormData({
+      url: feed.url,
+      name: feed.name,
+      category: feed.category,
+      description: feed.description || '',
+      priority: feed.priority,
+    });
+  };
+
+  const handleCancelEdit = () => {
+    setEditingId(null);
+    setFormData(EMPTY_FORM);
+  };
+
+  const handleToggleActive = async (feed: FeedSource) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/feeds/${feed.id}`, {
+        method: 'PUT',
+        headers: getHeaders(),
+        body: JSON.stringify({ active: !feed.active }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(feed.active ? 'フィードを無効化しました' : 'フィードを有効化しました');
+        await loadFeeds();
+      } else {
+        setError(data.error || 'フィードの更新に失敗しました');
+      }
+    } catch (error) {
+      console.error('Feed toggle error:', error);
+      setError('更新中にエラーが発生しました');
+    }
+  };
+
+  const handleDelete = async (feed: FeedSource) => {
+    if (!confirm(`フィード「${feed.name}」を削除してもよろしいですか？`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/feeds/${feed.id}`, {
+        method: 'DELETE',
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess('フィードを削除しました');
+        await loadFeeds();
+      } else {
+        setError(data.error || 'フィードの削除に失敗しました');
+      }
+    } catch (error) {
+      console.error('Feed delete error:', error);
+      setError('削除中にエラーが発生しました');
+    }
+  };
+
+  const handleExportOpml = async () => {
+    try {
+      setError(null);
+      const response = await fetch(
+        `/api/admin/feeds/opml${includeInactive ? '?includeInactive=true' : ''}`,
+        { headers: getHeaders() }
+      );
+
+      if (!response.ok) {
+        setError('OPMLの出力に失敗しました');
+        return;
+      }
+
+      const blob = await response.blob();
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `feeds-${new Date().toISOString().slice(0, 10)}.opml`;
+      link.click();
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('OPML export error:', error);
+      setError('OPMLの出力中にエラーが発生しました');
+    }
+  };
+
+  const requestOpmlImport = async (opml: string, dryRun: boolean) => {
+    const response = await fetch('/api/admin/feeds/opml', {
+      method: 'POST',
+      headers: getHeaders(),
+      body: JSON.stringify({ opml, dryRun }),
+    });
+    return response.json();
+  };
+
+  const handleOpmlFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    try {
+      setError(null);
+      setOpmlPreview(null);
+
+      const text = await file.text();
+      const data = await requestOpmlImport(text, true);
+
+      if (data.success) {
+        setOpmlText(text);
+        setOpmlPreview(data.data);
+      } else {
+        setError(data.error || 'OPMLの読み込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('OPML preview error:', error);
+      setError('OPMLの読み込み中にエラーが発生しました');
+    }
+  };
+
+  const handleImportOpml = async () => {
+    if (!opmlText) return;
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const data = await requestOpmlImport(opmlText, false);
+
+      if (data.success) {
+        showSuccess(`OPMLから${data.data.imported}件のフィードを取り込みました`);
+        setOpmlText(null);
+        setOpmlPreview(null);
+        await loadFeeds();
+      } else {
+        setError(data.error || 'OPMLの取り込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('OPML import error:', error);
+      setError('OPMLの取り込み中にエラーが発生しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCancelOpml = () => {
+    setOpmlText(null);
+    setOpmlPreview(null);
+  };
+
+  const getStatusLabel = (feed: FeedSource): { label: string; className: string } => {
+    if (!feed.active) {
+      return feed.consecutiveFailures > 0
+        ? { label: '自動停止', className: 'bg-red-100 text-red-700' }
+        : { label: '無効', className: 'bg-gray-100 text-gray-600' };
+    }
+    if (feed.consecutiveFailures > 0) {
+      return {
+        label: `エラー (${feed.consecutiveFailures}回)`,
+        className: 'bg-yellow-100 text-yellow-700',
+      };
+    }
+    return { label: '正常', className: 'bg-green-100 text-green-700' };
+  };
+
+  const categoryOptions = Array.from(new Set<string>([...RSS_CATEGORIES, formData.category])).map(
+    (category) => ({ value: category, label: category })
+  );
+
+  if (loading && feeds.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+            <div className="space-y-4">
+              <div className="h-32 bg-gray-200 rounded"></div>
+              <div className="h-32 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+          <div className="text-center mt-4 text-gray-600">フィード一覧を読み込み中...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">📡 フィード管理</h1>
+            <p className="text-gray-600">RSSフィードの追加・編集・稼働状況の確認を行います</p>
+          </div>
+          <Button onClick={() => router.push('/admin')} variant="secondary">
+            ← 管理画面に戻る
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-700">{successMessage}</p>
+          </div>
+        )}
+
+        {/* 稼働状況 */}
+        {health && (
+          <Card className="p-6 mb-6">
+            <h2 className="text-lg font-semibold mb-4">📊 稼働状況</h2>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+              <div>
+                <span className="text-gray-600">登録数:</span>
+                <p className="font-semibold">{health.total}件</p>
+              </div>
+              <div>
+                <span className="text-gray-600">有効:</span>
+                <p className="font-semibold">{health.active}件</p>
+              </div>
+              <div>
+                <span className="text-gray-600">エラー発生中:</span>
+                <p className="font-semibold text-yellow-600">{health.failing}件</p>
+              </div>
+              <div>
+                <span className="text-gray-600">自動停止:</span>
+                <p className="font-semibold text-red-600">{health.autoDisabled}件</p>
+              </div>
+              <div>
+                <span className="text-gray-600">最終取得:</span>
+                <p className="font-semibold">
+                  {health.lastFetchedAt
+                    ? new Date(health.lastFetchedAt).toLocaleString('ja-JP')
+                    : '未取得'}
+                </p>
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {/* 追加・編集フォーム */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">
+            {editingId ? '✏️ フィードを編集' : '➕ フィードを追加'}
+          </h2>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+            <Input
+              label="フィードURL"
+              value={formData.url}
+              onChange={(e) => setFormData((prev) => ({ ...prev, url: e.target.value }))}
+              placeholder="https://example.com/feed.xml"
+            />
+            <Input
+              label="名前"
+              value={formData.name}
+              onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="フィード名"
+            />
+            <Select
+              label="カテゴリ"
+              value={formData.category}
+              onChange={(e) => setFormData((prev) => ({ ...prev, category: e.target.value }))}
+              options={categoryOptions}
+            />
+            <Select
+              label="優先度"
+              value={String(formData.priority)}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, priority: Number(e.target.value) }))
+              }
+              options={PRIORITY_OPTIONS}
+              helperText="高いほど優先して収集されます"
+            />
+            <div className="md:col-span-2">
+              <Input
+                label="説明"
+                value={formData.description}
+                onChange={(e) => setFormData((prev) => ({ ...prev, description: e.target.value }))}
+                placeholder="任意"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <Button onClick={handleCancelEdit} variant="secondary" disabled={saving}>
+                キャンセル
+              </Button>
+            )}
+            <Button onClick={handleSubmit} disabled={saving}>
+              {saving ? '保存中...' : editingId ? '更新する' : '追加する'}
+            </Button>
+          </div>
+        </Card>
+
+        {/* OPMLインポート・エクスポート */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">📤 OPMLインポート・エクスポート</h2>
+          <div className="flex flex-wrap items-center gap-4">
+            <label className="inline-flex items-center">
+              <span className="px-4 py-2 rounded-md border border-gray-300 text-sm font-medium cursor-pointer hover:bg-gray-50">
+                OPMLファイルを選択
+              </span>
+              <input
+                type="file"
+                accept=".opml,.xml,text/x-opml,text/xml,application/xml"
+                onChange={handleOpmlFileChange}
+                className="hidden"
+              />
+            </label>
+            <Button onClick={handleExportOpml} variant="secondary">
+              OPMLをエクスポート
+            </Button>
+            <label className="flex items-center space-x-2">
+              <input
+                type="checkbox"
+                checked={includeInactive}
+                onChange={(e) => setIncludeInactive(e.target.checked)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span className="text-sm text-gray-700">無効なフィードも含める</span>
+            </label>
+          </div>
+
+          {opmlPreview && (
+            <div className="mt-6">
+              <p className="text-sm text-gray-600 mb-3">
+                {opmlPreview.title && `「${opmlPreview.title}」: `}
+                {opmlPreview.summary.total}件（新規 {opmlPreview.summary.new}件 / 更新{' '}
+                {opmlPreview.summary.update}件 / 変更なし {opmlPreview.summary.unchanged}件 /
+                ファイル内の重複 {opmlPreview.summary.duplicatesInFile}件）
+              </p>
+              <div className="max-h-80 overflow-y-auto border rounded-lg divide-y mb-4">
+                {opmlPreview.feeds.map((feed) => (
+                  <div key={feed.url} className="p-3 text-sm flex justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900">{feed.name}</p>
+                      <p className="text-gray-500 break-all">{feed.url}</p>
+                      <p className="text-gray-500">
+                        カテゴリ: {feed.category} / 優先度: {feed.priority}
+                        {!feed.active && ' / 無効'}
+                        {feed.changedFields.length > 0 &&
+                          ` / 変更: ${feed.changedFields.join(', ')}`}
+                      </p>
+                    </div>
+                    <span
+                      className={`self-start px-2 py-1 rounded text-xs font-medium flex-shrink-0 ${OPML_STATUS_LABELS[feed.status].className}`}
+                    >
+                      {OPML_STATUS_LABELS[feed.status].label}
+                    </span>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button onClick={handleCancelOpml} variant="secondary" disabled={saving}>
+                  キャンセル
+                </Button>
+                <Button
+                  onClick={handleImportOpml}
+                  disabled={saving || opmlPreview.summary.new + opmlPreview.summary.update === 0}
+                >
+                  {saving ? '取り込み中...' : '取り込む'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        {/* フィード一覧 */}
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">フィード一覧</h2>
+
+          {feeds.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
+              登録されたフィードはありません（設定ファイルのRSS_SOURCESが使用されます）
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {feeds.map((feed) => {
+                const status = getStatusLabel(feed);
+                return (
+                  <div
+                    key={feed.id}
+                    className="border rounded-lg p-4 hover:bg-gray-50 transition-colors"
+                  >
+                    <div className="flex justify-between items-start mb-2">
+                      <div>
+                        <h3 className="text-lg font-medium text-gray-900">{feed.name}</h3>
+                        <p className="text-sm text-gray-500 break-all">{feed.url}</p>
+                      </div>
+                      <div className="flex space-x-2 ml-4 flex-shrink-0">
+                        <Button
+                          onClick={() => handleEdit(feed)}
+                          size="sm"
+                          variant="secondary"
+                          className="text-green-600 border-green-300 hover:bg-green-50"
+                        >
+                          編集
+                        </Button>
+                        <Button
+                          onClick={() => handleToggleActive(feed)}
+                          size="sm"
+                          variant="secondary"
+                          className="text-blue-600 border-blue-300 hover:bg-blue-50"
+                        >
+                          {feed.active ? '無効化' : '有効化'}
+                        </Button>
+                        <Button
+                          onClick={() => handleDelete(feed)}
+                          size="sm"
+                          variant="secondary"
+                          className="text-red-600 border-red-300 hover:bg-red-50"
+                        >
+                          削除
+                        </Button>
+                      </div>
+                    </div>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
+                      <span className={`px-2 py-1 rounded text-xs font-medium ${status.className}`}>
+                        {status.label}
+                      </span>
+                      <span>カテゴリ: {feed.category}</span>
+                      <span>優先度: {feed.priority}</span>
+                      <span>
+                        最終取得:{' '}
+                        {feed.lastFetchedAt
+                          ? new Date(feed.lastFetchedAt).toLocaleString('ja-JP')
+                          : '未取得'}
+                      </span>
+                    </div>
+
+                    {feed.lastError && (
+                      <p className="mt-2 text-xs text-red-600 break-all">
+                        最終エラー: {feed.lastError}
+                      </p>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { AuthManager } from '@/lib/auth';
+
+interface UsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+interface DailyTotals extends UsageTotals {
+  date: string;
+}
+
+interface GroupTotals extends UsageTotals {
+  key: string | null;
+  name?: string | null;
+}
+
+interface BudgetStatus {
+  period: 'daily' | 'monthly';
+  spent: number;
+  limit: number | null;
+  usageRate: number | null;
+  exceeded: boolean;
+  resetAt: string;
+}
+
+interface LlmUsageReport {
+  days: number;
+  from: string;
+  totals: UsageTotals;
+  daily: DailyTotals[];
+  byModel: GroupTotals[];
+  byOperation: GroupTotals[];
+  byUser: GroupTotals[];
+  budgets: BudgetStatus[];
+}
+
+const PERIOD_OPTIONS = [
+  { value: '7', label: '直近7日' },
+  { value: '30', label: '直近30日' },
+  { value: '90', label: '直近90日' },
+];
+
+const BUDGET_LABELS: Record<BudgetStatus['period'], string> = {
+  daily: '本日',
+  monthly: '今月',
+};
+
+// 予算に対してこの割合を超えたら警告色にする
+const BUDGET_WARNING_PERCENT = 80;
+
+const getHeaders = (): Record<string, string> => {
+  const token = AuthManager.getToken();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+const formatCost = (value: number): string => `$${value.toFixed(4)}`;
+
+const formatTokens = (value: number): string => value.toLocaleString('ja-JP');
+
+function UsageTable({ title, label, rows }: { title: string; label: string; rows: GroupTotals[] }) {
+  return (
+    <Card className="p-6 mb-6">
+      <h2 className="text-lg font-semibold mb-4">{title}</h2>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">この期間の利用はありません</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 pr-4">{label}</th>
+                <th className="py-2 pr-4">呼び出し</th>
+                <th className="py-2 pr-4">入力トークン</th>
+                <th className="py-2 pr-4">出力トークン</th>
+                <th className="py-2 pr-4">推定コスト</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y">
+              {rows.map((row) => (
+                <tr key={row.key ?? '-'}>
+                  <td className="py-2 pr-4 font-medium">{row.name || row.key || '（なし）'}</td>
+                  <td className="py-2 pr-4">{row.calls}</td>
+                  <td className="py-2 pr-4">{formatTokens(row.promptTokens)}</td>
+                  <td className="py-2 pr-4">{formatTokens(row.completionTokens)}</td>
+                  <td className="py-2 pr-4">{formatCost(row.estimatedCost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
+
+export default function LlmUsagePage() {
+  const [report, setReport] = useState<LlmUsageReport | null>(null);
+  const [days, setDays] = useState('30');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const router = useRouter();
+
+  const loadUsage = useCallback(async (period: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/admin/llm-usage?days=${period}`, {
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        setError(data.error || 'LLM利用料金の読み込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('LLM usage load error:', error);
+      setError('LLM利用料金の読み込み中にエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    // 認証チェック
+    const isAuth = AuthManager.isAuthenticated();
+    const currentUser = AuthManager.getUser();
+
+    if (!isAuth || !currentUser) {
+      router.push('/login');
+      return;
+    }
+
+    loadUsage(days);
+  }, [router, loadUsage, days]);
+
+  if (loading && !report) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+            <div className="space-y-4">
+              <div className="h-32 bg-gray-200 rounded"></div>
+              <div className="h-32 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+          <div className="text-center mt-4 text-gray-600">LLM利用料金を読み込み中...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">💰 LLM利用料金</h1>
+            <p className="text-gray-600">
+              記事生成・検索クエリ生成などのトークン使用量と料金表による推定コストを集計します
+            </p>
+          </div>
+          <Button onClick={() => router.push('/admin')} variant="secondary">
+            ← 管理画面に戻る
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {report && (
+          <>
+            {/* 予算 */}
+            <Card className="p-6 mb-6">
+              <h2 className="text-lg font-semibold mb-4">🚦 予算（UTC）</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {report.budgets.map((budget) => {
+                  const warning =
+                    budget.usageRate !== null && budget.usageRate >= BUDGET_WARNING_PERCENT;
+                  return (
+                    <div key={budget.period} className="text-sm">
+                      <div className="flex justify-between mb-1">
+                        <span className="font-medium">{BUDGET_LABELS[budget.period]}</span>
+                        <span
+                          className={
+                            budget.exceeded
+                              ? 'text-red-600'
+                              : warning
+                                ? 'text-yellow-600'
+                                : 'text-gray-600'
+                          }
+                        >
+                          {formatCost(budget.spent)}
+                          {budget.limit === null
+                            ? '（上限なし）'
+                            : ` / $${budget.limit.toFixed(2)}（${budget.usageRate}%）`}
+                        </span>
+                      </div>
+                      {budget.usageRate !== null && (
+                        <div className="w-full bg-gray-200 rounded-full h-2">
+                          <div
+                            className={`h-2 rounded-full ${
+                              budget.exceeded
+                                ? 'bg-red-500'
+                                : warning
+                                  ? 'bg-yellow-500'
+                                  : 'bg-green-500'
+                            }`}
+                            style={{ width: `${Math.min(100, budget.usageRate)}%` }}
+                          />
+                        </div>
+                      )}
+                      <div className="text-xs text-gray-500 mt-1">
+                        リセット: {new Date(budget.resetAt).toLocaleString('ja-JP')}
+                        {budget.exceeded && '（超過中のためバッチ処理を停止しています）'}
+                      </div>
+                    </div>
+                  );
+                })}
+              </div>
+            </Card>
+
+            {/* 日別の合計 */}
+            <Card className="p-6 mb-6">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-semibold">📅 日別の利用状況</h2>
+                <div className="w-40">
+                  <Select
+                    value={days}
+                    onChange={(e) => setDays(e.target.value)}
+                    options={PERIOD_OPTIONS}
+                  />
+                </div>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4 text-sm">
+                <div>
+                  <div className="text-gray-500">呼び出し</div>
+                  <div className="text-xl font-semibold">{report.totals.calls}</div>
+                </div>
+                <div>
+                  <div className="text-gray-500">入力トークン</div>
+                  <div className="text-xl font-semibold">
+                    {formatTokens(report.totals.promptTokens)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">出力トークン</div>
+                  <div className="text-xl font-semibold">
+                    {formatTokens(report.totals.completionTokens)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-gray-500">推定コスト</div>
+                  <div className="text-xl font-semibold">
+                    {formatCost(report.totals.estimatedCost)}
+                  </div>
+                </div>
+              </div>
+              {report.daily.length === 0 ? (
+                <p className="text-sm text-gray-500">この期間の利用はありません</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b">
+                        <th className="py-2 pr-4">日付</th>
+                        <th className="py-2 pr-4">呼び出し</th>
+                        <th className="py-2 pr-4">入力トークン</th>
+                        <th className="py-2 pr-4">出力トークン</th>
+                        <th className="py-2 pr-4">推定コスト</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y">
+                      {[...report.daily].reverse().map((day) => (
+                        <tr key={day.date}>
+                          <td className="py-2 pr-4 font-medium">{day.date.slice(0, 10)}</td>
+                          <td className="py-2 pr-4">{day.calls}</td>
+                          <td className="py-2 pr-4">{formatTokens(day.promptTokens)}</td>
+                          <td className="py-2 pr-4">{formatTokens(day.completionTokens)}</td>
+                          <td className="py-2 pr-4">{formatCost(day.estimatedCost)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Card>
+
+            <UsageTable title="🤖 モデル別" label="モデル" rows={report.byModel} />
+            <UsageTable title="⚙️ 処理別" label="処理" rows={report.byOperation} />
+            <UsageTable title="👤 ユーザー別" label="ユーザー" rows={report.byUser} />
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
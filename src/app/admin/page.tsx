@@ -11,6 +11,7 @@ import { AuthManager } from '@/lib/auth';
 import IntelligentCollectionComponent from '@/components/ui/IntelligentCollectionComponent';
 import { UserProfile } from '@/lib/ai/types';
 import { AVAILABLE_CATEGORIES, PREFERRED_STYLES, POPULAR_TAGS } from '@/lib/ai/constants';
+import type { QuotaStatus } from '@/lib/utils/quota-manager';
 
 function AdminPageContent() {
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
@@ -25,6 +26,13 @@ function AdminPageContent() {
   const [pipelineStatus, setPipelineStatus] = useState<string>('');
   const [isBatchRunning, setIsBatchRunning] = useState(false);
   const [batchStatus, setBatchStatus] = useState<string>('');
+  const [feedHealth, setFeedHealth] = useState<{
+    total: number;
+    active: number;
+    failing: number;
+    autoDisabled: number;
+  } | null>(null);
+  const [apiQuotas, setApiQuotas] = useState<QuotaStatus[]>([]);
   const router = useRouter();
 
   // フォーム状態
@@ -53,8 +61,81 @@ function AdminPageContent() {
 
     setAuthUser(currentUser);
     loadUserProfile(currentUser.id);
+    loadFeedHealth();
+    loadApiQuotas();
   }, [router]);
 
+  const loadFeedHealth = async () => {
+    try {
+      const token = AuthManager.getToken();
+      const headers: Record<string, string> = {};
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      const response = await fetch('/api/admin/feeds', { headers });
+      const data = await response.json();
+
+      if (data.success) {
+        setFeedHealth(data.data.health);
+      }
+    } catch (error) {
+      // フィード状況の取得失敗はダッシュボード表示を妨げない
+      console.error('Feed health load error:', error);
+    }
+  };
+
+  const loadApiQuotas = async () => {
+    try {
+      const token = AuthManager.getToken();
+      const headers: Record<string, string> = {};
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      const response = await fetch('/api/admin/quotas', { headers });
+      const data = await response.json();
+
+      if (data.success) {
+        setApiQuotas(data.data);
+      }
+    } catch (error) {
+      console.error('API quota load error:', error);
+    }
+  };
+
+  const handlePurgeSearchCache = async () => {
+    if (
+      !confirm('検索キャッシュを削除してもよろしいですか？次回の検索では外部APIが再度呼び出されます。')
+    ) {
+      return;
+    }
+
+    try {
+      setError(null);
+      setSuccessMessage(null);
+
+      const token = AuthManager.getToken();
+      const headers: Record<string, string> = {};
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      const response = await fetch('/api/admin/search-cache', { method: 'DELETE', headers });
+      const data = await response.json();
+
+      if (data.success) {
+        setSuccessMessage(`検索キャッシュを削除しました（${data.data.deleted}件）`);
+        setTimeout(() => setSuccessMessage(null), 3000);
+      } else {
+        setError(data.error || '検索キャッシュの削除に失敗しました');
+      }
+    } catch (error) {
+      console.error('Search cache purge error:', error);
+      setError('検索キャッシュの削除中にエラーが発生しました');
+    }
+  };
+
   const loadUserProfile = async (userId: string) => {
     try {
       setLoading(true);
@@ -293,7 +374,7 @@ function AdminPageContent() {
 
         const sourcesForArticle = collectionData.data.results
           .slice(startIdx, endIdx)
-          .map((result: { title: string; url: string; summary: string; publishedAt: string; source: string; type: string }) => ({
+          .map((result: { title: string; url: string; summary: string; publishedAt: string | null; source: string; type: string }) => ({
             title: result.title,
             url: result.url,
             summary: result.summary,
@@ -445,7 +526,7 @@ function AdminPageContent() {
       // Step 2: 記事生成
       setPipelineStatus('📝 記事を生成中...');
 
-      const sourcesToUse = collectionData.data.results.map((result: { title: string; url: string; summary: string; publishedAt: string; source: string; type: string }) => ({
+      const sourcesToUse = collectionData.data.results.map((result: { title: string; url: string; summary: string; publishedAt: string | null; source: string; type: string }) => ({
         title: result.title,
         url: result.url,
         summary: result.summary,
@@ -601,9 +682,35 @@ function AdminPageContent() {
                 <span>興味キーワード:</span>
                 <span>{userProfile?.stats?.interestsCount || 0}個</span>
               </div>
+              {feedHealth && (
+                <>
+                  <div className="flex justify-between">
+                    <span>RSSフィード:</span>
+                    <span>
+                      {feedHealth.active}/{feedHealth.total}件 有効
+                    </span>
+                  </div>
+                  {feedHealth.failing > 0 && (
+                    <div className="flex justify-between">
+                      <span>フィードエラー:</span>
+                      <span className="text-yellow-600">{feedHealth.failing}件</span>
+                    </div>
+                  )}
+                  {feedHealth.autoDisabled > 0 && (
+                    <div className="flex justify-between">
+                      <span>自動停止フィード:</span>
+                      <span className="text-red-600">{feedHealth.autoDisabled}件</span>
+                    </div>
+                  )}
+                </>
+              )}
               <div className="flex justify-between">
                 <span>ステータス:</span>
-                <span className="text-green-600">正常稼働</span>
+                {feedHealth && feedHealth.failing + feedHealth.autoDisabled > 0 ? (
+                  <span className="text-yellow-600">一部フィードに問題あり</span>
+                ) : (
+                  <span className="text-green-600">正常稼働</span>
+                )}
               </div>
             </div>
           </Card>
@@ -645,6 +752,55 @@ function AdminPageContent() {
               >
                 📋 記事一括管理
               </Button>
+              <Button
+                onClick={() => router.push('/admin/feeds')}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                📡 フィード管理
+              </Button>
+              <Button
+                onClick={() => router.push('/admin/domain-rules')}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                🌐 ドメインルール管理
+              </Button>
+              <Button
+                onClick={() => router.push('/admin/prompts')}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                🧩 プロンプト管理
+              </Button>
+              <Button
+                onClick={() => router.push('/admin/prompt-experiments')}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                🧪 プロンプトA/Bテスト
+              </Button>
+              <Button
+                onClick={() => router.push('/admin/llm-usage')}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                💰 LLM利用料金
+              </Button>
+              <Button
+                onClick={() => router.push('/ingest')}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                🔖 URL登録・ブックマークレット
+              </Button>
+              <Button
+                onClick={handlePurgeSearchCache}
+                className="w-full text-sm"
+                variant="secondary"
+              >
+                🗑️ 検索キャッシュ削除
+              </Button>
               <Button className="w-full text-sm" variant="secondary" disabled>
                 ⚙️ システム設定
               </Button>
@@ -652,6 +808,50 @@ function AdminPageContent() {
           </Card>
         </div>
 
+        {/* API利用状況 */}
+        {apiQuotas.length > 0 && (
+          <Card className="p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-xl font-semibold">📈 本日のAPI利用状況</h2>
+              <span className="text-xs text-gray-500">
+                リセット: {new Date(apiQuotas[0].resetAt).toLocaleString('ja-JP')}
+              </span>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {apiQuotas.map((quota) => (
+                <div key={quota.provider} className="text-sm">
+                  <div className="flex justify-between mb-1">
+                    <span className="font-medium">{quota.provider}</span>
+                    <span
+                      className={
+                        quota.exhausted
+                          ? 'text-red-600'
+                          : quota.warning
+                            ? 'text-yellow-600'
+                            : 'text-gray-600'
+                      }
+                    >
+                      {quota.used}/{quota.limit}（{quota.usageRate}%）
+                    </span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className={`h-2 rounded-full ${
+                        quota.exhausted
+                          ? 'bg-red-500'
+                          : quota.warning
+                            ? 'bg-yellow-500'
+                            : 'bg-green-500'
+                      }`}
+                      style={{ width: `${Math.min(100, quota.usageRate)}%` }}
+                    />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </Card>
+        )}
+
         {/* AI情報収集セクション */}
         <Card className="p-6 mb-6">
           <h2 className="text-xl font-semibold mb-4">🤖 AI情報収集</h2>
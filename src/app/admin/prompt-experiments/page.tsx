@@ -0,0 +1,512 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { AuthManager } from '@/lib/auth';
+
+type ExperimentStatus = 'draft' | 'running' | 'stopped';
+
+interface ExperimentVariant {
+  id: string;
+  version: number;
+  weight: number;
+}
+
+interface PromptExperiment {
+  id: string;
+  name: string;
+  templateId: string;
+  status: ExperimentStatus;
+  startedAt: string | null;
+  endedAt: string | null;
+  createdAt: string;
+  variants: ExperimentVariant[];
+}
+
+interface VariantStats {
+  variantId: string;
+  version: number;
+  weight: number;
+  articles: number;
+  avgQualityScore: number | null;
+  avgInterestScore: number | null;
+  editedArticles: number;
+  totalEdits: number;
+  deletedArticles: number;
+  models: string[];
+}
+
+interface ExperimentReport {
+  experiment: PromptExperiment;
+  variants: VariantStats[];
+}
+
+const STATUS_LABELS: Record<ExperimentStatus, { label: string; className: string }> = {
+  draft: { label: '未開始', className: 'bg-gray-100 text-gray-600' },
+  running: { label: '実行中', className: 'bg-green-100 text-green-700' },
+  stopped: { label: '停止', className: 'bg-yellow-100 text-yellow-700' },
+};
+
+// 結果を記事単位で集計するため、対象は記事生成のテンプレートのみ
+const TEMPLATE_ID = 'article-generation';
+
+const EMPTY_FORM = {
+  name: '',
+  variants: [
+    { version: '', weight: '50' },
+    { version: '', weight: '50' },
+  ],
+};
+
+const MAX_VARIANTS = 5;
+
+const getHeaders = (): Record<string, string> => {
+  const token = AuthManager.getToken();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+const formatScore = (value: number | null): string => (value === null ? '-' : value.toFixed(2));
+
+const formatRate = (count: number, total: number): string =>
+  total === 0 ? '-' : `${((count / total) * 100).toFixed(1)}%（${count}件）`;
+
+export default function PromptExperimentsPage() {
+  const [experiments, setExperiments] = useState<PromptExperiment[]>([]);
+  const [versions, setVersions] = useState<number[]>([]);
+  const [report, setReport] = useState<ExperimentReport | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const router = useRouter();
+
+  const loadExperiments = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/prompt-experiments', { headers: getHeaders() });
+      const data = await response.json();
+
+      if (data.success) {
+        setExperiments(data.data.experiments);
+      } else {
+        setError(data.error || 'A/Bテストの読み込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt experiments load error:', error);
+      setError('A/Bテストの読み込み中にエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/admin/prompts/${TEMPLATE_ID}`, {
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setVersions(data.data.versions.map((version: { version: number }) => version.version));
+      } else {
+        setVersions([]);
+      }
+    } catch (error) {
+      console.error('Prompt versions load error:', error);
+      setVersions([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    // 認証チェック
+    const isAuth = AuthManager.isAuthenticated();
+    const currentUser = AuthManager.getUser();
+
+    if (!isAuth || !currentUser) {
+      router.push('/login');
+      return;
+    }
+
+    loadExperiments();
+    loadVersions();
+  }, [router, loadExperiments, loadVersions]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const updateVariant = (index: number, field: 'version' | 'weight', value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      variants: prev.variants.map((variant, i) =>
+        i === index ? { ...variant, [field]: value } : variant
+      ),
+    }));
+  };
+
+  const handleCreate = async () => {
+    if (!formData.name.trim()) {
+      setError('テスト名は必須です');
+      return;
+    }
+    if (formData.variants.some((variant) => !variant.version)) {
+      setError('すべてのバリアントのバージョンを選択してください');
+      return;
+    }
+    if (formData.variants.some((variant) => !(Number(variant.weight) > 0))) {
+      setError('比率は0より大きい値を指定してください');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/prompt-experiments', {
+        method: 'POST',
+        headers: getHeaders(),
+        body: JSON.stringify({
+          name: formData.name.trim(),
+          templateId: TEMPLATE_ID,
+          variants: formData.variants.map((variant) => ({
+            version: Number(variant.version),
+            weight: Number(variant.weight),
+          })),
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess('A/Bテストを作成しました');
+        setFormData(EMPTY_FORM);
+        await loadExperiments();
+      } else {
+        setError(data.error || 'A/Bテストの作成に失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt experiment create error:', error);
+      setError('作成中にエラーが発生しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReport = async (experiment: PromptExperiment) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/prompt-experiments/${experiment.id}`, {
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReport(data.data);
+      } else {
+        setError(data.error || 'A/Bテストの結果の取得に失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt experiment report error:', error);
+      setError('結果の取得中にエラーが発生しました');
+    }
+  };
+
+  const handleStatusChange = async (experiment: PromptExperiment, status: ExperimentStatus) => {
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/prompt-experiments/${experiment.id}`, {
+        method: 'PUT',
+        headers: getHeaders(),
+        body: JSON.stringify({ status }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(status === 'running' ? 'A/Bテストを開始しました' : 'A/Bテストを停止しました');
+        await loadExperiments();
+        if (report?.experiment.id === experiment.id) {
+          await handleReport(experiment);
+        }
+      } else {
+        setError(data.error || 'A/Bテストの更新に失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt experiment update error:', error);
+      setError('更新中にエラーが発生しました');
+    }
+  };
+
+  const handleDelete = async (experiment: PromptExperiment) => {
+    if (!confirm(`「${experiment.name}」を削除してもよろしいですか？集計結果も削除されます。`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/prompt-experiments/${experiment.id}`, {
+        method: 'DELETE',
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess('A/Bテストを削除しました');
+        if (report?.experiment.id === experiment.id) {
+          setReport(null);
+        }
+        await loadExperiments();
+      } else {
+        setError(data.error || 'A/Bテストの削除に失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt experiment delete error:', error);
+      setError('削除中にエラーが発生しました');
+    }
+  };
+
+  const versionOptions = versions.map((version) => ({
+    value: String(version),
+    label: `v${version}`,
+  }));
+
+  if (loading && experiments.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+            <div className="space-y-4">
+              <div className="h-32 bg-gray-200 rounded"></div>
+              <div className="h-32 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+          <div className="text-center mt-4 text-gray-600">A/Bテストを読み込み中...</div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">🧪 プロンプトA/Bテスト</h1>
+            <p className="text-gray-600">
+              複数のプロンプトバージョンに生成を振り分け、記事の評価・編集・削除の結果を比較します
+            </p>
+          </div>
+          <Button onClick={() => router.push('/admin')} variant="secondary">
+            ← 管理画面に戻る
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-700">{successMessage}</p>
+          </div>
+        )}
+
+        {/* 作成フォーム */}
+        <Card className="p-6 mb-6">
+          <h2 className="text-lg font-semibold mb-4">➕ A/Bテストを作成</h2>
+          <div className="mb-4">
+            <Input
+              label="テスト名"
+              value={formData.name}
+              onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+              placeholder="導入文を短くしたバージョンの比較"
+              helperText="記事生成プロンプトのバージョンごとに生成を振り分けます"
+            />
+          </div>
+          <div className="space-y-2 mb-4">
+            {formData.variants.map((variant, index) => (
+              <div key={index} className="grid grid-cols-[1fr_1fr_auto] gap-2 items-end">
+                <Select
+                  label={`バリアント${index + 1}`}
+                  value={variant.version}
+                  onChange={(e) => updateVariant(index, 'version', e.target.value)}
+                  options={versionOptions}
+                  placeholder="バージョンを選択"
+                />
+                <Input
+                  label="比率"
+                  type="number"
+                  min="1"
+                  max="100"
+                  value={variant.weight}
+                  onChange={(e) => updateVariant(index, 'weight', e.target.value)}
+                />
+                <Button
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      variants: prev.variants.filter((_, i) => i !== index),
+                    }))
+                  }
+                  size="sm"
+                  variant="secondary"
+                  disabled={formData.variants.length <= 2}
+                >
+                  削除
+                </Button>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between">
+            <Button
+              onClick={() =>
+                setFormData((prev) => ({
+                  ...prev,
+                  variants: [...prev.variants, { version: '', weight: '50' }],
+                }))
+              }
+              size="sm"
+              variant="secondary"
+              disabled={formData.variants.length >= MAX_VARIANTS}
+            >
+              ＋ バリアントを追加
+            </Button>
+            <Button onClick={handleCreate} disabled={saving}>
+              {saving ? '作成中...' : '作成する'}
+            </Button>
+          </div>
+        </Card>
+
+        {/* 結果の比較 */}
+        {report && (
+          <Card className="p-6 mb-6">
+            <div className="flex justify-between items-center mb-4">
+              <h2 className="text-lg font-semibold">📊 {report.experiment.name} の結果</h2>
+              <Button onClick={() => setReport(null)} size="sm" variant="secondary">
+                閉じる
+              </Button>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4">バージョン</th>
+                    <th className="py-2 pr-4">比率</th>
+                    <th className="py-2 pr-4">記事数</th>
+                    <th className="py-2 pr-4">平均品質スコア</th>
+                    <th className="py-2 pr-4">平均興味度スコア</th>
+                    <th className="py-2 pr-4">手動編集率</th>
+                    <th className="py-2 pr-4">編集回数</th>
+                    <th className="py-2 pr-4">削除率</th>
+                    <th className="py-2 pr-4">モデル</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {report.variants.map((variant) => (
+                    <tr key={variant.variantId}>
+                      <td className="py-2 pr-4 font-medium">v{variant.version}</td>
+                      <td className="py-2 pr-4">{variant.weight}</td>
+                      <td className="py-2 pr-4">{variant.articles}</td>
+                      <td className="py-2 pr-4">{formatScore(variant.avgQualityScore)}</td>
+                      <td className="py-2 pr-4">{formatScore(variant.avgInterestScore)}</td>
+                      <td className="py-2 pr-4">
+                        {formatRate(variant.editedArticles, variant.articles)}
+                      </td>
+                      <td className="py-2 pr-4">{variant.totalEdits}</td>
+                      <td className="py-2 pr-4">
+                        {formatRate(variant.deletedArticles, variant.articles)}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-500">
+                        {variant.models.join(', ') || '-'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </Card>
+        )}
+
+        {/* テスト一覧 */}
+        <Card className="p-6">
+          <h2 className="text-lg font-semibold mb-4">A/Bテスト一覧</h2>
+
+          {experiments.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">作成されたA/Bテストはありません</div>
+          ) : (
+            <div className="divide-y">
+              {experiments.map((experiment) => (
+                <div key={experiment.id} className="py-3 flex justify-between items-center gap-4">
+                  <div className="min-w-0">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="font-medium text-gray-900">{experiment.name}</span>
+                      <span
+                        className={`px-2 py-1 rounded text-xs font-medium ${STATUS_LABELS[experiment.status].className}`}
+                      >
+                        {STATUS_LABELS[experiment.status].label}
+                      </span>
+                    </div>
+                    <p className="text-sm text-gray-500 mt-1">
+                      {experiment.variants
+                        .map((variant) => `v${variant.version}（比率${variant.weight}）`)
+                        .join(' / ')}
+                      {experiment.startedAt &&
+                        ` ・ 開始: ${new Date(experiment.startedAt).toLocaleString('ja-JP')}`}
+                      {experiment.endedAt &&
+                        ` ・ 停止: ${new Date(experiment.endedAt).toLocaleString('ja-JP')}`}
+                    </p>
+                  </div>
+                  <div className="flex space-x-2 flex-shrink-0">
+                    <Button onClick={() => handleReport(experiment)} size="sm" variant="secondary">
+                      結果
+                    </Button>
+                    {experiment.status === 'running' ? (
+                      <Button
+                        onClick={() => handleStatusChange(experiment, 'stopped')}
+                        size="sm"
+                        variant="secondary"
+                        className="text-yellow-600 border-yellow-300 hover:bg-yellow-50"
+                      >
+                        停止
+                      </Button>
+                    ) : (
+                      <Button
+                        onClick={() => handleStatusChange(experiment, 'running')}
+                        size="sm"
+                        variant="secondary"
+                        className="text-green-600 border-green-300 hover:bg-green-50"
+                      >
+                        {experiment.status === 'draft' ? '開始' : '再開'}
+                      </Button>
+                    )}
+                    <Button
+                      onClick={() => handleDelete(experiment)}
+                      size="sm"
+                      variant="secondary"
+                      className="text-red-600 border-red-300 hover:bg-red-50"
+                    >
+                      削除
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,519 @@
+'use client';
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Select } from '@/components/ui/Select';
+import { Textarea } from '@/components/ui/Textarea';
+import { AuthManager } from '@/lib/auth';
+import { diffLines, type DiffLine } from '@/lib/utils/text-diff';
+
+interface PromptTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  category: string;
+  activeVersion: number | null;
+  versionCount: number;
+  availableVariables: string[];
+  updatedAt: string;
+}
+
+interface PromptTemplateVersion {
+  id: string;
+  version: number;
+  systemPrompt: string;
+  template: string;
+  variables: string[];
+  note: string | null;
+  createdBy: string | null;
+  createdAt: string;
+}
+
+interface PromptTemplateDetail extends Omit<PromptTemplateSummary, 'versionCount'> {
+  versions: PromptTemplateVersion[];
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  search: '検索',
+  evaluation: '評価',
+  generation: '生成',
+  classification: '分類',
+};
+
+const DIFF_LINE_STYLES: Record<DiffLine['type'], { prefix: string; className: string }> = {
+  same: { prefix: ' ', className: 'text-gray-600' },
+  added: { prefix: '+', className: 'bg-green-50 text-green-800' },
+  removed: { prefix: '-', className: 'bg-red-50 text-red-800' },
+};
+
+const EMPTY_FORM = {
+  systemPrompt: '',
+  template: '',
+  note: '',
+  activate: true,
+};
+
+const getHeaders = (): Record<string, string> => {
+  const token = AuthManager.getToken();
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+  return headers;
+};
+
+// 差分表示用にシステムプロンプトとテンプレートを1つのテキストにまとめる
+const toDiffText = (version: PromptTemplateVersion): string =>
+  `# システムプロンプト\n${version.systemPrompt}\n\n# テンプレート\n${version.template}`;
+
+export default function PromptManagementPage() {
+  const [templates, setTemplates] = useState<PromptTemplateSummary[]>([]);
+  const [selected, setSelected] = useState<PromptTemplateDetail | null>(null);
+  const [currentUserName, setCurrentUserName] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [diffFrom, setDiffFrom] = useState('');
+  const [diffTo, setDiffTo] = useState('');
+  const router = useRouter();
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch('/api/admin/prompts', { headers: getHeaders() });
+      const data = await response.json();
+
+      if (data.success) {
+        setTemplates(data.data.templates);
+      } else {
+        setError(data.error || 'プロンプトテンプレートの読み込みに失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt templates load error:', error);
+      setError('プロンプトテンプレートの読み込み中にエラーが発生しました');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTemplate = useCallback(async (id: string) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/admin/prompts/${encodeURIComponent(id)}`, {
+        headers: getHeaders(),
+      });
+      const data = await response.json();
+
+      if (!data.success) {
+        setError(data.error || 'プロンプトテンプレートの読み込みに失敗しました');
+        return;
+      }
+
+      const detail: PromptTemplateDetail = data.data;
+      const active =
+        detail.versions.find((version) => version.version === detail.activeVersion) ??
+        detail.versions[0];
+
+      setSelected(detail);
+      setFormData({
+        ...EMPTY_FORM,
+        systemPrompt: active?.systemPrompt ?? '',
+        template: active?.template ?? '',
+      });
+      // 既定では1つ前のバージョンと使用中のバージョンを比較する
+      setDiffTo(active ? String(active.version) : '');
+      setDiffFrom(
+        String(
+          detail.versions.find((version) => version.version < (active?.version ?? 0))?.version ?? ''
+        )
+      );
+    } catch (error) {
+      console.error('Prompt template load error:', error);
+      setError('プロンプトテンプレートの読み込み中にエラーが発生しました');
+    }
+  }, []);
+
+  useEffect(() => {
+    // 認証チェック
+    const isAuth = AuthManager.isAuthenticated();
+    const currentUser = AuthManager.getUser();
+
+    if (!isAuth || !currentUser) {
+      router.push('/login');
+      return;
+    }
+
+    setCurrentUserName(currentUser.name || currentUser.email);
+    loadTemplates();
+  }, [router, loadTemplates]);
+
+  const showSuccess = (message: string) => {
+    setSuccessMessage(message);
+    setTimeout(() => setSuccessMessage(null), 3000);
+  };
+
+  const reload = async (id: string) => {
+    await Promise.all([loadTemplates(), loadTemplate(id)]);
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    if (!formData.template.trim()) {
+      setError('テンプレートは必須です');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const response = await fetch(
+        `/api/admin/prompts/${encodeURIComponent(selected.id)}/versions`,
+        {
+          method: 'POST',
+          headers: getHeaders(),
+          body: JSON.stringify({
+            systemPrompt: formData.systemPrompt,
+            template: formData.template,
+            note: formData.note.trim() || null,
+            createdBy: currentUserName,
+            activate: formData.activate,
+          }),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(
+          formData.activate
+            ? `バージョン${data.data.version}を保存して有効化しました`
+            : `バージョン${data.data.version}を保存しました`
+        );
+        await reload(selected.id);
+      } else {
+        setError(data.error || 'プロンプトテンプレートの保存に失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt template save error:', error);
+      setError('保存中にエラーが発生しました');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleActivate = async (version: number) => {
+    if (!selected) return;
+    if (!confirm(`バージョン${version}を使用中にしてもよろしいですか？`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(`/api/admin/prompts/${encodeURIComponent(selected.id)}`, {
+        method: 'PUT',
+        headers: getHeaders(),
+        body: JSON.stringify({ activeVersion: version }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(`バージョン${version}を有効化しました`);
+        await reload(selected.id);
+      } else {
+        setError(data.error || 'バージョンの切り替えに失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt template activate error:', error);
+      setError('バージョンの切り替え中にエラーが発生しました');
+    }
+  };
+
+  const handleRollback = async () => {
+    if (!selected) return;
+    if (!confirm('使用中のバージョンを1つ前のバージョンに戻してもよろしいですか？')) {
+      return;
+    }
+
+    try {
+      setError(null);
+      const response = await fetch(
+        `/api/admin/prompts/${encodeURIComponent(selected.id)}/rollback`,
+        {
+          method: 'POST',
+          headers: getHeaders(),
+        }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        showSuccess(`バージョン${data.data.activeVersion}に戻しました`);
+        await reload(selected.id);
+      } else {
+        setError(data.error || 'ロールバックに失敗しました');
+      }
+    } catch (error) {
+      console.error('Prompt template rollback error:', error);
+      setError('ロールバック中にエラーが発生しました');
+    }
+  };
+
+  const versionOptions = useMemo(
+    () =>
+      (selected?.versions ?? []).map((version) => ({
+        value: String(version.version),
+        label: `v${version.version}${version.version === selected?.activeVersion ? '（使用中）' : ''}`,
+      })),
+    [selected]
+  );
+
+  const diff = useMemo(() => {
+    const from = selected?.versions.find((version) => String(version.version) === diffFrom);
+    const to = selected?.versions.find((version) => String(version.version) === diffTo);
+    return from && to ? diffLines(toDiffText(from), toDiffText(to)) : null;
+  }, [selected, diffFrom, diffTo]);
+
+  if (loading && templates.length === 0) {
+    return (
+      <div className="container mx-auto px-4 py-8">
+        <div className="max-w-6xl mx-auto">
+          <div className="animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-1/3 mb-8"></div>
+            <div className="space-y-4">
+              <div className="h-32 bg-gray-200 rounded"></div>
+              <div className="h-32 bg-gray-200 rounded"></div>
+            </div>
+          </div>
+          <div className="text-center mt-4 text-gray-600">
+            プロンプトテンプレートを読み込み中...
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-6xl mx-auto">
+        <div className="mb-8 flex justify-between items-center">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">🧩 プロンプト管理</h1>
+            <p className="text-gray-600">
+              AI処理で使用するプロンプトテンプレートの編集・バージョン切り替えを行います
+            </p>
+          </div>
+          <Button onClick={() => router.push('/admin')} variant="secondary">
+            ← 管理画面に戻る
+          </Button>
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        {successMessage && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-700">{successMessage}</p>
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* テンプレート一覧 */}
+          <Card className="p-6 lg:col-span-1">
+            <h2 className="text-lg font-semibold mb-4">テンプレート一覧</h2>
+            {templates.length === 0 ? (
+              <div className="text-center py-8 text-gray-500">テンプレートがありません</div>
+            ) : (
+              <div className="divide-y">
+                {templates.map((template) => (
+                  <button
+                    key={template.id}
+                    onClick={() => loadTemplate(template.id)}
+                    className={`w-full text-left py-3 px-2 rounded ${
+                      selected?.id === template.id ? 'bg-blue-50' : 'hover:bg-gray-50'
+                    }`}
+                  >
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-gray-900">{template.name}</span>
+                      <span className="px-2 py-0.5 rounded text-xs bg-gray-100 text-gray-600">
+                        {CATEGORY_LABELS[template.category] ?? template.category}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {template.id} ・ v{template.activeVersion ?? '-'} 使用中 ・ 全
+                      {template.versionCount}バージョン
+                    </div>
+                  </button>
+                ))}
+              </div>
+            )}
+          </Card>
+
+          <div className="lg:col-span-2 space-y-6">
+            {!selected ? (
+              <Card className="p-6">
+                <div className="text-center py-8 text-gray-500">
+                  編集するテンプレートを選択してください
+                </div>
+              </Card>
+            ) : (
+              <>
+                {/* 編集フォーム */}
+                <Card className="p-6">
+                  <h2 className="text-lg font-semibold mb-1">✏️ {selected.name}</h2>
+                  <p className="text-sm text-gray-500 mb-4">{selected.description}</p>
+                  <div className="space-y-4 mb-4">
+                    <Textarea
+                      label="システムプロンプト"
+                      value={formData.systemPrompt}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, systemPrompt: e.target.value }))
+                      }
+                      rows={3}
+                    />
+                    <Textarea
+                      label="テンプレート"
+                      value={formData.template}
+                      onChange={(e) =>
+                        setFormData((prev) => ({ ...prev, template: e.target.value }))
+                      }
+                      rows={16}
+                      className="font-mono"
+                      helperText={`使用できる変数: ${selected.availableVariables
+                        .map((name) => `{{${name}}}`)
+                        .join(', ')}`}
+                    />
+                    <Input
+                      label="変更内容のメモ"
+                      value={formData.note}
+                      onChange={(e) => setFormData((prev) => ({ ...prev, note: e.target.value }))}
+                      placeholder="任意"
+                    />
+                    <label className="flex items-center gap-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={formData.activate}
+                        onChange={(e) =>
+                          setFormData((prev) => ({ ...prev, activate: e.target.checked }))
+                        }
+                      />
+                      保存と同時に使用中にする
+                    </label>
+                  </div>
+                  <div className="flex justify-end">
+                    <Button onClick={handleSave} disabled={saving}>
+                      {saving ? '保存中...' : '新しいバージョンとして保存'}
+                    </Button>
+                  </div>
+                </Card>
+
+                {/* バージョン履歴 */}
+                <Card className="p-6">
+                  <div className="flex justify-between items-center mb-4">
+                    <h2 className="text-lg font-semibold">バージョン履歴</h2>
+                    <Button
+                      onClick={handleRollback}
+                      size="sm"
+                      variant="secondary"
+                      disabled={
+                        !selected.versions.some(
+                          (version) => version.version < (selected.activeVersion ?? 0)
+                        )
+                      }
+                    >
+                      ↩️ 1つ前に戻す
+                    </Button>
+                  </div>
+                  <div className="divide-y">
+                    {selected.versions.map((version) => (
+                      <div
+                        key={version.id}
+                        className="py-3 flex justify-between items-center gap-4"
+                      >
+                        <div className="min-w-0">
+                          <div className="flex flex-wrap items-center gap-2">
+                            <span className="font-medium text-gray-900">v{version.version}</span>
+                            {version.version === selected.activeVersion && (
+                              <span className="px-2 py-1 rounded text-xs bg-green-100 text-green-700">
+                                使用中
+                              </span>
+                            )}
+                            <span className="text-xs text-gray-500">
+                              {new Date(version.createdAt).toLocaleString('ja-JP')}
+                              {version.createdBy && ` ・ ${version.createdBy}`}
+                            </span>
+                          </div>
+                          {version.note && (
+                            <p className="text-sm text-gray-500 mt-1">{version.note}</p>
+                          )}
+                        </div>
+                        {version.version !== selected.activeVersion && (
+                          <Button
+                            onClick={() => handleActivate(version.version)}
+                            size="sm"
+                            variant="secondary"
+                            className="text-green-600 border-green-300 hover:bg-green-50 flex-shrink-0"
+                          >
+                            有効化
+                          </Button>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </Card>
+
+                {/* バージョン間の差分 */}
+                <Card className="p-6">
+                  <h2 className="text-lg font-semibold mb-4">差分</h2>
+                  <div className="grid grid-cols-2 gap-4 mb-4">
+                    <Select
+                      label="比較元"
+                      value={diffFrom}
+                      onChange={(e) => setDiffFrom(e.target.value)}
+                      options={versionOptions}
+                      placeholder="選択してください"
+                    />
+                    <Select
+                      label="比較先"
+                      value={diffTo}
+                      onChange={(e) => setDiffTo(e.target.value)}
+                      options={versionOptions}
+                      placeholder="選択してください"
+                    />
+                  </div>
+                  {!diff ? (
+                    <div className="text-center py-4 text-gray-500">
+                      比較する2つのバージョンを選択してください
+                    </div>
+                  ) : diff.every((line) => line.type === 'same') ? (
+                    <div className="text-center py-4 text-gray-500">差分はありません</div>
+                  ) : (
+                    <pre className="text-xs font-mono border rounded overflow-x-auto max-h-[600px]">
+                      {diff.map((line, index) => (
+                        <div
+                          key={index}
+                          className={`px-2 whitespace-pre-wrap ${DIFF_LINE_STYLES[line.type].className}`}
+                        >
+                          {DIFF_LINE_STYLES[line.type].prefix} {line.text}
+                        </div>
+                      ))}
+                    </pre>
+                  )}
+                </Card>
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { DomainRuleSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const UpdateDomainRuleSchema = DomainRuleSchema.partial();
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { DomainRuleModel, normalizeDomain } = await import('@/lib/db/models/domain-rule');
+    const { clearDomainRuleCache } = await import('@/lib/utils/domain-rules');
+    const { id } = await context.params;
+
+    const parsed = UpdateDomainRuleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    const existing = await DomainRuleModel.findById(id);
+    if (!existing) {
+      return notFoundResponse('Domain rule');
+    }
+
+    if (parsed.data.domain !== undefined && !normalizeDomain(parsed.data.domain)) {
+      return errorResponse('ドメインの形式が正しくありません', 400);
+    }
+
+    if (parsed.data.domain !== undefined || parsed.data.userId !== undefined) {
+      const duplicate = await DomainRuleModel.findByDomain(
+        parsed.data.domain ?? existing.domain,
+        parsed.data.userId !== undefined ? parsed.data.userId : existing.userId
+      );
+      if (duplicate && duplicate.id !== id) {
+        return errorResponse('このドメインのルールは既に登録されています', 409);
+      }
+    }
+
+    const rule = await DomainRuleModel.update(id, parsed.data);
+    clearDomainRuleCache();
+    return successResponse(rule);
+  } catch (error) {
+    console.error('Domain Rule Update API Error:', error);
+    return errorResponse('ドメインルールの更新に失敗しました');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { DomainRuleModel } = await import('@/lib/db/models/domain-rule');
+    const { clearDomainRuleCache } = await import('@/lib/utils/domain-rules');
+    const { id } = await context.params;
+
+    if (!(await DomainRuleModel.findById(id))) {
+      return notFoundResponse('Domain rule');
+    }
+
+    await DomainRuleModel.delete(id);
+    clearDomainRuleCache();
+    return successResponse({ id });
+  } catch (error) {
+    console.error('Domain Rule Delete API Error:', error);
+    return errorResponse('ドメインルールの削除に失敗しました');
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { DomainRuleSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { DomainRuleModel } = await import('@/lib/db/models/domain-rule');
+    const { successResponse } = await import('@/lib/api/response');
+
+    const rules = await DomainRuleModel.findAll();
+    return successResponse({ rules });
+  } catch (error) {
+    console.error('Domain Rules API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('ドメインルールの取得に失敗しました');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { successResponse, errorResponse, validationErrorResponse } = await import(
+    '@/lib/api/response'
+  );
+
+  try {
+    const { DomainRuleModel, normalizeDomain } = await import('@/lib/db/models/domain-rule');
+    const { clearDomainRuleCache } = await import('@/lib/utils/domain-rules');
+
+    const parsed = DomainRuleSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (!normalizeDomain(parsed.data.domain)) {
+      return errorResponse('ドメインの形式が正しくありません', 400);
+    }
+
+    if (await DomainRuleModel.findByDomain(parsed.data.domain, parsed.data.userId)) {
+      return errorResponse('このドメインのルールは既に登録されています', 409);
+    }
+
+    const rule = await DomainRuleModel.create(parsed.data);
+    clearDomainRuleCache();
+    return successResponse(rule);
+  } catch (error) {
+    console.error('Domain Rule Create API Error:', error);
+    return errorResponse('ドメインルールの登録に失敗しました');
+  }
+}
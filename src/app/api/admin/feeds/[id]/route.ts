@@ -0,0 +1,78 @@
+import { NextRequest } from 'next/server';
+import { FeedSourceSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const UpdateFeedSourceSchema = FeedSourceSchema.partial();
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+    const { id } = await context.params;
+
+    const feed = await FeedSourceModel.findById(id);
+    if (!feed) {
+      return notFoundResponse('Feed');
+    }
+
+    return successResponse(feed);
+  } catch (error) {
+    console.error('Feed Detail API Error:', error);
+    return errorResponse('フィードの取得に失敗しました');
+  }
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+    const { id } = await context.params;
+
+    const parsed = UpdateFeedSourceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (!(await FeedSourceModel.findById(id))) {
+      return notFoundResponse('Feed');
+    }
+
+    if (parsed.data.url) {
+      const duplicate = await FeedSourceModel.findByUrl(parsed.data.url);
+      if (duplicate && duplicate.id !== id) {
+        return errorResponse('このURLのフィードは既に登録されています', 409);
+      }
+    }
+
+    const feed = await FeedSourceModel.update(id, parsed.data);
+    return successResponse(feed);
+  } catch (error) {
+    console.error('Feed Update API Error:', error);
+    return errorResponse('フィードの更新に失敗しました');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+    const { id } = await context.params;
+
+    if (!(await FeedSourceModel.findById(id))) {
+      return notFoundResponse('Feed');
+    }
+
+    await FeedSourceModel.delete(id);
+    return successResponse({ id });
+  } catch (error) {
+    console.error('Feed Delete API Error:', error);
+    return errorResponse('フィードの削除に失敗しました');
+  }
+}
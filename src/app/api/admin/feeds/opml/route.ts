@@ -0,0 +1,139 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { OpmlImportSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 比較対象のフィード項目（RSSSourceのフィールド）
+const COMPARED_FIELDS = ['name', 'category', 'description', 'priority', 'active'] as const;
+
+/**
+ * 登録済みフィードをOPML 2.0で出力（includeInactive=trueで無効なフィードも含める）
+ */
+export async function GET(request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+    const { buildOpml } = await import('@/lib/utils/opml');
+    const { APP_NAME } = await import('@/lib/constants');
+
+    const includeInactive = request.nextUrl.searchParams.get('includeInactive') === 'true';
+    const feeds = includeInactive
+      ? await FeedSourceModel.findAll()
+      : await FeedSourceModel.findActive();
+
+    const opml = buildOpml(
+      feeds.map((feed) => ({
+        url: feed.url,
+        name: feed.name,
+        category: feed.category,
+        description: feed.description,
+        priority: feed.priority,
+        active: feed.active,
+      })),
+      `${APP_NAME} Feeds`
+    );
+
+    return new NextResponse(opml, {
+      headers: {
+        'Content-Type': 'text/x-opml; charset=utf-8',
+        'Content-Disposition': `attachment; filename="feeds-${new Date().toISOString().slice(0, 10)}.opml"`,
+      },
+    });
+  } catch (error) {
+    console.error('OPML Export API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('OPMLの出力に失敗しました');
+  }
+}
+
+/**
+ * OPMLを取り込む（dryRunの場合は新規・更新・変更なし・ファイル内重複のプレビューのみ）
+ */
+export async function POST(request: NextRequest) {
+  const { successResponse, errorResponse, validationErrorResponse } = await import(
+    '@/lib/api/response'
+  );
+
+  try {
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+    const { parseOpml } = await import('@/lib/utils/opml');
+
+    const parsed = OpmlImportSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    let document;
+    try {
+      document = parseOpml(parsed.data.opml);
+    } catch {
+      return errorResponse('OPMLの形式が正しくありません', 400);
+    }
+
+    // ファイル内で同じURLが複数回出現する場合は最初のものを使う
+    const seen = new Set<string>();
+    const feeds = document.feeds.filter((feed) => {
+      if (seen.has(feed.url)) return false;
+      seen.add(feed.url);
+      return true;
+    });
+    const duplicatesInFile = document.feeds.length - feeds.length;
+
+    const existing = new Map(
+      (await FeedSourceModel.findByUrls(feeds.map((feed) => feed.url))).map((feed) => [
+        feed.url,
+        feed,
+      ])
+    );
+
+    const preview = feeds.map((feed) => {
+      const current = existing.get(feed.url);
+      const changedFields = current
+        ? COMPARED_FIELDS.filter((field) => (current[field] ?? null) !== (feed[field] ?? null))
+        : [];
+
+      return {
+        ...feed,
+        status: !current ? 'new' : changedFields.length > 0 ? 'update' : 'unchanged',
+        existingId: current?.id ?? null,
+        changedFields,
+      };
+    });
+
+    const summary = {
+      total: document.feeds.length,
+      new: preview.filter((feed) => feed.status === 'new').length,
+      update: preview.filter((feed) => feed.status === 'update').length,
+      unchanged: preview.filter((feed) => feed.status === 'unchanged').length,
+      duplicatesInFile,
+    };
+
+    if (parsed.data.dryRun) {
+      return successResponse({ title: document.title, summary, feeds: preview, imported: 0 });
+    }
+
+    const changed = preview.filter((feed) => feed.status !== 'unchanged');
+    await FeedSourceModel.upsertMany(
+      changed.map((feed) => ({
+        url: feed.url,
+        name: feed.name,
+        category: feed.category,
+        description: feed.description,
+        priority: feed.priority,
+        active: feed.active,
+      }))
+    );
+
+    return successResponse({
+      title: document.title,
+      summary,
+      feeds: preview,
+      imported: changed.length,
+    });
+  } catch (error) {
+    console.error('OPML Import API Error:', error);
+    return errorResponse('OPMLの取り込みに失敗しました');
+  }
+}
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server';
+import { FeedSourceSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+    const { successResponse } = await import('@/lib/api/response');
+
+    const [feeds, health] = await Promise.all([
+      FeedSourceModel.findAll(),
+      FeedSourceModel.getHealthSummary(),
+    ]);
+
+    return successResponse({ feeds, health });
+  } catch (error) {
+    console.error('Feeds API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('フィードの取得に失敗しました');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { successResponse, errorResponse, validationErrorResponse } = await import(
+    '@/lib/api/response'
+  );
+
+  try {
+    const { FeedSourceModel } = await import('@/lib/db/models/feed-source');
+
+    const parsed = FeedSourceSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (await FeedSourceModel.findByUrl(parsed.data.url)) {
+      return errorResponse('このURLのフィードは既に登録されています', 409);
+    }
+
+    const feed = await FeedSourceModel.create(parsed.data);
+    return successResponse(feed);
+  } catch (error) {
+    console.error('Feed Create API Error:', error);
+    return errorResponse('フィードの登録に失敗しました');
+  }
+}
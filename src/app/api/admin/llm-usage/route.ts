@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { llmUsageQuerySchema, parseSearchParams } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// LLMのトークン使用量と推定コストの集計（直近days日、UTCの日付単位）
+export async function GET(request: NextRequest) {
+  const { successResponse, errorResponse } = await import('@/lib/api/response');
+
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { LlmUsageModel } = await import('@/lib/db/models/llm-usage');
+    const { getLlmBudgetStatuses } = await import('@/lib/ai/llm/budget');
+    const { prisma } = await import('@/lib/db/prisma');
+
+    const query = parseSearchParams(request.nextUrl.searchParams, llmUsageQuerySchema);
+    if (!query) {
+      return errorResponse('集計期間の指定が正しくありません', 400);
+    }
+
+    const from = new Date(Date.now() - (query.days - 1) * 24 * 60 * 60 * 1000);
+    const [totals, daily, byModel, byOperation, byUserId, budgets] = await Promise.all([
+      LlmUsageModel.getTotals({ from }),
+      LlmUsageModel.findDailyTotals(from),
+      LlmUsageModel.findTotalsBy('model', from),
+      LlmUsageModel.findTotalsBy('operation', from),
+      LlmUsageModel.findTotalsBy('userId', from),
+      getLlmBudgetStatuses(),
+    ]);
+
+    // ユーザーIDを表示名に変換
+    const users = await prisma.user.findMany({
+      where: { id: { in: byUserId.flatMap((row) => (row.key ? [row.key] : [])) } },
+      select: { id: true, name: true, email: true },
+    });
+    const byUser = byUserId.map((row) => {
+      const user = users.find((u) => u.id === row.key);
+      return { ...row, name: user?.name || user?.email || null };
+    });
+
+    return successResponse({
+      days: query.days,
+      from,
+      totals,
+      daily,
+      byModel,
+      byOperation,
+      byUser,
+      budgets,
+    });
+  } catch (error) {
+    console.error('LLM Usage API Error:', error);
+    return errorResponse('LLM利用料金の取得に失敗しました');
+  }
+}
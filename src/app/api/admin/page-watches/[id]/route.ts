@@ -0,0 +1,82 @@
+import { NextRequest } from 'next/server';
+import { PageWatchSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const UpdatePageWatchSchema = PageWatchSchema.partial();
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { PageWatchModel } = await import('@/lib/db/models/page-watch');
+    const { id } = await context.params;
+
+    const watch = await PageWatchModel.findById(id);
+    if (!watch) {
+      return notFoundResponse('Page watch');
+    }
+
+    const latestSnapshot = await PageWatchModel.findLatestSnapshot(id);
+    return successResponse({
+      ...watch,
+      latestSnapshotAt: latestSnapshot?.createdAt ?? null,
+    });
+  } catch (error) {
+    console.error('Page Watch Detail API Error:', error);
+    return errorResponse('監視ページの取得に失敗しました');
+  }
+}
+
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { PageWatchModel } = await import('@/lib/db/models/page-watch');
+    const { id } = await context.params;
+
+    const parsed = UpdatePageWatchSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (!(await PageWatchModel.findById(id))) {
+      return notFoundResponse('Page watch');
+    }
+
+    if (parsed.data.url) {
+      const duplicate = await PageWatchModel.findByUrl(parsed.data.url);
+      if (duplicate && duplicate.id !== id) {
+        return errorResponse('このURLは既に監視対象に登録されています', 409);
+      }
+    }
+
+    const watch = await PageWatchModel.update(id, parsed.data);
+    return successResponse(watch);
+  } catch (error) {
+    console.error('Page Watch Update API Error:', error);
+    return errorResponse('監視ページの更新に失敗しました');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { PageWatchModel } = await import('@/lib/db/models/page-watch');
+    const { id } = await context.params;
+
+    if (!(await PageWatchModel.findById(id))) {
+      return notFoundResponse('Page watch');
+    }
+
+    await PageWatchModel.delete(id);
+    return successResponse({ id });
+  } catch (error) {
+    console.error('Page Watch Delete API Error:', error);
+    return errorResponse('監視ページの削除に失敗しました');
+  }
+}
@@ -0,0 +1,46 @@
+import { NextRequest } from 'next/server';
+import { PageWatchSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { PageWatchModel } = await import('@/lib/db/models/page-watch');
+    const { successResponse } = await import('@/lib/api/response');
+
+    const watches = await PageWatchModel.findAll();
+    return successResponse({ watches });
+  } catch (error) {
+    console.error('Page Watches API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('監視ページの取得に失敗しました');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { successResponse, errorResponse, validationErrorResponse } = await import(
+    '@/lib/api/response'
+  );
+
+  try {
+    const { PageWatchModel } = await import('@/lib/db/models/page-watch');
+
+    const parsed = PageWatchSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (await PageWatchModel.findByUrl(parsed.data.url)) {
+      return errorResponse('このURLは既に監視対象に登録されています', 409);
+    }
+
+    const watch = await PageWatchModel.create(parsed.data);
+    return successResponse(watch);
+  } catch (error) {
+    console.error('Page Watch Create API Error:', error);
+    return errorResponse('監視ページの登録に失敗しました');
+  }
+}
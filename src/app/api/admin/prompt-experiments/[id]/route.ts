@@ -0,0 +1,87 @@
+import { NextRequest } from 'next/server';
+import { PromptExperimentStatusSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 実験とバリアントごとの結果の比較
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { PromptExperimentModel } = await import('@/lib/db/models/prompt-experiment');
+    const { id } = await context.params;
+
+    const experiment = await PromptExperimentModel.findById(id);
+    if (!experiment) {
+      return notFoundResponse('Prompt experiment');
+    }
+
+    const variants = await PromptExperimentModel.getVariantStats(experiment);
+    return successResponse({ experiment, variants });
+  } catch (error) {
+    console.error('Prompt Experiment Report API Error:', error);
+    return errorResponse('A/Bテストの結果の取得に失敗しました');
+  }
+}
+
+// 実験の開始・停止
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { PromptExperimentModel } = await import('@/lib/db/models/prompt-experiment');
+    const { clearPromptExperimentCache } = await import('@/lib/ai/prompts/experiments');
+    const { id } = await context.params;
+
+    const parsed = PromptExperimentStatusSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    const existing = await PromptExperimentModel.findById(id);
+    if (!existing) {
+      return notFoundResponse('Prompt experiment');
+    }
+
+    if (parsed.data.status === 'running') {
+      const running = await PromptExperimentModel.findRunning(existing.templateId);
+      if (running && running.id !== id) {
+        return errorResponse(
+          `このテンプレートでは別のA/Bテスト「${running.name}」が実行中です`,
+          409
+        );
+      }
+    }
+
+    const experiment = await PromptExperimentModel.updateStatus(id, parsed.data.status);
+    clearPromptExperimentCache();
+    return successResponse(experiment);
+  } catch (error) {
+    console.error('Prompt Experiment Update API Error:', error);
+    return errorResponse('A/Bテストの更新に失敗しました');
+  }
+}
+
+export async function DELETE(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { PromptExperimentModel } = await import('@/lib/db/models/prompt-experiment');
+    const { clearPromptExperimentCache } = await import('@/lib/ai/prompts/experiments');
+    const { id } = await context.params;
+
+    if (!(await PromptExperimentModel.findById(id))) {
+      return notFoundResponse('Prompt experiment');
+    }
+
+    await PromptExperimentModel.delete(id);
+    clearPromptExperimentCache();
+    return successResponse({ id });
+  } catch (error) {
+    console.error('Prompt Experiment Delete API Error:', error);
+    return errorResponse('A/Bテストの削除に失敗しました');
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest } from 'next/server';
+import { PromptExperimentSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { PromptExperimentModel } = await import('@/lib/db/models/prompt-experiment');
+    const { successResponse } = await import('@/lib/api/response');
+
+    const experiments = await PromptExperimentModel.findAll();
+    return successResponse({ experiments });
+  } catch (error) {
+    console.error('Prompt Experiments API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('A/Bテストの取得に失敗しました');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { PromptExperimentModel } = await import('@/lib/db/models/prompt-experiment');
+    const { PromptTemplateModel } = await import('@/lib/db/models/prompt-template');
+
+    const parsed = PromptExperimentSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    // 結果を記事単位で集計するため、対象は記事生成のテンプレートのみ
+    if (parsed.data.templateId !== 'article-generation') {
+      return errorResponse('A/Bテストは記事生成のテンプレートのみ対応しています', 400);
+    }
+
+    const template = await PromptTemplateModel.findById(parsed.data.templateId);
+    if (!template) {
+      return notFoundResponse('Prompt template');
+    }
+
+    const versions = parsed.data.variants.map((variant) => variant.version);
+    if (new Set(versions).size !== versions.length) {
+      return errorResponse('同じバージョンを複数のバリアントに指定することはできません', 400);
+    }
+
+    const missing = versions.filter(
+      (version) => !template.versions.some((item) => item.version === version)
+    );
+    if (missing.length > 0) {
+      return errorResponse(
+        `存在しないバージョンが指定されています: ${missing.map((v) => `v${v}`).join(', ')}`,
+        400
+      );
+    }
+
+    const experiment = await PromptExperimentModel.create(parsed.data);
+    return successResponse(experiment);
+  } catch (error) {
+    console.error('Prompt Experiment Create API Error:', error);
+    return errorResponse('A/Bテストの作成に失敗しました');
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest } from 'next/server';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+// 使用中のバージョンを1つ前のバージョンに戻す
+export async function POST(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { PromptTemplateModel } = await import('@/lib/db/models/prompt-template');
+    const { clearPromptCache } = await import('@/lib/ai/prompts');
+    const { id } = await context.params;
+
+    if (!(await PromptTemplateModel.findById(id))) {
+      return notFoundResponse('Prompt template');
+    }
+
+    const template = await PromptTemplateModel.rollback(id);
+    if (!template) {
+      return errorResponse('戻せる以前のバージョンがありません', 400);
+    }
+
+    clearPromptCache();
+    return successResponse(template);
+  } catch (error) {
+    console.error('Prompt Template Rollback API Error:', error);
+    return errorResponse('プロンプトテンプレートのロールバックに失敗しました');
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest } from 'next/server';
+import { PromptTemplateActivateSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { PromptTemplateModel } = await import('@/lib/db/models/prompt-template');
+    const { default: PromptManager } = await import('@/lib/ai/prompts');
+    const { id } = await context.params;
+
+    const template = await PromptTemplateModel.findById(id);
+    if (!template) {
+      return notFoundResponse('Prompt template');
+    }
+
+    return successResponse({
+      ...template,
+      availableVariables: PromptManager.getDefaultTemplate(id)?.availableVariables ?? [],
+    });
+  } catch (error) {
+    console.error('Prompt Template API Error:', error);
+    return errorResponse('プロンプトテンプレートの取得に失敗しました');
+  }
+}
+
+// 使用するバージョンを切り替える
+export async function PUT(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { PromptTemplateModel } = await import('@/lib/db/models/prompt-template');
+    const { clearPromptCache } = await import('@/lib/ai/prompts');
+    const { id } = await context.params;
+
+    const parsed = PromptTemplateActivateSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (!(await PromptTemplateModel.findVersion(id, parsed.data.activeVersion))) {
+      return notFoundResponse('Prompt template version');
+    }
+
+    const template = await PromptTemplateModel.activateVersion(id, parsed.data.activeVersion);
+    clearPromptCache();
+    return successResponse(template);
+  } catch (error) {
+    console.error('Prompt Template Activate API Error:', error);
+    return errorResponse('プロンプトテンプレートのバージョン切り替えに失敗しました');
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from 'next/server';
+import { PromptTemplateVersionSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse, validationErrorResponse } =
+    await import('@/lib/api/response');
+
+  try {
+    const { PromptTemplateModel, extractTemplateVariables } = await import(
+      '@/lib/db/models/prompt-template'
+    );
+    const { default: PromptManager, clearPromptCache } = await import('@/lib/ai/prompts');
+    const { id } = await context.params;
+
+    const parsed = PromptTemplateVersionSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    if (!(await PromptTemplateModel.findById(id))) {
+      return notFoundResponse('Prompt template');
+    }
+
+    // コードから渡されない変数を使うとレンダリング時にエラーになるため保存させない
+    const available = PromptManager.getDefaultTemplate(id)?.availableVariables ?? [];
+    const unknown = extractTemplateVariables(parsed.data.systemPrompt, parsed.data.template).filter(
+      (name) => !available.includes(name)
+    );
+    if (unknown.length > 0) {
+      return errorResponse(
+        `使用できない変数が含まれています: ${unknown.map((name) => `{{${name}}}`).join(', ')}`,
+        400
+      );
+    }
+
+    const version = await PromptTemplateModel.createVersion(id, parsed.data);
+    clearPromptCache();
+    return successResponse(version);
+  } catch (error) {
+    console.error('Prompt Template Version Create API Error:', error);
+    return errorResponse('プロンプトテンプレートの保存に失敗しました');
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest } from 'next/server';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { PromptTemplateModel } = await import('@/lib/db/models/prompt-template');
+    const { default: PromptManager } = await import('@/lib/ai/prompts');
+    const { successResponse } = await import('@/lib/api/response');
+
+    // 未登録の既定テンプレートはここで登録される
+    await PromptManager.getAllTemplates();
+    const templates = await PromptTemplateModel.findAll();
+
+    return successResponse({
+      templates: templates.map(({ _count, ...template }) => ({
+        ...template,
+        versionCount: _count.versions,
+        availableVariables: PromptManager.getDefaultTemplate(template.id)?.availableVariables ?? [],
+      })),
+    });
+  } catch (error) {
+    console.error('Prompt Templates API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('プロンプトテンプレートの取得に失敗しました');
+  }
+}
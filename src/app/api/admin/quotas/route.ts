@@ -0,0 +1,32 @@
+import { NextRequest } from 'next/server';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { quotaManager } = await import('@/lib/utils/quota-manager');
+    const { newsApiCollector } = await import('@/lib/collectors/news-api-collector');
+    const { successResponse } = await import('@/lib/api/response');
+
+    // NewsAPIはサーバーから上限到達を返された場合も反映する
+    const [statuses, newsApi] = await Promise.all([
+      quotaManager.getAllStatuses(),
+      newsApiCollector.getQuotaStatus(),
+    ]);
+
+    return successResponse(
+      statuses.map((status) =>
+        status.provider === 'newsapi'
+          ? { ...status, ...newsApi, resetAt: newsApi.resetAt ?? status.resetAt }
+          : status
+      )
+    );
+  } catch (error) {
+    console.error('API Quota API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('API利用状況の取得に失敗しました');
+  }
+}
@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest) {
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { searchCache } = await import('@/lib/collectors/search-cache');
+    const { successResponse } = await import('@/lib/api/response');
+
+    return successResponse(searchCache.getStats());
+  } catch (error) {
+    console.error('Search Cache API Error:', error);
+    const { errorResponse } = await import('@/lib/api/response');
+    return errorResponse('検索キャッシュ情報の取得に失敗しました');
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  const { successResponse, errorResponse } = await import('@/lib/api/response');
+
+  try {
+    const { searchCache } = await import('@/lib/collectors/search-cache');
+
+    const provider = request.nextUrl.searchParams.get('provider') || undefined;
+    const deleted = await searchCache.purge(provider);
+
+    return successResponse({ deleted, provider: provider ?? null });
+  } catch (error) {
+    console.error('Search Cache Purge API Error:', error);
+    return errorResponse('検索キャッシュの削除に失敗しました');
+  }
+}
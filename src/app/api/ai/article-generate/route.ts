@@ -1,5 +1,8 @@
+import { randomUUID } from 'crypto';
+import { llmProvider } from '@/lib/ai/llm';
 import { ArticleGenerator } from '@/lib/ai/services/article-generator';
 import { RawContentData } from '@/lib/ai/types';
+import { parsePublishedDate } from '@/lib/utils/published-date';
 import { NextRequest, NextResponse } from 'next/server';
 
 // ランタイム設定
@@ -8,8 +11,14 @@ export const dynamic = 'force-dynamic';
 
 export async function POST(request: NextRequest) {
   try {
-    const ag = new ArticleGenerator();
-    const { sources, userProfile, useOpenAI = true, categories } = await request.json();
+    const {
+      sources,
+      userProfile,
+      useOpenAI = true,
+      categories,
+      extractFullText = true,
+      collectionJobId,
+    } = await request.json();
 
     if (!userProfile) {
       return NextResponse.json(
@@ -32,27 +41,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // このリクエスト内のLLM呼び出しは記事の保存後に記事IDを紐付ける
+    const requestId = randomUUID();
+    const ag = new ArticleGenerator(llmProvider, {
+      userId: userProfile.id ?? null,
+      collectionJobId: collectionJobId ?? null,
+      requestId,
+    });
+
     // RawContentData形式に変換
-    const rawSources: RawContentData[] = sources.map((source: any) => ({
+    let rawSources: RawContentData[] = sources.map((source: any) => ({
       title: source.title || '',
       url: source.url || '',
       summary: source.summary || source.description || '',
-      publishedAt: source.publishedAt ? new Date(source.publishedAt) : new Date(),
+      publishedAt: parsePublishedDate(source.publishedAt),
       source: source.source || 'unknown',
       type: source.type || 'rss',
+      fullText: source.fullText,
+      language: source.language,
+      metadata: source.metadata,
     }));
 
+    // ソースページの本文を取得して記事生成の材料にする
+    if (extractFullText) {
+      const { contentExtractor } = await import('@/lib/collectors/content-extractor');
+      rawSources = await contentExtractor.enrich(rawSources);
+    }
+
     let generatedArticle;
+    let generation;
+    // LLMから有効な応答が得られず既定値を使った処理
+    const warnings: string[] = [];
     let metadata: any = {
       sourcesProcessed: sources.length,
+      fullTextSources: rawSources.filter((source) => source.fullText).length,
       useOpenAI,
     };
 
-    // OpenAIを使用して記事生成
+    // LLMを使用して記事生成
     try {
       const startTime = Date.now();
       const aiArticle = await ag.generateArticle(rawSources, userProfile);
       const processingTime = Date.now() - startTime;
+      generation = aiArticle.generation;
 
       generatedArticle = {
         id: `article-${Date.now()}`,
@@ -75,26 +106,42 @@ export async function POST(request: NextRequest) {
       };
 
       // カテゴリ分類
-      const { category } = await ag.categorizeContent(generatedArticle.content, categories);
-      generatedArticle.category = category;
+      const categoryResult = await ag.categorizeContent(generatedArticle.content, categories);
+      generatedArticle.category = categoryResult.data.category;
+      if (categoryResult.fallbackUsed) {
+        warnings.push(`カテゴリ分類に失敗したため既定値を使用しました: ${categoryResult.error}`);
+      }
 
       // 興味度スコアの計算
       const interestResult = await ag.calculateInterestScore(
         rawSources[0], // 最初のソースで代表
         userProfile
       );
-      generatedArticle.interestScore = interestResult.score;
-      metadata.interestReasoning = interestResult.reasoning;
+      generatedArticle.interestScore = interestResult.data.score;
+      metadata.interestReasoning = interestResult.data.reasoning;
+      if (interestResult.fallbackUsed) {
+        warnings.push(
+          `興味度スコアの計算に失敗したため既定値を使用しました: ${interestResult.error}`
+        );
+      }
+      metadata.degradedOutputs = [
+        ...(categoryResult.fallbackUsed ? ['category-classification'] : []),
+        ...(interestResult.fallbackUsed ? ['interest-score-calculation'] : []),
+      ];
 
       metadata = {
         ...metadata,
         processingTime,
-        aiModel: 'gpt-4o-mini',
+        aiModel: aiArticle.generation.model,
+        promptVersion: aiArticle.generation.promptVersion,
+        ...(aiArticle.generation.experimentId && {
+          experimentId: aiArticle.generation.experimentId,
+        }),
         confidence: aiArticle.confidence,
         wordCount: aiArticle.content.length,
       };
     } catch (aiError) {
-      console.error('OpenAI generation error:', aiError);
+      console.error('AI generation error:', aiError);
       return NextResponse.json(
         {
           success: false,
@@ -123,6 +170,7 @@ export async function POST(request: NextRequest) {
         qualityScore: generatedArticle.qualityScore,
         interestScore: generatedArticle.interestScore,
         publishedAt: new Date(generatedArticle.publishedAt),
+        generation,
       });
     } catch (saveError) {
       console.error('Failed to save article to database:', saveError);
@@ -136,6 +184,16 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    // LLMの使用量を保存した記事に紐付ける（失敗しても記事の生成は成功扱い）
+    let llmUsage = null;
+    try {
+      const { LlmUsageModel } = await import('@/lib/db/models/llm-usage');
+      await LlmUsageModel.assignArticle(requestId, savedArticle.id);
+      llmUsage = await LlmUsageModel.getTotals({ requestId });
+    } catch (usageError) {
+      console.error('Failed to link LLM usage to article:', usageError);
+    }
+
     return NextResponse.json({
       success: true,
       data: {
@@ -149,9 +207,10 @@ export async function POST(request: NextRequest) {
           : null,
         metadata: {
           ...metadata,
+          llmUsage,
           savedToDatabase: !!savedArticle,
         },
-        warnings: [],
+        warnings,
       },
     });
   } catch (error) {
@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { githubCollector } from '@/lib/collectors/github-collector';
+import { requireUserId } from '@/lib/security/request-user';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const GitHubCollectionSchema = z.object({
+  limit: z.number().min(1).max(100).default(20),
+  createdWithinDays: z.number().min(1).max(365).default(30),
+  minStars: z.number().min(0).default(50),
+  perKeyword: z.number().min(1).max(100).default(10),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now();
+
+    const userId = await requireUserId(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { limit, createdWithinDays, minStars, perKeyword } = GitHubCollectionSchema.parse(body);
+
+    // ウォッチ中リポジトリの新着リリースと、興味キーワードに一致する急成長リポジトリ
+    const contents = await githubCollector.collectForUser(userId, limit, {
+      createdWithinDays,
+      minStars,
+      perKeyword,
+    });
+
+    // intelligent-collection と同じ形式に揃えて article-generate に渡せるようにする
+    const results = contents.map((content, index) => ({
+      id: `github-${index}`,
+      title: content.title,
+      url: content.url,
+      summary: content.summary,
+      source: content.source,
+      publishedAt: content.publishedAt?.toISOString() ?? null,
+      type: content.type,
+      metadata: {
+        ...content.metadata,
+        relevanceScore: 0.5,
+        domain: new URL(content.url).hostname,
+      },
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        statistics: {
+          totalResults: results.length,
+          releases: contents.filter((content) => content.metadata?.kind === 'release').length,
+          processingTime: Date.now() - startTime,
+        },
+        metadata: {
+          userId,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('GitHub collection error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'GitHub collection failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { hackerNewsCollector } from '@/lib/collectors/hacker-news-collector';
+import { requireUserId } from '@/lib/security/request-user';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const HackerNewsCollectionSchema = z.object({
+  // 未指定の場合はユーザーの興味キーワード上位で検索する
+  query: z.string().default(''),
+  limit: z.number().min(1).max(100).default(20),
+  minPoints: z.number().min(0).default(50),
+  // 最大30日
+  maxAgeHours: z.number().min(1).max(720).default(72),
+  perKeyword: z.number().min(1).max(100).default(20),
+  sortByDate: z.boolean().default(false),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now();
+
+    const userId = await requireUserId(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { query, limit, ...options } = HackerNewsCollectionSchema.parse(body);
+
+    const contents = query.trim()
+      ? await hackerNewsCollector.collect(query, limit, { ...options, userId })
+      : await hackerNewsCollector.collectForUser(userId, limit, options);
+
+    // intelligent-collection と同じ形式に揃えて article-generate に渡せるようにする
+    // （relevanceScoreはポイント・コメント数を加味してコレクターが付与済み）
+    const results = contents.map((content, index) => ({
+      id: `hackernews-${index}`,
+      title: content.title,
+      url: content.url,
+      summary: content.summary,
+      source: content.source,
+      publishedAt: content.publishedAt?.toISOString() ?? null,
+      type: content.type,
+      metadata: {
+        searchQuery: query,
+        ...content.metadata,
+        // 外部APIから受け取ったURLが解析できない場合も収集全体は失敗させない
+        domain: URL.canParse(content.url) ? new URL(content.url).hostname : null,
+      },
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        statistics: {
+          totalResults: results.length,
+          processingTime: Date.now() - startTime,
+        },
+        metadata: {
+          query,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Hacker News collection error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Hacker News collection failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,17 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { searchQueryGenerator } from '@/lib/ai/services/search-query-generator';
-import { webSearchCollector } from '@/lib/collectors/web-search-collector';
+import { IntelligentCollectionSchema } from '@/lib/ai/schema';
+import { assertLlmBudget, LlmBudgetExceededError, llmProvider } from '@/lib/ai/llm';
+import { QualityEvaluator, type QualityFilterResult } from '@/lib/ai/services/quality-evaluator';
+import { SearchQueryGenerator } from '@/lib/ai/services/search-query-generator';
+import { contentExtractor } from '@/lib/collectors/content-extractor';
+import { newsApiCollector } from '@/lib/collectors/news-api-collector';
+import { LLM_CONFIG } from '@/lib/config/llm';
+import { buildSearchPlan, webSearchCollector } from '@/lib/collectors/web-search-collector';
+import { CollectedItemModel } from '@/lib/db/models/collected-item';
+import { deduplicate } from '@/lib/utils/near-duplicate';
+import { canonicalizeUrl } from '@/lib/utils/url-canonicalizer';
 
 // ランタイム設定
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
 
+// 既に記事で使用されたアイテムを残す場合の関連度の倍率
+const USED_ITEM_WEIGHT = 0.5;
+// 最新トレンド指定時、公開日が確認できないアイテムの関連度の倍率
+const UNDATED_ITEM_WEIGHT = 0.8;
+// 公開日が不明な結果のうち、ページを取得してメタデータから日付を補う件数（関連度の高い順）
+const DATE_LOOKUP_LIMIT = 10;
+const DATE_LOOKUP_CONCURRENCY = 3;
+
+// 検索結果・ニュースを統合した形式（article-generate のソースとしてそのまま渡す）
+interface AggregatedResult {
+  id: string;
+  title: string;
+  url: string;
+  summary: string;
+  source: string;
+  publishedAt: Date | null;
+  type: string;
+  metadata: {
+    searchQuery?: string;
+    relevanceScore: number;
+    domain?: string;
+    provider?: string;
+    dateUnknown?: boolean;
+    usedInArticles?: string[];
+    [key: string]: unknown;
+  };
+}
+
 export async function POST(request: NextRequest) {
   try {
     const startTime = Date.now();
 
-    const { userProfile, options } = await request.json();
+    const { userProfile, ...body } = await request.json();
 
     if (!userProfile) {
       return NextResponse.json(
@@ -23,21 +60,43 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const { options, collectionJobId } = IntelligentCollectionSchema.parse(body);
+    // 探索深度でクエリ数と使うプロバイダー、最新トレンドの有無で検索期間を決める
+    const plan = buildSearchPlan(options);
+
     // AI検索クエリ生成
     // Generating search queries
+    const usageScope = {
+      userId: userProfile.id ?? null,
+      collectionJobId: collectionJobId ?? null,
+    };
+    const searchQueryGenerator = new SearchQueryGenerator(llmProvider, usageScope);
     const searchQueries = await searchQueryGenerator.generateSearchQueries(userProfile, {
-      count: (options as any).queryCount || 5,
-      focusAreas: (options as any).focusAreas || [],
+      count: plan.queryCount,
+      focusAreas: options.focusAreas,
     });
 
     // Web検索実行
     const searchResults = await webSearchCollector.searchMultipleQueries(searchQueries, {
-      maxResultsPerQuery: (options as any).maxResultsPerQuery || 8,
+      maxResultsPerQuery: plan.maxResultsPerQuery,
       concurrency: 3,
+      dateRestrict: plan.dateRestrict,
+      providerMode: plan.providerMode,
+      userId: userProfile.id,
     });
 
+    // NewsAPIでも同じクエリを優先度順に検索（1日の上限に達した時点で残りのクエリは飛ばす）
+    const newsResults =
+      options.includeNews && newsApiCollector.isConfigured()
+        ? await newsApiCollector.collectForQueries(searchQueries, {
+            from: new Date(Date.now() - plan.maxAgeDays * 24 * 60 * 60 * 1000),
+            pageSize: plan.maxResultsPerQuery,
+            userId: userProfile.id,
+          })
+        : [];
+
     // 3. 結果の統合と整理
-    const aggregatedResults: any[] = [];
+    const aggregatedResults: AggregatedResult[] = [];
     let totalResults = 0;
     const queryPerformance: any[] = [];
 
@@ -49,22 +108,17 @@ export async function POST(request: NextRequest) {
         resultCount: searchResponse.results.length,
         processingTime: searchResponse.processingTime,
         success: searchResponse.success,
+        provider: searchResponse.provider,
+        attemptedProviders: searchResponse.attemptedProviders,
+        cacheHit: searchResponse.cacheHit,
       });
 
-      // 各検索結果を統合形式に変換
+      // 各検索結果を統合形式に変換（公開日が不明な場合はnullのまま後で補う）
       searchResponse.results.forEach((result, index) => {
-        // publishedAtの安全な処理
-        let publishedAtStr = new Date().toISOString();
-        if (result.publishedAt) {
-          try {
-            const date = new Date(result.publishedAt);
-            if (!isNaN(date.getTime())) {
-              publishedAtStr = date.toISOString();
-            }
-          } catch {
-            console.warn('Invalid date for result:', result.title, result.publishedAt);
-          }
-        }
+        const publishedAt =
+          result.publishedAt && !isNaN(new Date(result.publishedAt).getTime())
+            ? new Date(result.publishedAt)
+            : null;
 
         aggregatedResults.push({
           id: `${query}-${index}`,
@@ -72,22 +126,168 @@ export async function POST(request: NextRequest) {
           url: result.url,
           summary: result.snippet,
           source: result.source,
-          publishedAt: publishedAtStr,
+          publishedAt,
           type: 'web_search',
           metadata: {
             searchQuery: query,
             relevanceScore: result.metadata?.relevanceScore || 0.5,
             domain: result.metadata?.domain,
+            provider: searchResponse.provider,
             ...result.metadata,
           },
         });
       });
     }
 
-    // 4. 関連度でソート
+    totalResults += newsResults.length;
+    newsResults.forEach((content, index) => {
+      aggregatedResults.push({
+        id: `newsapi-${index}`,
+        title: content.title,
+        url: content.url,
+        summary: content.summary,
+        source: content.source,
+        publishedAt:
+          content.publishedAt && !isNaN(content.publishedAt.getTime()) ? content.publishedAt : null,
+        type: content.type,
+        metadata: {
+          // Web検索と同様にドメインルールの重みを関連度に反映する
+          relevanceScore: Math.max(
+            0,
+            Math.min(1.0, 0.5 + ((content.metadata?.domainWeight as number | undefined) ?? 0))
+          ),
+          // NewsAPIのURLは不正な形式の場合がある
+          domain: URL.canParse(content.url) ? new URL(content.url).hostname : undefined,
+          provider: 'newsapi',
+          ...content.metadata,
+        },
+      });
+    });
+
+    // 4. 重複除去（関連度の高い結果を残すため先にソート）
     aggregatedResults.sort(
       (a, b) => (b.metadata.relevanceScore || 0) - (a.metadata.relevanceScore || 0)
     );
+    const { items: uniqueResults, removed: duplicatesRemoved } = deduplicate(aggregatedResults, {
+      getUrl: (result) => result.url,
+      getText: (result) => `${result.title} ${result.summary}`,
+    });
+
+    // 5. 公開日の補完と検索期間による絞り込み
+    const undated = uniqueResults
+      .filter((result) => !result.publishedAt)
+      .slice(0, DATE_LOOKUP_LIMIT);
+    for (let i = 0; i < undated.length; i += DATE_LOOKUP_CONCURRENCY) {
+      await Promise.all(
+        undated.slice(i, i + DATE_LOOKUP_CONCURRENCY).map(async (result) => {
+          result.publishedAt = await contentExtractor.fetchPublishedDate(result.url);
+        })
+      );
+    }
+
+    const minPublishedAt = Date.now() - plan.maxAgeDays * 24 * 60 * 60 * 1000;
+    let staleItemsSkipped = 0;
+    let undatedItems = 0;
+
+    const freshResults = uniqueResults.filter((result) => {
+      if (result.publishedAt) {
+        // 期間指定に対応していないプロバイダーの古い結果を除外
+        if (result.publishedAt.getTime() < minPublishedAt) {
+          staleItemsSkipped++;
+          return false;
+        }
+        return true;
+      }
+
+      // 日付不明のアイテムは新着扱いせず、フラグを付けて残す
+      result.metadata.dateUnknown = true;
+      if (options.includeLatestTrends) {
+        result.metadata.relevanceScore *= UNDATED_ITEM_WEIGHT;
+      }
+      undatedItems++;
+      return true;
+    });
+
+    // 6. 収集履歴に記録し、記事で使用済みのアイテムを除外（includeUsedItems時は減点）
+    const includeUsedItems = options.includeUsedItems;
+    let collectedResults = freshResults;
+    let usedItemsSkipped = 0;
+    let usedItemsDownWeighted = 0;
+
+    try {
+      await CollectedItemModel.recordMany(
+        freshResults.map((result) => ({
+          url: result.url,
+          title: result.title,
+          snippet: result.summary || '',
+          source: result.source,
+          provider: result.metadata.provider,
+          query: result.metadata.searchQuery,
+          relevanceScore: result.metadata.relevanceScore,
+        }))
+      );
+
+      const usage = await CollectedItemModel.findUsage(freshResults.map((r) => r.url));
+
+      collectedResults = freshResults.filter((result) => {
+        const articleIds = usage.get(canonicalizeUrl(result.url))?.articleIds || [];
+        if (articleIds.length === 0) {
+          return true;
+        }
+        if (!includeUsedItems) {
+          usedItemsSkipped++;
+          return false;
+        }
+        result.metadata.relevanceScore *= USED_ITEM_WEIGHT;
+        result.metadata.usedInArticles = articleIds;
+        usedItemsDownWeighted++;
+        return true;
+      });
+    } catch (error) {
+      console.warn('Failed to record collected items:', error);
+    }
+
+    // 7. 関連度でソート
+    collectedResults.sort(
+      (a, b) => (b.metadata.relevanceScore || 0) - (a.metadata.relevanceScore || 0)
+    );
+
+    // 8. 品質評価（スコアが下限未満のアイテムは記事生成に使わない）
+    // 評価するのは関連度の上位のみで、それ以外は評価できなかったアイテムと同様に残す
+    const minQualityScore = options.minQualityScore ?? LLM_CONFIG.qualityGate.minScore;
+    let lowQualityResults: QualityFilterResult<AggregatedResult>['rejected'] = [];
+    let qualityEvaluated = 0;
+    let qualityCacheHits = 0;
+    let qualityEvaluationFailed = 0;
+    let qualityNotEvaluated = 0;
+    let qualityBudgetExceeded = false;
+
+    if (LLM_CONFIG.qualityGate.enabled) {
+      try {
+        await assertLlmBudget();
+      } catch (error) {
+        if (!(error instanceof LlmBudgetExceededError)) {
+          throw error;
+        }
+        // 予算を超えている場合は品質評価を行わずに結果を返す
+        console.warn('Quality gate skipped: LLM budget exceeded', error.status);
+        qualityBudgetExceeded = true;
+      }
+    }
+
+    if (LLM_CONFIG.qualityGate.enabled && !qualityBudgetExceeded) {
+      const candidates = collectedResults.slice(0, LLM_CONFIG.qualityGate.maxItems);
+      const notEvaluated = collectedResults.slice(LLM_CONFIG.qualityGate.maxItems);
+
+      const qualityEvaluator = new QualityEvaluator(llmProvider, usageScope);
+      const quality = await qualityEvaluator.filterByQuality(candidates, minQualityScore);
+      collectedResults = [...quality.passed, ...notEvaluated];
+      lowQualityResults = quality.rejected;
+      qualityEvaluated = quality.evaluated;
+      qualityCacheHits = quality.cacheHits;
+      qualityEvaluationFailed = quality.failed;
+      qualityNotEvaluated = notEvaluated.length;
+    }
 
     const processingTime = Date.now() - startTime;
 
@@ -105,16 +305,46 @@ export async function POST(request: NextRequest) {
           priority: sq.priority,
           reasoning: sq.reasoning,
         })),
-        results: aggregatedResults,
+        results: collectedResults.map((result) => ({
+          ...result,
+          publishedAt: result.publishedAt?.toISOString() ?? null,
+        })),
+        // 品質スコアが下限未満で除外したアイテム
+        lowQualityResults: lowQualityResults.map((result) => ({
+          id: result.id,
+          title: result.title,
+          url: result.url,
+          source: result.source,
+          quality: result.quality,
+        })),
         statistics: {
           totalQueries: searchQueries.length,
           totalResults,
+          newsResults: newsResults.length,
           averageResultsPerQuery: totalResults / searchQueries.length,
           processingTime,
           queryPerformance,
+          cacheHits: queryPerformance.filter((performance) => performance.cacheHit).length,
+          duplicatesRemoved,
+          usedItemsSkipped,
+          usedItemsDownWeighted,
+          staleItemsSkipped,
+          undatedItems,
+          lowQualitySkipped: lowQualityResults.length,
+          qualityEvaluated,
+          qualityCacheHits,
+          qualityEvaluationFailed,
+          qualityNotEvaluated,
         },
         metadata: {
           options,
+          searchPlan: plan,
+          qualityGate: {
+            enabled: LLM_CONFIG.qualityGate.enabled,
+            minScore: minQualityScore,
+            maxItems: LLM_CONFIG.qualityGate.maxItems,
+            budgetExceeded: qualityBudgetExceeded,
+          },
           availableSearchApis: webSearchCollector.getAvailableApis(),
           generatedAt: new Date().toISOString(),
         },
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { pageWatchCollector } from '@/lib/collectors/page-watch-collector';
+import { requireUserId } from '@/lib/security/request-user';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const PageWatchCollectionSchema = z.object({
+  query: z.string().default(''),
+  limit: z.number().min(1).max(100).default(20),
+  kind: z.enum(['sitemap', 'changelog']).optional(),
+  maxPagesPerWatch: z.number().min(1).max(50).default(10),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now();
+
+    const userId = await requireUserId(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { query, limit, kind, maxPagesPerWatch } = PageWatchCollectionSchema.parse(body);
+
+    // 前回の確認からの変更のみが返る（初回はスナップショットの保存のみ）
+    const contents = await pageWatchCollector.collect(query, limit, {
+      kind,
+      maxPagesPerWatch,
+      userId,
+    });
+
+    // intelligent-collection と同じ形式に揃えて article-generate に渡せるようにする
+    const results = contents.map((content, index) => ({
+      id: `pagewatch-${index}`,
+      title: content.title,
+      url: content.url,
+      summary: content.summary,
+      source: content.source,
+      publishedAt: content.publishedAt?.toISOString() ?? null,
+      type: content.type,
+      metadata: {
+        ...content.metadata,
+        searchQuery: query,
+        relevanceScore: 0.5,
+        domain: new URL(content.url).hostname,
+      },
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        statistics: {
+          totalResults: results.length,
+          processingTime: Date.now() - startTime,
+        },
+        metadata: {
+          query,
+          kind: kind ?? null,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Page watch collection error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Page watch collection failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,104 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { redditCollector } from '@/lib/collectors/reddit-collector';
+import { requireUserId } from '@/lib/security/request-user';
+import { engagementBoost } from '@/lib/utils/engagement';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const RedditCollectionSchema = z.object({
+  query: z.string().default(''),
+  limit: z.number().min(1).max(100).default(20),
+  subreddits: z.array(z.string().regex(/^[A-Za-z0-9_]{2,21}$/)).optional(),
+  sort: z.enum(['top', 'hot']).default('top'),
+  timeWindow: z.enum(['hour', 'day', 'week', 'month', 'year', 'all']).default('day'),
+  minScore: z.number().min(0).default(10),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now();
+
+    const userId = await requireUserId(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { query, limit, subreddits, sort, timeWindow, minScore } =
+      RedditCollectionSchema.parse(body);
+
+    const contents = await redditCollector.collect(query, limit, {
+      subreddits,
+      sort,
+      timeWindow,
+      minScore,
+      userId,
+    });
+
+    // intelligent-collection と同じ形式に揃えて article-generate に渡せるようにする
+    const results = contents.map((content, index) => ({
+      id: `reddit-${index}`,
+      title: content.title,
+      url: content.url,
+      summary: content.summary,
+      source: content.source,
+      publishedAt: content.publishedAt?.toISOString() ?? null,
+      type: content.type,
+      metadata: {
+        ...content.metadata,
+        searchQuery: query,
+        // ポイント・コメント数の多い投稿を優先する
+        relevanceScore: Math.min(
+          1,
+          0.5 +
+            engagementBoost(
+              content.metadata?.points as number | undefined,
+              content.metadata?.comments as number | undefined
+            )
+        ),
+        domain: new URL(content.url).hostname,
+      },
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        statistics: {
+          totalResults: results.length,
+          processingTime: Date.now() - startTime,
+        },
+        metadata: {
+          query,
+          subreddits: subreddits ?? null,
+          configured: redditCollector.isConfigured(),
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('Reddit collection error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Reddit collection failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { rssCollector } from '@/lib/collectors/rss-collector';
+import { RSS_CATEGORIES } from '@/lib/config/rss-sources';
+import { requireUserId } from '@/lib/security/request-user';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+const RssCollectionSchema = z.object({
+  query: z.string().default(''),
+  limit: z.number().min(1).max(100).default(20),
+  category: z.enum(RSS_CATEGORIES).optional(),
+  maxAgeDays: z.number().min(1).max(90).default(14),
+});
+
+export async function POST(request: NextRequest) {
+  try {
+    const startTime = Date.now();
+
+    const userId = await requireUserId(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const { query, limit, category, maxAgeDays } = RssCollectionSchema.parse(body);
+
+    // ユーザーのドメインルール（ブロック・重み）を適用する
+    const contents = await rssCollector.collect(query, limit, { category, maxAgeDays, userId });
+
+    // intelligent-collection と同じ形式に揃えて article-generate に渡せるようにする
+    const results = contents.map((content, index) => ({
+      id: `rss-${index}`,
+      title: content.title,
+      url: content.url,
+      summary: content.summary,
+      source: content.source,
+      publishedAt: content.publishedAt?.toISOString() ?? null,
+      type: content.type,
+      metadata: {
+        searchQuery: query,
+        relevanceScore: 0.5,
+        domain: new URL(content.url).hostname,
+      },
+    }));
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        results,
+        statistics: {
+          totalResults: results.length,
+          processingTime: Date.now() - startTime,
+        },
+        metadata: {
+          query,
+          category: category ?? null,
+          generatedAt: new Date().toISOString(),
+        },
+      },
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'Invalid request data',
+          details: error.errors,
+        },
+        { status: 400 }
+      );
+    }
+
+    console.error('RSS collection error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'RSS collection failed',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -56,6 +56,8 @@ export async function GET(_request: NextRequest, context: { params: Promise<{ id
       ),
       interestScore: article.interestScore,
       qualityScore: article.qualityScore,
+      promptVersion: article.promptVersion,
+      aiModel: article.aiModel,
       publishedAt: article.publishedAt?.toISOString() || null,
       createdAt: article.createdAt.toISOString(),
       updatedAt: article.updatedAt.toISOString(),
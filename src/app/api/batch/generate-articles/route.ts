@@ -3,6 +3,7 @@ import { logger } from '@/lib/security/logger';
 import { env } from '@/lib/env';
 import { prisma } from '@/lib/db/prisma';
 import { AVAILABLE_CATEGORIES } from '@/lib/ai/constants';
+import { assertLlmBudget, LlmBudgetExceededError } from '@/lib/ai/llm';
 import { UserProfile } from '@/lib/ai/types';
 import jwt from 'jsonwebtoken';
 
@@ -38,15 +39,63 @@ interface CollectionResult {
   title: string;
   url: string;
   summary: string;
-  publishedAt: string;
+  publishedAt: string | null;
   source: string;
   type: string;
 }
 
+/**
+ * ユーザー情報からUserProfileを構築
+ * userIdがemailの場合とIDの場合の両方に対応
+ */
+async function loadUserProfile(userId: string): Promise<UserProfile> {
+  const isEmail = userId.includes('@');
+  const user = await prisma.user.findUnique({
+    where: isEmail ? { email: userId } : { id: userId },
+    include: {
+      userInterests: {
+        orderBy: { weight: 'desc' },
+        take: 20,
+      },
+    },
+  });
+
+  if (!user) {
+    throw new Error('User not found');
+  }
+
+  // UserProfileの構築
+  const profile = user.profile as any;
+  const interests = user.interests as any;
+
+  const userProfile: UserProfile = {
+    id: user.id,
+    name: user.name || '',
+    email: user.email || '',
+    profile: {
+      preferredStyle: profile?.preferredStyle || 'balanced',
+      bio: profile?.bio || '',
+    },
+    interests: {
+      categories: interests?.categories || [],
+      tags: interests?.tags || [],
+      keywords: user.userInterests?.map((ui) => ui.keyword) || [],
+    },
+    stats: {
+      articlesCount: await prisma.article.count({ where: { authorId: { equals: user.id } } }),
+      interestsCount: user.userInterests?.length || 0,
+    },
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+
+  return userProfile;
+}
+
 /**
  * バッチ処理のメインロジック
  */
-async function runBatchProcess(userId: string): Promise<BatchResults> {
+async function runBatchProcess(userId: string, jobId: string): Promise<BatchResults> {
   const startTime = Date.now();
   const results: BatchResults = {
     searchQueries: 0,
@@ -60,46 +109,7 @@ async function runBatchProcess(userId: string): Promise<BatchResults> {
     logger.info('BATCH_START', { userId, config: BATCH_CONFIG });
 
     // Step 1: ユーザー情報取得
-    // userIdがemailの場合とIDの場合の両方に対応
-    const isEmail = userId.includes('@');
-    const user = await prisma.user.findUnique({
-      where: isEmail ? { email: userId } : { id: userId },
-      include: {
-        userInterests: {
-          orderBy: { weight: 'desc' },
-          take: 20,
-        },
-      },
-    });
-
-    if (!user) {
-      throw new Error('User not found');
-    }
-
-    // UserProfileの構築
-    const profile = user.profile as any;
-    const interests = user.interests as any;
-
-    const userProfile: UserProfile = {
-      id: user.id,
-      name: user.name || '',
-      email: user.email || '',
-      profile: {
-        preferredStyle: profile?.preferredStyle || 'balanced',
-        bio: profile?.bio || '',
-      },
-      interests: {
-        categories: interests?.categories || [],
-        tags: interests?.tags || [],
-        keywords: user.userInterests?.map((ui) => ui.keyword) || [],
-      },
-      stats: {
-        articlesCount: await prisma.article.count({ where: { authorId: { equals: user.id } } }),
-        interestsCount: user.userInterests?.length || 0,
-      },
-      createdAt: user.createdAt.toISOString(),
-      updatedAt: user.updatedAt.toISOString(),
-    };
+    const userProfile = await loadUserProfile(userId);
 
     // Step 2: AI情報収集
     logger.info('BATCH_COLLECTING', { userId });
@@ -114,6 +124,7 @@ async function runBatchProcess(userId: string): Promise<BatchResults> {
         },
         body: JSON.stringify({
           userProfile,
+          collectionJobId: jobId,
           options: {
             queryCount: BATCH_CONFIG.queryCount,
             maxResultsPerQuery: BATCH_CONFIG.maxResultsPerQuery,
@@ -147,6 +158,8 @@ async function runBatchProcess(userId: string): Promise<BatchResults> {
     }
 
     // Step 3: 記事生成（複数記事を並列処理）
+    // 情報収集で予算を使い切った場合はここで止める
+    await assertLlmBudget();
     logger.info('BATCH_GENERATING_ARTICLES', { userId });
 
     // 収集した結果を記事ごとに分割
@@ -174,7 +187,7 @@ async function runBatchProcess(userId: string): Promise<BatchResults> {
         }));
 
       if (sourcesForArticle.length > 0) {
-        const promise = generateArticle(userProfile, sourcesForArticle, i + 1);
+        const promise = generateArticle(userProfile, sourcesForArticle, i + 1, jobId);
         articlePromises.push(promise);
       }
     }
@@ -233,11 +246,13 @@ async function generateArticle(
     title: string;
     url: string;
     summary: string;
-    publishedAt: string;
+    publishedAt: string | null;
     source: string;
     type: string;
+    metadata?: Record<string, unknown>;
   }>,
-  articleIndex: number
+  articleIndex: number,
+  jobId: string
 ): Promise<{
   success: boolean;
   articleId?: string;
@@ -259,6 +274,7 @@ async function generateArticle(
       body: JSON.stringify({
         sources,
         userProfile,
+        collectionJobId: jobId,
         saveToDatabase: true,
         useOpenAI: BATCH_CONFIG.useOpenAI,
         categories: AVAILABLE_CATEGORIES,
@@ -302,10 +318,101 @@ async function generateArticle(
   }
 }
 
+type IngestJobMetadata = { userId: string; collectedItemIds: string[] };
+
+/**
+ * /api/ingest で登録されたジョブを実行中にする（pendingのジョブのみ）
+ */
+async function claimIngestJob(jobId: string): Promise<IngestJobMetadata> {
+  const job = await prisma.collectionJob.findUnique({ where: { id: jobId } });
+  const metadata = job?.metadata as Partial<IngestJobMetadata> | null;
+
+  if (!job || job.status !== 'pending' || !metadata?.userId || !metadata.collectedItemIds) {
+    throw new Error('Ingest job not found or already processed');
+  }
+
+  // 予算超過の場合はジョブをpendingのまま残す
+  await assertLlmBudget();
+
+  // 同じジョブが同時に実行された場合は先に更新した方だけが処理する
+  const { count } = await prisma.collectionJob.updateMany({
+    where: { id: jobId, status: 'pending' },
+    data: { status: 'running', startedAt: new Date() },
+  });
+  if (count === 0) {
+    throw new Error('Ingest job not found or already processed');
+  }
+
+  return { ...metadata, userId: metadata.userId, collectedItemIds: metadata.collectedItemIds };
+}
+
+/**
+ * /api/ingest で登録されたURLから記事を1件生成
+ */
+async function runIngestJob(jobId: string, metadata: IngestJobMetadata): Promise<BatchResults> {
+  const results: BatchResults = {
+    searchQueries: 0,
+    searchResults: 0,
+    articlesGenerated: 0,
+    articlesDetail: [],
+    errors: [],
+  };
+
+  logger.info('BATCH_INGEST_START', { jobId, items: metadata.collectedItemIds.length });
+
+  const userProfile = await loadUserProfile(metadata.userId);
+  const items = await prisma.collectedItem.findMany({
+    where: { id: { in: metadata.collectedItemIds } },
+  });
+  results.searchResults = items.length;
+
+  const result = await generateArticle(
+    userProfile,
+    items.map((item) => ({
+      title: item.title,
+      url: item.url,
+      summary: item.note ? `${item.note}\n${item.snippet}` : item.snippet,
+      // 登録日を公開日として扱わない
+      publishedAt: item.publishedAt?.toISOString() ?? null,
+      source: item.source,
+      type: 'ingest',
+      ...(!item.publishedAt && { metadata: { dateUnknown: true } }),
+    })),
+    1,
+    jobId
+  );
+
+  if (result.success) {
+    results.articlesGenerated = 1;
+    if (result.articleDetail) {
+      results.articlesDetail.push(result.articleDetail);
+    }
+  } else {
+    results.errors.push(result.error || 'Unknown error');
+  }
+
+  await prisma.collectionJob.update({
+    where: { id: jobId },
+    data: {
+      status: result.success ? 'completed' : 'failed',
+      completedAt: new Date(),
+      articlesCreated: results.articlesGenerated,
+      errorMessage: result.success ? null : result.error,
+      metadata: { ...metadata, articlesDetail: results.articlesDetail },
+    },
+  });
+
+  logger.info('BATCH_INGEST_COMPLETE', { jobId, results });
+  return results;
+}
+
 /**
  * バッチ実行用APIエンドポイント
  */
 export async function POST(request: NextRequest) {
+  let jobId: string | null = null;
+  let ingestJobId: string | undefined;
+
   try {
     // 認証チェック
     const authHeader = request.headers.get('Authorization');
@@ -338,19 +445,45 @@ export async function POST(request: NextRequest) {
 
     const body = await request.json();
     const { userId } = body;
+    ingestJobId = body.ingestJobId;
+
+    // 取り込みURLからの記事生成（ジョブ自体に結果を記録する）
+    if (ingestJobId) {
+      const metadata = await claimIngestJob(ingestJobId);
+      jobId = ingestJobId;
+      const results = await runIngestJob(ingestJobId, metadata);
+      return NextResponse.json({
+        success: true,
+        data: results,
+        message: `Ingest job completed: ${results.articlesGenerated} articles generated`,
+      });
+    }
 
     if (!userId) {
       return NextResponse.json({ success: false, error: 'userId is required' }, { status: 400 });
     }
 
+    // LLMの予算を超えている場合は処理を開始しない
+    await assertLlmBudget();
+
+    // LLMの使用量をジョブに紐付けるため、先にジョブを作成する
+    const job = await prisma.collectionJob.create({
+      data: {
+        status: 'running',
+        startedAt: new Date(),
+        metadata: { userId },
+      },
+    });
+    jobId = job.id;
+
     // バッチ処理を実行
-    const results = await runBatchProcess(userId);
+    const results = await runBatchProcess(userId, job.id);
 
     // 統計情報を保存
-    await prisma.collectionJob.create({
+    await prisma.collectionJob.update({
+      where: { id: job.id },
       data: {
         status: 'completed',
-        startedAt: new Date(),
         completedAt: new Date(),
         articlesCreated: results.articlesGenerated,
         metadata: {
@@ -373,18 +506,33 @@ export async function POST(request: NextRequest) {
       error: error instanceof Error ? error.message : 'Unknown error',
     });
 
-    // エラー情報を保存
-    await prisma.collectionJob
-      .create({
-        data: {
-          status: 'failed',
-          startedAt: new Date(),
-          completedAt: new Date(),
-          errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          articlesCreated: 0,
+    // エラー情報を保存（作成済みのジョブがあれば更新）
+    // 取り込みジョブは実行中にする前のエラーでは記録しない（pendingのまま残す）
+    const failedJob = {
+      status: 'failed',
+      completedAt: new Date(),
+      errorMessage: error instanceof Error ? error.message : 'Unknown error',
+      articlesCreated: 0,
+    };
+    if (jobId || !ingestJobId) {
+      await (
+        jobId
+          ? prisma.collectionJob.update({ where: { id: jobId }, data: failedJob })
+          : prisma.collectionJob.create({ data: { ...failedJob, startedAt: new Date() } })
+      ).catch(() => {}); // DB保存エラーは無視
+    }
+
+    if (error instanceof LlmBudgetExceededError) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'LLM budget exceeded',
+          message: error.message,
+          budget: error.status,
         },
-      })
-      .catch(() => {}); // DB保存エラーは無視
+        { status: 429 }
+      );
+    }
 
     return NextResponse.json(
       {
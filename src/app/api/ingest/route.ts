@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { IngestRequestSchema } from '@/lib/api/validation';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+/**
+ * ブックマークレット・共有メニューからのURL登録
+ */
+export async function POST(request: NextRequest) {
+  const { successResponse, errorResponse, validationErrorResponse } = await import(
+    '@/lib/api/response'
+  );
+
+  try {
+    // Dynamic imports to avoid build-time initialization
+    const { requireUserId } = await import('@/lib/security/request-user');
+    const { urlIngestor } = await import('@/lib/collectors/url-ingestor');
+    const { prisma } = await import('@/lib/db/prisma');
+    const { env } = await import('@/lib/env');
+
+    // 内部APIキーでの登録は管理者ユーザーとして扱う
+    const userId = await requireUserId(request);
+    if (userId instanceof NextResponse) {
+      return userId;
+    }
+
+    const parsed = IngestRequestSchema.safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    const { urls, note, tags, generateArticle } = parsed.data;
+
+    const result = await urlIngestor.ingest(urls, { note, tags, userId });
+
+    let jobId: string | null = null;
+    const collectedItemIds = result.items.flatMap((entry) => (entry.item ? [entry.item.id] : []));
+
+    if (generateArticle && collectedItemIds.length > 0) {
+      const job = await prisma.collectionJob.create({
+        data: {
+          status: 'pending',
+          metadata: { type: 'ingest', userId, collectedItemIds },
+        },
+      });
+      jobId = job.id;
+
+      // レスポンスを返した後に記事生成を開始する
+      after(async () => {
+        try {
+          await fetch(`${env.NEXT_PUBLIC_APP_URL}/api/batch/generate-articles`, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              Authorization: `Bearer ${env.INTERNAL_API_KEY}`,
+            },
+            body: JSON.stringify({ ingestJobId: job.id }),
+          });
+        } catch (error) {
+          console.error('Ingest article generation error:', error);
+        }
+      });
+    }
+
+    return successResponse({
+      ...result,
+      articleJobId: jobId,
+    });
+  } catch (error) {
+    console.error('Ingest API Error:', error);
+    return errorResponse('URLの登録に失敗しました');
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest } from 'next/server';
+import { z } from 'zod';
+
+// ランタイム設定
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(_request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse } = await import('@/lib/api/response');
+
+  try {
+    const { WatchedRepositoryModel } = await import('@/lib/db/models/watched-repository');
+    const { id } = await context.params;
+
+    const repositories = await WatchedRepositoryModel.findByUser(id);
+    return successResponse(repositories);
+  } catch (error) {
+    console.error('Watched Repositories API Error:', error);
+    return errorResponse('ウォッチリストの取得に失敗しました');
+  }
+}
+
+export async function POST(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, validationErrorResponse } = await import(
+    '@/lib/api/response'
+  );
+
+  try {
+    const { WatchedRepositoryModel, REPOSITORY_FULL_NAME_PATTERN } = await import(
+      '@/lib/db/models/watched-repository'
+    );
+    const { id } = await context.params;
+
+    const parsed = z
+      .object({ fullName: z.string().trim().regex(REPOSITORY_FULL_NAME_PATTERN) })
+      .safeParse(await request.json());
+    if (!parsed.success) {
+      return validationErrorResponse(parsed.error.errors);
+    }
+
+    const repository = await WatchedRepositoryModel.add(id, parsed.data.fullName);
+    return successResponse(repository);
+  } catch (error) {
+    console.error('Watched Repository Create API Error:', error);
+    return errorResponse('ウォッチリストへの追加に失敗しました');
+  }
+}
+
+export async function DELETE(request: NextRequest, context: { params: Promise<{ id: string }> }) {
+  const { successResponse, errorResponse, notFoundResponse } = await import('@/lib/api/response');
+
+  try {
+    const { WatchedRepositoryModel } = await import('@/lib/db/models/watched-repository');
+    const { id } = await context.params;
+    const repositoryId = request.nextUrl.searchParams.get('repositoryId');
+
+    if (!repositoryId) {
+      return errorResponse('repositoryId is required', 400);
+    }
+
+    const removed = await WatchedRepositoryModel.remove(id, repositoryId);
+    if (!removed) {
+      return notFoundResponse('Watched repository');
+    }
+
+    return successResponse({ id: repositoryId });
+  } catch (error) {
+    console.error('Watched Repository Delete API Error:', error);
+    return errorResponse('ウォッチリストからの削除に失敗しました');
+  }
+}
@@ -0,0 +1,258 @@
+'use client';
+
+import { Suspense, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useSearchParams } from 'next/navigation';
+import { Card } from '@/components/ui/Card';
+import { Button } from '@/components/ui/Button';
+import { Input } from '@/components/ui/Input';
+import { Textarea } from '@/components/ui/Textarea';
+import { AuthManager } from '@/lib/auth';
+
+interface IngestedUrl {
+  url: string;
+  status: 'created' | 'duplicate' | 'failed';
+  item?: { title: string };
+  usedInArticles?: string[];
+  error?: string;
+}
+
+interface IngestResponse {
+  items: IngestedUrl[];
+  created: number;
+  duplicates: number;
+  failed: number;
+  articleJobId: string | null;
+}
+
+const STATUS_LABELS: Record<IngestedUrl['status'], { label: string; className: string }> = {
+  created: { label: '登録', className: 'text-green-600' },
+  duplicate: { label: '収集済み', className: 'text-yellow-600' },
+  failed: { label: '失敗', className: 'text-red-600' },
+};
+
+const URL_PATTERN = /https?:\/\/[^\s<>"']+/g;
+
+/**
+ * 共有メニューはURLをtextに含めて送ることがあるため、url・textの両方からURLを拾う
+ */
+function extractSharedUrls(url: string | null, text: string | null): string[] {
+  const urls = [url, ...(text?.match(URL_PATTERN) || [])].filter((value): value is string =>
+    Boolean(value)
+  );
+  return [...new Set(urls)];
+}
+
+/**
+ * 表示中のページを /ingest にポップアップで送るブックマークレット
+ */
+function buildBookmarklet(origin: string): string {
+  const script = `(function(){var u=encodeURIComponent(location.href),t=encodeURIComponent(document.title),s=encodeURIComponent(String(window.getSelection()||''));window.open('${origin}/ingest?url='+u+'&title='+t+'&text='+s+'&popup=1','smart-curator-ingest','width=560,height=640');})();`;
+  return `javascript:${script}`;
+}
+
+function IngestPageContent() {
+  const searchParams = useSearchParams();
+  const [urls, setUrls] = useState('');
+  const [note, setNote] = useState('');
+  const [tags, setTags] = useState('');
+  const [generateArticle, setGenerateArticle] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<IngestResponse | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(true);
+  const bookmarkletRef = useRef<HTMLAnchorElement>(null);
+  const isPopup = searchParams.get('popup') === '1';
+
+  useEffect(() => {
+    setIsAuthenticated(AuthManager.isAuthenticated());
+
+    const sharedText = searchParams.get('text');
+    const sharedUrls = extractSharedUrls(searchParams.get('url'), sharedText);
+    setUrls(sharedUrls.join('\n'));
+
+    // URL以外の共有テキスト（選択範囲など）はメモとして使う
+    const remainingText = (sharedText || '').replace(URL_PATTERN, '').trim();
+    setNote(remainingText || searchParams.get('title') || '');
+  }, [searchParams]);
+
+  useEffect(() => {
+    // Reactはjavascript: URLのhrefを描画しないため、DOMに直接設定する
+    bookmarkletRef.current?.setAttribute('href', buildBookmarklet(window.location.origin));
+  }, []);
+
+  const handleSubmit = async () => {
+    const urlList = urls
+      .split(/\s+/)
+      .map((url) => url.trim())
+      .filter(Boolean);
+
+    if (urlList.length === 0) {
+      setError('URLを入力してください');
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      setError(null);
+      setResult(null);
+
+      const token = AuthManager.getToken();
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (token) {
+        headers['Authorization'] = `Bearer ${token}`;
+      }
+
+      const response = await fetch('/api/ingest', {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          urls: urlList,
+          note: note.trim() || undefined,
+          tags: tags
+            .split(/[,、\s]+/)
+            .map((tag) => tag.trim())
+            .filter(Boolean),
+          generateArticle,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setResult(data.data);
+        if (isPopup && data.data.failed === 0) {
+          setTimeout(() => window.close(), 1500);
+        }
+      } else if (response.status === 401) {
+        setIsAuthenticated(false);
+      } else {
+        setError(data.error || 'URLの登録に失敗しました');
+      }
+    } catch (error) {
+      console.error('Ingest error:', error);
+      setError('URLの登録中にエラーが発生しました');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-2xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold mb-2">🔖 URLを登録</h1>
+          <p className="text-gray-600 text-sm">
+            見つけた記事を収集アイテムとして登録し、記事生成の素材に使います
+          </p>
+        </div>
+
+        {!isAuthenticated && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
+            <p className="text-yellow-800">
+              URLを登録するにはログインが必要です。
+              <Link href="/login" target="_blank" className="underline ml-1">
+                ログインページを開く
+              </Link>
+            </p>
+          </div>
+        )}
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+            <p className="text-red-700">{error}</p>
+          </div>
+        )}
+
+        <Card className="p-6 space-y-4">
+          <Textarea
+            label="URL（1行に1件）"
+            name="urls"
+            value={urls}
+            onChange={(e) => setUrls(e.target.value)}
+            rows={3}
+            placeholder="https://example.com/article"
+          />
+          <Textarea
+            label="メモ"
+            name="note"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            rows={3}
+            placeholder="気になった点や記事にしたい観点"
+          />
+          <Input
+            label="タグ（カンマ区切り）"
+            name="tags"
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            placeholder="TypeScript, Next.js"
+          />
+          <label className="flex items-center space-x-2">
+            <input
+              type="checkbox"
+              checked={generateArticle}
+              onChange={(e) => setGenerateArticle(e.target.checked)}
+              className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+            />
+            <span className="text-sm text-gray-700">登録したURLから記事を生成する</span>
+          </label>
+          <Button
+            onClick={handleSubmit}
+            disabled={submitting || !isAuthenticated}
+            className="w-full bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {submitting ? '登録中...' : '登録する'}
+          </Button>
+        </Card>
+
+        {result && (
+          <Card className="p-6">
+            <h2 className="text-lg font-semibold mb-3">登録結果</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              新規 {result.created}件 / 収集済み {result.duplicates}件 / 失敗 {result.failed}件
+              {result.articleJobId && ' | 記事生成を開始しました'}
+            </p>
+            <ul className="space-y-2 text-sm">
+              {result.items.map((entry) => (
+                <li key={entry.url} className="flex justify-between gap-4">
+                  <span className="truncate">{entry.item?.title || entry.url}</span>
+                  <span className={`shrink-0 ${STATUS_LABELS[entry.status].className}`}>
+                    {STATUS_LABELS[entry.status].label}
+                    {entry.usedInArticles &&
+                      entry.usedInArticles.length > 0 &&
+                      '（記事で使用済み）'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
+        {!isPopup && (
+          <Card className="p-6">
+            <h2 className="text-lg font-semibold mb-2">ブックマークレット</h2>
+            <p className="text-sm text-gray-600 mb-3">
+              下のリンクをブックマークバーにドラッグすると、閲覧中のページをワンクリックで登録できます。
+              スマートフォンではホーム画面に追加すると共有メニューから登録できます。
+            </p>
+            <a
+              ref={bookmarkletRef}
+              className="inline-block px-4 py-2 rounded-md bg-gray-100 border border-gray-300 text-sm font-medium"
+              onClick={(e) => e.preventDefault()}
+            >
+              🔖 Curatorに送る
+            </a>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export default function IngestPage() {
+  return (
+    <Suspense fallback={<div className="container mx-auto px-4 py-8">読み込み中...</div>}>
+      <IngestPageContent />
+    </Suspense>
+  );
+}
@@ -0,0 +1,25 @@
+import type { MetadataRoute } from 'next';
+import { APP_NAME, APP_DESCRIPTION } from '@/lib/constants';
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: APP_NAME,
+    short_name: APP_NAME,
+    description: APP_DESCRIPTION,
+    start_url: '/',
+    display: 'standalone',
+    background_color: '#ffffff',
+    theme_color: '#2563eb',
+    icons: [{ src: '/favicon.ico', sizes: 'any', type: 'image/x-icon' }],
+    // 端末の共有メニューから /ingest にURLを送る
+    share_target: {
+      action: '/ingest',
+      method: 'GET',
+      params: {
+        title: 'title',
+        text: 'text',
+        url: 'url',
+      },
+    },
+  };
+}
@@ -39,27 +39,64 @@ interface SearchQuery {
   reasoning: string;
 }
 
+interface QualityEvaluation {
+  // 評価できなかった場合はnull
+  score: number | null;
+  reasoning: string;
+  flags: string[];
+  cached: boolean;
+  error?: string;
+}
+
 interface SearchResult {
   id: string;
   title: string;
   url: string;
   summary: string;
   source: string;
-  publishedAt: string;
+  publishedAt: string | null;
   type: string;
   metadata: {
     searchQuery: string;
     relevanceScore: number;
     domain?: string;
+    // 公開日が確認できなかったアイテム
+    dateUnknown?: boolean;
+  };
+  quality?: QualityEvaluation;
+}
+
+interface LowQualityResult {
+  id: string;
+  title: string;
+  url: string;
+  source: string;
+  quality: QualityEvaluation;
+}
+
+interface SearchApiStatus {
+  name: string;
+  displayName: string;
+  health: {
+    state: 'healthy' | 'degraded' | 'unavailable' | 'not_configured';
+    lastError: string | null;
   };
 }
 
+const SEARCH_API_STATE_LABELS: Record<SearchApiStatus['health']['state'], string> = {
+  healthy: '正常',
+  degraded: 'エラーあり',
+  unavailable: '一時停止中',
+  not_configured: '未設定',
+};
+
 interface CollectionResponse {
   success: boolean;
   data: {
     user: { id: string; name: string; email: string };
     searchQueries: SearchQuery[];
     results: SearchResult[];
+    lowQualityResults?: LowQualityResult[];
     statistics: {
       totalQueries: number;
       totalResults: number;
@@ -70,11 +107,25 @@ interface CollectionResponse {
         resultCount: number;
         processingTime: number;
         success: boolean;
+        provider?: string;
+        attemptedProviders: string[];
+        cacheHit: boolean;
       }>;
+      cacheHits?: number;
+      duplicatesRemoved?: number;
+      usedItemsSkipped?: number;
+      usedItemsDownWeighted?: number;
+      staleItemsSkipped?: number;
+      undatedItems?: number;
+      lowQualitySkipped?: number;
+      qualityEvaluated?: number;
+      qualityCacheHits?: number;
+      qualityEvaluationFailed?: number;
     };
     metadata: {
       options: any;
-      availableSearchApis: string[];
+      qualityGate?: { enabled: boolean; minScore: number };
+      availableSearchApis: SearchApiStatus[];
       generatedAt: string;
     };
   };
@@ -176,6 +227,12 @@ export default function IntelligentCollectionComponent({
     return 'text-gray-600';
   };
 
+  const getQualityColor = (score: number): string => {
+    if (score >= 8) return 'bg-green-100 text-green-800';
+    if (score >= 6) return 'bg-blue-100 text-blue-800';
+    return 'bg-yellow-100 text-yellow-800';
+  };
+
   const generateArticleFromResults = async () => {
     if (!collectionResult || collectionResult.data.results.length === 0) {
       setError('記事生成に必要な収集結果がありません');
@@ -394,6 +451,35 @@ export default function IntelligentCollectionComponent({
                 </p>
               </div>
             </div>
+            {!!collectionResult.data.statistics.usedItemsSkipped && (
+              <p className="mt-3 text-xs text-gray-500">
+                既に記事で使用済みの {collectionResult.data.statistics.usedItemsSkipped}{' '}
+                件を除外しました
+              </p>
+            )}
+            {!!collectionResult.data.statistics.staleItemsSkipped && (
+              <p className="mt-1 text-xs text-gray-500">
+                検索期間より古い {collectionResult.data.statistics.staleItemsSkipped}{' '}
+                件を除外しました
+              </p>
+            )}
+            {!!collectionResult.data.statistics.undatedItems && (
+              <p className="mt-1 text-xs text-gray-500">
+                公開日が不明な結果が {collectionResult.data.statistics.undatedItems} 件あります
+              </p>
+            )}
+            {!!collectionResult.data.statistics.lowQualitySkipped && (
+              <p className="mt-1 text-xs text-gray-500">
+                品質スコアが {collectionResult.data.metadata.qualityGate?.minScore} 未満の{' '}
+                {collectionResult.data.statistics.lowQualitySkipped} 件を除外しました
+              </p>
+            )}
+            {!!collectionResult.data.statistics.qualityEvaluationFailed && (
+              <p className="mt-1 text-xs text-gray-500">
+                {collectionResult.data.statistics.qualityEvaluationFailed}{' '}
+                件は品質を評価できなかったため、除外せずに残しています
+              </p>
+            )}
           </Card>
 
           {/* 生成されたクエリ */}
@@ -439,22 +525,44 @@ export default function IntelligentCollectionComponent({
                         {result.title}
                       </a>
                     </h4>
-                    <span
-                      className={`text-xs font-medium ${getRelevanceColor(result.metadata.relevanceScore)}`}
-                    >
-                      関連度: {(result.metadata.relevanceScore * 100).toFixed(0)}%
-                    </span>
+                    <div className="flex flex-col items-end gap-1 shrink-0 ml-2">
+                      <span
+                        className={`text-xs font-medium ${getRelevanceColor(result.metadata.relevanceScore)}`}
+                      >
+                        関連度: {(result.metadata.relevanceScore * 100).toFixed(0)}%
+                      </span>
+                      {result.quality?.score != null && (
+                        <span
+                          className={`px-2 py-0.5 text-xs rounded ${getQualityColor(result.quality.score)}`}
+                        >
+                          品質: {result.quality.score.toFixed(1)}/10
+                        </span>
+                      )}
+                    </div>
                   </div>
 
                   <p className="text-sm text-gray-600 mb-2">{result.summary}</p>
 
+                  {result.quality?.reasoning && (
+                    <p className="text-xs text-gray-500 mb-2">
+                      品質評価: {result.quality.reasoning}
+                      {result.quality.flags.length > 0 && ` (${result.quality.flags.join(', ')})`}
+                    </p>
+                  )}
+
                   <div className="flex justify-between items-center text-xs text-gray-500">
                     <div className="flex space-x-4">
                       <span>ソース: {result.source}</span>
                       <span>検索: {result.metadata.searchQuery}</span>
                       {result.metadata.domain && <span>ドメイン: {result.metadata.domain}</span>}
                     </div>
-                    <span>{new Date(result.publishedAt).toLocaleDateString('ja-JP')}</span>
+                    {result.publishedAt ? (
+                      <span>{new Date(result.publishedAt).toLocaleDateString('ja-JP')}</span>
+                    ) : (
+                      <span className="px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded">
+                        日付不明
+                      </span>
+                    )}
                   </div>
                 </div>
               ))}
@@ -469,6 +577,40 @@ export default function IntelligentCollectionComponent({
             </div>
           </Card>
 
+          {/* 品質スコアが低く除外した情報 */}
+          {!!collectionResult.data.lowQualityResults?.length && (
+            <Card className="p-4">
+              <details>
+                <summary className="cursor-pointer text-lg font-semibold">
+                  🚫 品質スコアが低く除外した情報（{collectionResult.data.lowQualityResults.length}
+                  件）
+                </summary>
+                <div className="mt-3 space-y-3">
+                  {collectionResult.data.lowQualityResults.map((result) => (
+                    <div key={result.id} className="border-l-4 border-gray-300 pl-4 py-1">
+                      <div className="flex justify-between items-start">
+                        <a
+                          href={result.url}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-medium text-gray-700 hover:underline"
+                        >
+                          {result.title}
+                        </a>
+                        <span className="ml-2 shrink-0 px-2 py-0.5 bg-red-100 text-red-800 text-xs rounded">
+                          品質: {result.quality.score?.toFixed(1)}/10
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {result.source} ・ {result.quality.reasoning}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </details>
+            </Card>
+          )}
+
           {/* システム情報 */}
           <Card className="p-4">
             <h3 className="text-lg font-semibold mb-3">⚙️ システム情報</h3>
@@ -476,7 +618,12 @@ export default function IntelligentCollectionComponent({
               <div>
                 <span className="text-gray-600">利用可能な検索API:</span>
                 <span className="ml-2">
-                  {collectionResult.data.metadata.availableSearchApis.join(', ')}
+                  {collectionResult.data.metadata.availableSearchApis
+                    .filter((api) => api.health.state !== 'not_configured')
+                    .map(
+                      (api) => `${api.displayName} (${SEARCH_API_STATE_LABELS[api.health.state]})`
+                    )
+                    .join(', ')}
                 </span>
               </div>
               <div>
@@ -0,0 +1,49 @@
+import { AzureOpenAI } from 'openai';
+import { OpenAiLlmProvider } from './openai-provider';
+
+export interface AzureLlmProviderOptions {
+  endpoint?: string;
+  apiKey?: string;
+  // Azureではモデル名の代わりにデプロイ名を指定する
+  deployment?: string;
+  apiVersion: string;
+  timeoutMs?: number;
+}
+
+/**
+ * Azure OpenAI Service
+ */
+export class AzureOpenAiLlmProvider extends OpenAiLlmProvider {
+  private readonly endpoint?: string;
+  private readonly apiVersion: string;
+
+  constructor(options: AzureLlmProviderOptions) {
+    super({
+      name: 'azure',
+      displayName: 'Azure OpenAI',
+      model: options.deployment ?? '',
+      apiKey: options.apiKey,
+      quotaProvider: 'openai',
+      timeoutMs: options.timeoutMs,
+    });
+
+    this.endpoint = options.endpoint;
+    this.apiVersion = options.apiVersion;
+  }
+
+  isConfigured(): boolean {
+    return !!this.endpoint && !!this.apiKey && !!this.model;
+  }
+
+  protected createClient(): AzureOpenAI {
+    // リクエストのmodel（デプロイ名）から /deployments/{model} のURLが作られる
+    return new AzureOpenAI({
+      endpoint: this.endpoint,
+      apiKey: this.apiKey,
+      apiVersion: this.apiVersion,
+      timeout: this.timeoutMs,
+      // 再試行はcompleteStructuredで行う
+      maxRetries: 0,
+    });
+  }
+}
@@ -0,0 +1,55 @@
+import type { ApiQuotaProvider } from '@/lib/config/external-apis';
+import { Logger } from '@/lib/utils/logger';
+import { quotaManager } from '@/lib/utils/quota-manager';
+import { recordLlmUsage } from './usage';
+import {
+  LlmProviderError,
+  type LlmCompletion,
+  type LlmCompletionRequest,
+  type LlmProvider,
+} from './types';
+
+export abstract class BaseLlmProvider implements LlmProvider {
+  abstract readonly name: string;
+  abstract readonly displayName: string;
+  abstract readonly model: string;
+  readonly quotaProvider?: ApiQuotaProvider;
+
+  protected logger: Logger;
+
+  constructor(loggerName: string) {
+    this.logger = new Logger(`LlmProvider:${loggerName}`);
+  }
+
+  abstract isConfigured(): boolean;
+  protected abstract createCompletion(request: LlmCompletionRequest): Promise<LlmCompletion>;
+
+  /**
+   * 利用枠を消費してから補完を実行し、トークン数と推定コストを記録（空の応答はエラーとして扱う）
+   */
+  async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    if (!this.isConfigured()) {
+      throw new LlmProviderError(`${this.displayName} is not configured`, this.name);
+    }
+
+    if (this.quotaProvider) {
+      await quotaManager.consume(this.quotaProvider);
+    }
+
+    const startTime = Date.now();
+    const completion = await this.createCompletion(request);
+    const latencyMs = Date.now() - startTime;
+
+    this.logger.debug('Completion finished', {
+      model: completion.model,
+      durationMs: latencyMs,
+      totalTokens: completion.usage?.totalTokens,
+    });
+    await recordLlmUsage(completion, latencyMs, request.usage);
+
+    if (!completion.content) {
+      throw new LlmProviderError(`No response from ${this.displayName}`, this.name, true);
+    }
+    return completion;
+  }
+}
@@ -0,0 +1,93 @@
+import { LLM_CONFIG } from '@/lib/config/llm';
+import { LlmUsageModel } from '@/lib/db/models/llm-usage';
+import { toQuotaDate } from '@/lib/db/models/api-quota-usage';
+import { Logger } from '@/lib/utils/logger';
+
+export type LlmBudgetPeriod = 'daily' | 'monthly';
+
+export interface LlmBudgetStatus {
+  period: LlmBudgetPeriod;
+  // 推定コスト（USD）
+  spent: number;
+  limit: number | null;
+  usageRate: number | null;
+  exceeded: boolean;
+  resetAt: Date;
+}
+
+export class LlmBudgetExceededError extends Error {
+  constructor(public status: LlmBudgetStatus) {
+    super(
+      `LLM ${status.period} budget exceeded: $${status.spent.toFixed(4)} / $${status.limit?.toFixed(2)}`
+    );
+    this.name = 'LlmBudgetExceededError';
+  }
+}
+
+const logger = new Logger('LlmBudget');
+
+function getPeriodRange(
+  period: LlmBudgetPeriod,
+  now: Date = new Date()
+): { from: Date; resetAt: Date } {
+  if (period === 'daily') {
+    const from = toQuotaDate(now);
+    return { from, resetAt: new Date(from.getTime() + 24 * 60 * 60 * 1000) };
+  }
+  return {
+    from: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    resetAt: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1)),
+  };
+}
+
+/**
+ * 当日・当月（UTC）の推定コストと上限
+ */
+export async function getLlmBudgetStatuses(): Promise<LlmBudgetStatus[]> {
+  const limits: Record<LlmBudgetPeriod, number | null> = {
+    daily: LLM_CONFIG.budget.dailyUsd,
+    monthly: LLM_CONFIG.budget.monthlyUsd,
+  };
+
+  return Promise.all(
+    (Object.keys(limits) as LlmBudgetPeriod[]).map(async (period) => {
+      const { from, resetAt } = getPeriodRange(period);
+      const { estimatedCost: spent } = await LlmUsageModel.getTotals({ from });
+      const limit = limits[period];
+
+      return {
+        period,
+        spent,
+        limit,
+        usageRate: limit ? Math.round((spent / limit) * 100) : null,
+        exceeded: limit !== null && spent >= limit,
+        resetAt,
+      };
+    })
+  );
+}
+
+/**
+ * 上限を超えている場合はLlmBudgetExceededErrorを投げる（バッチ処理の開始前・途中で確認する）
+ * DBに接続できない場合は続行を許可
+ */
+export async function assertLlmBudget(): Promise<void> {
+  const { dailyUsd, monthlyUsd } = LLM_CONFIG.budget;
+  if (dailyUsd === null && monthlyUsd === null) {
+    return;
+  }
+
+  let statuses: LlmBudgetStatus[];
+  try {
+    statuses = await getLlmBudgetStatuses();
+  } catch (error) {
+    logger.error('Failed to check LLM budget', error as Error);
+    return;
+  }
+
+  const exceeded = statuses.find((status) => status.exceeded);
+  if (exceeded) {
+    logger.warn('LLM budget exceeded', { ...exceeded });
+    throw new LlmBudgetExceededError(exceeded);
+  }
+}
@@ -0,0 +1,53 @@
+import { LLM_CONFIG } from '@/lib/config/llm';
+import { AzureOpenAiLlmProvider } from './azure-provider';
+import { OpenAiLlmProvider } from './openai-provider';
+import type { LlmProvider } from './types';
+
+export * from './types';
+export { BaseLlmProvider } from './base';
+export { OpenAiLlmProvider } from './openai-provider';
+export { AzureOpenAiLlmProvider } from './azure-provider';
+export { estimateLlmCost, recordLlmUsage } from './usage';
+export { repairJson } from './json-repair';
+export {
+  completeStructured,
+  isTransientLlmError,
+  StructuredOutputError,
+  type StructuredCompletionRequest,
+  type StructuredOutput,
+} from './structured';
+export {
+  assertLlmBudget,
+  getLlmBudgetStatuses,
+  LlmBudgetExceededError,
+  type LlmBudgetPeriod,
+  type LlmBudgetStatus,
+} from './budget';
+
+/**
+ * 環境変数（LLM_PROVIDER）に応じたプロバイダーを作成
+ */
+export function createLlmProvider(config: typeof LLM_CONFIG = LLM_CONFIG): LlmProvider {
+  switch (config.provider) {
+    case 'azure':
+      return new AzureOpenAiLlmProvider({ ...config.azure, timeoutMs: config.timeoutMs });
+    case 'openai-compatible':
+      return new OpenAiLlmProvider({
+        name: 'openai-compatible',
+        model: config.model,
+        apiKey: config.compatible.apiKey,
+        baseURL: config.compatible.baseUrl,
+        jsonMode: config.compatible.jsonMode,
+        timeoutMs: config.timeoutMs,
+      });
+    case 'openai':
+      return new OpenAiLlmProvider({
+        model: config.model,
+        apiKey: config.openai.apiKey,
+        quotaProvider: 'openai',
+        timeoutMs: config.timeoutMs,
+      });
+  }
+}
+
+export const llmProvider = createLlmProvider();
@@ -0,0 +1,65 @@
+const CLOSING: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * LLMが返した壊れたJSONを可能な範囲で修復
+ * - コードブロック・前後の説明文を除去
+ * - 末尾のカンマ、文字列中の改行を修正
+ * - 出力が途中で切れた場合は未完了の要素を捨てて括弧を閉じる
+ */
+export function repairJson(text: string): string {
+  const start = text.search(/[{[]/);
+  if (start === -1) {
+    return text.trim();
+  }
+
+  const stack: string[] = [];
+  let output = '';
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text.slice(start)) {
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      } else if (char === '\n') {
+        output += '\\n';
+        continue;
+      }
+      output += char;
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char in CLOSING) {
+      stack.push(CLOSING[char]);
+    } else if (char === '}' || char === ']') {
+      // 直前のカンマは許容しない
+      output = output.replace(/,\s*$/, '');
+      stack.pop();
+      output += char;
+      if (stack.length === 0) {
+        return output;
+      }
+      continue;
+    }
+    output += char;
+  }
+
+  // 途中で切れている場合
+  if (inString) {
+    output += '"';
+  }
+  output = output
+    .replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:\s*$/, '') // 値のないキー
+    .replace(/[,:]\s*$/, '');
+  if (stack[stack.length - 1] === '}') {
+    // 途中で切れたキー
+    output = output.replace(/,\s*"(?:[^"\\]|\\.)*"\s*$/, '');
+  }
+  return output + stack.reverse().join('');
+}
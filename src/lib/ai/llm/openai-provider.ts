@@ -0,0 +1,103 @@
+import OpenAI from 'openai';
+import type { ApiQuotaProvider } from '@/lib/config/external-apis';
+import { BaseLlmProvider } from './base';
+import type { LlmCompletion, LlmCompletionRequest } from './types';
+
+export interface OpenAiLlmProviderOptions {
+  name?: string;
+  displayName?: string;
+  model: string;
+  apiKey?: string;
+  // OpenAI互換サーバーのURL（例: http://localhost:11434/v1）
+  baseURL?: string;
+  // response_format（JSONモード）に対応していないサーバーではfalse
+  jsonMode?: boolean;
+  quotaProvider?: ApiQuotaProvider;
+  timeoutMs?: number;
+}
+
+function stripCodeFence(content: string): string {
+  return content
+    .trim()
+    .replace(/^```(?:json)?\s*\n?/i, '')
+    .replace(/\n?```$/, '')
+    .trim();
+}
+
+/**
+ * OpenAI Chat Completions API
+ * baseURLを指定するとOllama・llama.cpp server・vLLM等のOpenAI互換サーバーにも使える
+ */
+export class OpenAiLlmProvider extends BaseLlmProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly model: string;
+  readonly quotaProvider?: ApiQuotaProvider;
+
+  protected readonly apiKey?: string;
+  protected readonly timeoutMs?: number;
+  private readonly baseURL?: string;
+  private readonly jsonMode: boolean;
+  private client: OpenAI | null = null;
+
+  constructor(options: OpenAiLlmProviderOptions) {
+    const name = options.name ?? (options.baseURL ? 'openai-compatible' : 'openai');
+    super(name);
+
+    this.name = name;
+    this.displayName =
+      options.displayName ?? (options.baseURL ? `OpenAI互換 (${options.baseURL})` : 'OpenAI');
+    this.model = options.model;
+    this.quotaProvider = options.quotaProvider;
+    this.apiKey = options.apiKey;
+    this.baseURL = options.baseURL;
+    this.jsonMode = options.jsonMode ?? true;
+    this.timeoutMs = options.timeoutMs;
+  }
+
+  isConfigured(): boolean {
+    return this.baseURL ? true : !!this.apiKey;
+  }
+
+  /**
+   * 未設定の状態でも読み込み時にエラーにならないよう、最初の呼び出しでクライアントを作る
+   */
+  protected createClient(): OpenAI {
+    return new OpenAI({
+      // ローカルサーバーはキー不要だが、SDKは空のキーを受け付けない
+      apiKey: this.apiKey || 'not-needed',
+      baseURL: this.baseURL,
+      timeout: this.timeoutMs,
+      // 再試行はcompleteStructuredで行う
+      maxRetries: 0,
+    });
+  }
+
+  protected async createCompletion(request: LlmCompletionRequest): Promise<LlmCompletion> {
+    const model = request.model ?? this.model;
+    this.client ??= this.createClient();
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+      ...(request.json && this.jsonMode && { response_format: { type: 'json_object' as const } }),
+    });
+
+    const content = response.choices[0]?.message?.content ?? '';
+
+    return {
+      // JSONモードが使えないサーバーはコードブロックで囲んで返すことがある
+      content: request.json && !this.jsonMode ? stripCodeFence(content) : content,
+      model: response.model || model,
+      provider: this.name,
+      usage: response.usage
+        ? {
+            promptTokens: response.usage.prompt_tokens,
+            completionTokens: response.usage.completion_tokens,
+            totalTokens: response.usage.total_tokens,
+          }
+        : null,
+    };
+  }
+}
@@ -0,0 +1,196 @@
+import { APIConnectionError, APIError } from 'openai';
+import type { z } from 'zod';
+import { LLM_CONFIG } from '@/lib/config/llm';
+import { Logger } from '@/lib/utils/logger';
+import { repairJson } from './json-repair';
+import {
+  LlmProviderError,
+  type LlmCompletion,
+  type LlmCompletionRequest,
+  type LlmMessage,
+  type LlmProvider,
+} from './types';
+
+export interface StructuredCompletionRequest<T> extends Omit<LlmCompletionRequest, 'json'> {
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>;
+  // 有効な応答が得られなかった場合の値（未指定の場合は最後のエラーを投げる）
+  fallback?: () => T;
+  maxRetries?: number;
+  maxReprompts?: number;
+}
+
+export interface StructuredOutput<T> {
+  data: T;
+  // 有効な応答が得られずfallbackの値を返した場合はtrue
+  fallbackUsed: boolean;
+  // 壊れたJSONを修復して解析した場合はtrue
+  repaired: boolean;
+  // LLMの呼び出し回数（再試行・再生成を含む）
+  attempts: number;
+  // 応答したモデル（一度も応答がなかった場合はnull）
+  model: string | null;
+  // fallbackを使った理由
+  error: string | null;
+}
+
+export class StructuredOutputError extends Error {
+  constructor(
+    message: string,
+    public attempts: number
+  ) {
+    super(message);
+    this.name = 'StructuredOutputError';
+  }
+}
+
+const logger = new Logger('StructuredOutput');
+
+/**
+ * 再試行で回復する可能性のあるエラーか（接続エラー・タイムアウト・429・5xx・空の応答）
+ */
+export function isTransientLlmError(error: unknown): boolean {
+  if (error instanceof LlmProviderError) {
+    return error.retryable;
+  }
+  if (error instanceof APIConnectionError) {
+    return true;
+  }
+  if (error instanceof APIError && error.status !== undefined) {
+    // 利用枠の不足は待っても回復しない
+    if (error.code === 'insufficient_quota') {
+      return false;
+    }
+    return [408, 409, 429].includes(error.status) || error.status >= 500;
+  }
+  return false;
+}
+
+function parseStructured<T>(
+  content: string,
+  schema: z.ZodType<T, z.ZodTypeDef, unknown>
+): { data: T; repaired: boolean } | { error: string } {
+  let json: unknown;
+  let repaired = false;
+  try {
+    json = JSON.parse(content);
+  } catch {
+    try {
+      json = JSON.parse(repairJson(content));
+      repaired = true;
+    } catch (error) {
+      return { error: `JSONとして解析できません（${(error as Error).message}）` };
+    }
+  }
+
+  const result = schema.safeParse(json);
+  if (!result.success) {
+    return {
+      error: result.error.issues
+        .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; '),
+    };
+  }
+  return { data: result.data, repaired };
+}
+
+/**
+ * LLMからzodスキーマに沿ったJSONを取得
+ * - 一時的なエラーは指数バックオフで再試行
+ * - 壊れたJSONは修復を試み、検証に失敗した場合はエラー内容を伝えて再生成させる
+ * - それでも失敗した場合はfallbackの値を返す（fallbackUsedで呼び出し元に伝える）
+ */
+export async function completeStructured<T>(
+  llm: LlmProvider,
+  request: StructuredCompletionRequest<T>
+): Promise<StructuredOutput<T>> {
+  const {
+    schema,
+    fallback,
+    maxRetries = LLM_CONFIG.structuredOutput.maxRetries,
+    maxReprompts = LLM_CONFIG.structuredOutput.maxReprompts,
+    ...completionRequest
+  } = request;
+  const operation = completionRequest.usage?.operation;
+  const messages: LlmMessage[] = [...completionRequest.messages];
+  let attempts = 0;
+  let model: string | null = null;
+  let lastError: unknown;
+
+  const completeWithRetry = async (): Promise<LlmCompletion> => {
+    for (let retry = 0; ; retry++) {
+      attempts++;
+      try {
+        return await llm.complete({ ...completionRequest, messages, json: true });
+      } catch (error) {
+        if (retry >= maxRetries || !isTransientLlmError(error)) {
+          throw error;
+        }
+        const delay =
+          LLM_CONFIG.structuredOutput.baseBackoffMs * 2 ** retry * (1 + Math.random() * 0.2);
+        logger.warn('Transient LLM error, retrying', {
+          operation,
+          attempt: attempts,
+          delayMs: Math.round(delay),
+          error: (error as Error).message,
+        });
+        await new Promise((resolve) => setTimeout(resolve, delay));
+      }
+    }
+  };
+
+  try {
+    for (let reprompt = 0; reprompt <= maxReprompts; reprompt++) {
+      const completion = await completeWithRetry();
+      model = completion.model;
+
+      const parsed = parseStructured(completion.content, schema);
+      if ('data' in parsed) {
+        if (parsed.repaired) {
+          logger.debug('Repaired malformed JSON', { operation, attempt: attempts });
+        }
+        return {
+          data: parsed.data,
+          fallbackUsed: false,
+          repaired: parsed.repaired,
+          attempts,
+          model,
+          error: null,
+        };
+      }
+
+      logger.warn('Invalid structured output', {
+        operation,
+        attempt: attempts,
+        error: parsed.error,
+      });
+      lastError = new StructuredOutputError(
+        `Invalid structured output after ${attempts} attempts: ${parsed.error}`,
+        attempts
+      );
+      messages.push(
+        { role: 'assistant', content: completion.content },
+        {
+          role: 'user',
+          content: `前回の応答は次の理由で受け付けられませんでした: ${parsed.error}\n指定された形式のJSONオブジェクトのみを、説明文やコードブロックを付けずに返してください。`,
+        }
+      );
+    }
+  } catch (error) {
+    lastError = error;
+  }
+
+  if (!fallback) {
+    throw lastError;
+  }
+
+  const message = lastError instanceof Error ? lastError.message : String(lastError);
+  logger.warn('Using fallback for structured output', { operation, attempts, error: message });
+  return {
+    data: fallback(),
+    fallbackUsed: true,
+    repaired: false,
+    attempts,
+    model,
+    error: message,
+  };
+}
@@ -0,0 +1,69 @@
+import type { ApiQuotaProvider } from '@/lib/config/external-apis';
+
+export type LlmRole = 'system' | 'user' | 'assistant';
+
+export interface LlmMessage {
+  role: LlmRole;
+  content: string;
+}
+
+export interface LlmCompletionRequest {
+  messages: LlmMessage[];
+  temperature?: number;
+  maxTokens?: number;
+  // JSONオブジェクトでの応答を求める
+  json?: boolean;
+  // プロバイダーの既定モデル以外を使う場合
+  model?: string;
+  // 使用量の記録に付与する呼び出し元の情報
+  usage?: LlmUsageContext;
+}
+
+// 呼び出し元のユーザー・ジョブ等（requestIdは記事の保存後に記事IDを紐付けるために使う）
+export interface LlmUsageScope {
+  userId?: string | null;
+  collectionJobId?: string | null;
+  requestId?: string | null;
+}
+
+export interface LlmUsageContext extends LlmUsageScope {
+  // 呼び出した処理（プロンプトテンプレートID）
+  operation: string;
+}
+
+export interface LlmTokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface LlmCompletion {
+  content: string;
+  model: string;
+  provider: string;
+  // ローカルサーバー等で使用量が返らない場合はnull
+  usage: LlmTokenUsage | null;
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  readonly displayName: string;
+  readonly model: string;
+  // 1日の利用上限を管理する対象（ローカルモデルは未設定）
+  readonly quotaProvider?: ApiQuotaProvider;
+
+  isConfigured(): boolean;
+  complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+}
+
+export class LlmProviderError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    // 再試行で回復する可能性がある場合はtrue
+    public retryable = false
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
@@ -0,0 +1,48 @@
+import { findLlmPrice } from '@/lib/config/llm';
+import { LlmUsageModel } from '@/lib/db/models/llm-usage';
+import { Logger } from '@/lib/utils/logger';
+import type { LlmCompletion, LlmTokenUsage, LlmUsageContext } from './types';
+
+const logger = new Logger('LlmUsage');
+
+/**
+ * 価格表から推定コスト（USD）を計算（価格が不明な場合・使用量が返らない場合はnull）
+ */
+export function estimateLlmCost(model: string, usage: LlmTokenUsage | null): number | null {
+  const price = findLlmPrice(model);
+  if (!price || !usage) {
+    return null;
+  }
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * 補完1回分の使用量を記録（記録の失敗は呼び出し元に影響させない）
+ */
+export async function recordLlmUsage(
+  completion: LlmCompletion,
+  latencyMs: number,
+  context: LlmUsageContext = { operation: 'unknown' }
+): Promise<void> {
+  try {
+    await LlmUsageModel.create({
+      provider: completion.provider,
+      model: completion.model,
+      operation: context.operation,
+      promptTokens: completion.usage?.promptTokens ?? 0,
+      completionTokens: completion.usage?.completionTokens ?? 0,
+      totalTokens: completion.usage?.totalTokens ?? 0,
+      latencyMs,
+      estimatedCost: estimateLlmCost(completion.model, completion.usage),
+      userId: context.userId ?? null,
+      collectionJobId: context.collectionJobId ?? null,
+      requestId: context.requestId ?? null,
+    });
+  } catch (error) {
+    logger.warn('Failed to record LLM usage', {
+      model: completion.model,
+      operation: context.operation,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
@@ -0,0 +1,280 @@
+import type { PromptTemplateDefinition } from '../types';
+
+const SEARCH_QUERY_TEMPLATE = `
+{{userProfile}}
+
+タスク: 上記のユーザープロファイルに基づいて、{{count}}個の検索クエリを生成してください。
+
+重点分野: {{focusAreas}}
+
+要件:
+- ユーザーの興味分野を考慮
+- 重点分野が指定されている場合はその分野を優先
+- 実用的で具体的なクエリ
+- 多様性のある検索内容
+
+!!重要!!
+- 年代や日付などの情報をクエリに含めない
+
+以下のJSON形式で回答してください:
+{
+  "queries": [
+    {
+      "query": "具体的な検索クエリ（日本語または英語）",
+      "category": "カテゴリ名",
+      "priority": 1-10の数値（高いほど重要）,
+      "reasoning": "このクエリを選んだ理由"
+    }
+  ]
+}
+
+検索クエリの例:
+- "React Server Components 実装方法"
+- "TypeScript 5.0 新機能 実用例"
+- "Next.js 14 App Router パフォーマンス最適化"
+`;
+
+const CONTENT_QUALITY_TEMPLATE = `
+あなたは記事コンテンツの品質評価エキスパートです。
+以下のコンテンツを多角的に評価し、品質スコア（1-10）を算出してください。
+
+# 評価対象コンテンツ
+- タイトル: {{title}}
+- 要約: {{summary}}
+- ソース: {{source}}
+- 公開日: {{publishedAt}}
+- コンテンツタイプ: {{contentType}}
+
+# 評価基準
+1. **正確性** (25%): 正確性、事実の信頼性
+2. **関連性** (20%): 現在のトレンドや重要性との関連
+3. **新鮮さ** (20%): 情報の新しさ、時代に即しているか
+4. **深度** (20%): 内容の深さ、詳細さ、専門性
+5. **可読性** (15%): 理解しやすさ、構造の明確さ
+
+# 出力形式
+JSON形式で以下の構造で出力してください：
+{
+  "qualityScore": 8.5,
+  "reasoning": "評価の詳細理由",
+  "factors": {
+    "accuracy": 9,
+    "relevance": 8,
+    "freshness": 9,
+    "depth": 8,
+    "readability": 8
+  },
+  "flags": ["potential_bias", "outdated_info"]
+}
+`;
+
+const INTEREST_SCORE_TEMPLATE = `
+あなたはユーザーの興味を分析するエキスパートです。
+以下のコンテンツが指定されたユーザーにとってどれだけ興味深いかを0-10で評価してください。
+
+# コンテンツ情報
+{{content}}
+
+# ユーザープロファイル
+{{userProfile}}
+
+# 評価基準
+1. **トピックの関連性** (50%): ユーザーの興味分野との合致度
+2. **新規性** (30%): ユーザーにとって新しい情報・視点か
+3. **実用性** (20%): 実際に役立つ、行動に移せる内容か
+
+# 出力形式
+JSON形式で以下の構造で出力してください：
+{
+  "score": 8,
+  "reasoning": "スコア算出の詳細理由",
+  "factors": {
+    "topicRelevance": 9,
+    "difficultyMatch": 8,
+    "novelty": 7,
+    "actionability": 8
+  },
+  "matchedKeywords": ["React", "TypeScript", "performance"]
+}
+`;
+
+const CATEGORY_CLASSIFICATION_TEMPLATE = `
+以下のコンテンツを最適なカテゴリに分類してください。
+
+# コンテンツ
+{{content}}
+
+# 利用可能カテゴリ
+{{availableCategories}}
+
+# 分類基準
+- 主要なトピックに基づいて分類
+- 最も関連性の高いカテゴリを選択
+- 必ず利用可能カテゴリの中から選択
+
+# 出力形式
+JSON形式で以下の構造で出力してください：
+{
+  "category": "選択されたカテゴリ名",
+  "confidence": 0.85,
+  "alternativeCategories": [
+    {"name": "代替カテゴリ1", "confidence": 0.15},
+    {"name": "代替カテゴリ2", "confidence": 0.10}
+  ],
+  "reasoning": "分類理由の説明"
+}
+`;
+
+const TAG_GENERATION_TEMPLATE = `
+以下のコンテンツから関連タグを生成してください。
+
+# コンテンツ
+- タイトル: {{title}}
+- 要約: {{summary}}
+- 本文（一部）: {{content}}
+
+# 要件
+- 最大{{maxTags}}個のタグを生成
+- 技術名、概念、難易度、コンテンツタイプなど多様な観点でタグ付け
+- 一般的すぎるタグは避ける
+- 英語タグと日本語タグの両方を考慮
+
+# 出力形式
+JSON形式で以下の構造で出力してください：
+{
+  "tags": [
+    {
+      "name": "React",
+      "relevance": 0.95,
+      "type": "technology"
+    },
+    {
+      "name": "中級者向け",
+      "relevance": 0.80,
+      "type": "difficulty"
+    }
+  ],
+  "reasoning": "タグ選択の理由"
+}
+`;
+
+const ARTICLE_GENERATION_TEMPLATE = `
+あなたはユーザーの興味を引く記事をキュレーションする専門家です。
+1. 提供された情報源を基に、ユーザーが興味を持ちそうな記事を選定して下さい。
+2. 選定した各記事を個別に紹介するキュレーション記事を作成してください。
+
+# 情報源
+{{sources}}
+
+# 読者プロファイル
+{{userProfile}}
+
+# 記事要件
+- 文体: {{style}}
+- Markdown形式で出力
+- 各情報源を個別にリスト形式で紹介
+- 統合・要約はしない
+
+# 重要な指示
+1. タイトルは情報源を抽象化して要約する
+2. 導入文は2文程度で簡潔に
+3. 本文は提供された各記事を以下の形式で羅列する：
+
+## [記事タイトル](記事URL)
+記事の内容について1-3行程度で要約。何を学べるか、なぜ有用かを簡潔に説明。
+
+4. まとめや結論は不要
+5. 各記事を独立して紹介し、全体をまとめたテーマで統合しない
+
+# 出力例
+今週注目の情報をキュレーションしました。各ページから最新の動向をお楽しみください。
+
+## [React Server Components入門](https://example.com/rsc-intro)
+React Server Componentsの基本概念と実装方法について解説。サーバーサイドレンダリングとの違いや実際のコード例も含まれており、Next.jsでの活用方法も紹介されています。
+
+## [TypeScript 5.4の新機能](https://example.com/ts-5-4)
+最新のTypeScriptで追加されたnoUncheckedIndexedAccessオプションについて詳しく解説。型安全性の向上と実際の開発での活用シーンが具体的に説明されています。
+
+# 出力形式
+JSON形式で以下の構造で出力してください：
+{
+  "title": "キュレーションタイトル",
+  "summary": "2文程度の導入文",
+  "content": "Markdown形式の本文（各記事を## [タイトル](URL)形式で個別紹介）",
+  "category": "適切なカテゴリ",
+  "tags": ["タグ1", "タグ2"],
+  "sources": [
+    {
+      "url": "https://...",
+      "title": "ソースタイトル",
+      "relevance": 0.9
+    }
+  ],
+  "confidence": 0.85,
+  "metadata": {
+    "wordCount": 400,
+    "readingTime": 2,
+    "difficulty": "intermediate",
+    "contentType": "curation"
+  }
+}
+`;
+
+// コードに定義した既定のテンプレート（DBに未登録のテンプレートはバージョン1として登録する）
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplateDefinition[] = [
+  {
+    id: 'search-query-generation',
+    name: '検索クエリ生成',
+    description: 'ユーザープロファイルに基づいて最適な検索クエリを生成',
+    category: 'search',
+    systemPrompt:
+      'あなたは情報収集の専門家です。ユーザーの興味に基づいて最適な検索クエリを生成してください。',
+    template: SEARCH_QUERY_TEMPLATE,
+    availableVariables: ['userProfile', 'count', 'focusAreas'],
+  },
+  {
+    id: 'content-quality-evaluation',
+    name: 'コンテンツ品質評価',
+    description: 'コンテンツの品質を多角的に評価してスコアを算出',
+    category: 'evaluation',
+    systemPrompt: 'あなたはコンテンツ評価の専門家です。',
+    template: CONTENT_QUALITY_TEMPLATE,
+    availableVariables: ['title', 'summary', 'source', 'publishedAt', 'contentType'],
+  },
+  {
+    id: 'interest-score-calculation',
+    name: '興味度スコア計算',
+    description: 'ユーザーの興味に基づいてコンテンツの関心度を計算',
+    category: 'evaluation',
+    systemPrompt: 'あなたはコンテンツ評価の専門家です。',
+    template: INTEREST_SCORE_TEMPLATE,
+    availableVariables: ['content', 'userProfile'],
+  },
+  {
+    id: 'category-classification',
+    name: 'カテゴリ分類',
+    description: 'コンテンツを適切なカテゴリに自動分類',
+    category: 'classification',
+    systemPrompt: 'あなたはコンテンツ分類の専門家です。',
+    template: CATEGORY_CLASSIFICATION_TEMPLATE,
+    availableVariables: ['content', 'availableCategories'],
+  },
+  {
+    id: 'tag-generation',
+    name: 'タグ生成',
+    description: 'コンテンツから関連タグを自動生成',
+    category: 'classification',
+    systemPrompt: 'あなたはコンテンツ分類の専門家です。',
+    template: TAG_GENERATION_TEMPLATE,
+    availableVariables: ['title', 'summary', 'content', 'maxTags'],
+  },
+  {
+    id: 'article-generation',
+    name: '記事生成',
+    description: '複数のソースから統合記事を生成',
+    category: 'generation',
+    systemPrompt: 'あなたはプロのWebライターです。読者の興味を引く記事を作成してください。',
+    template: ARTICLE_GENERATION_TEMPLATE,
+    availableVariables: ['sources', 'userProfile', 'style', 'targetLength'],
+  },
+];
@@ -0,0 +1,79 @@
+import {
+  PromptExperimentModel,
+  type PromptExperimentWithVariants,
+} from '@/lib/db/models/prompt-experiment';
+import { Logger } from '@/lib/utils/logger';
+
+// 実行中の実験をDBから再読み込みするまでの間隔
+const CACHE_TTL_MS = 60 * 1000;
+
+export interface PromptVariantAssignment {
+  experimentId: string;
+  variantId: string;
+  version: number;
+}
+
+const logger = new Logger('PromptExperiments');
+const cache = new Map<
+  string,
+  { experiment: PromptExperimentWithVariants | null; expiresAt: number }
+>();
+
+/**
+ * 重みに比例した確率でバリアントを選ぶ
+ */
+export function pickWeightedVariant<T extends { weight: number }>(
+  variants: T[],
+  random: number = Math.random()
+): T | null {
+  const candidates = variants.filter((variant) => variant.weight > 0);
+  const total = candidates.reduce((sum, variant) => sum + variant.weight, 0);
+  if (total <= 0) return null;
+
+  let threshold = random * total;
+  for (const variant of candidates) {
+    threshold -= variant.weight;
+    if (threshold < 0) return variant;
+  }
+  return candidates[candidates.length - 1];
+}
+
+/**
+ * テンプレートの実行中の実験からバリアントを割り当てる
+ * 実験がない場合・DBエラー時はnull（使用中のバージョンを使う）
+ */
+export async function selectPromptVariant(
+  templateId: string
+): Promise<PromptVariantAssignment | null> {
+  let entry = cache.get(templateId);
+  if (!entry || Date.now() >= entry.expiresAt) {
+    try {
+      entry = {
+        experiment: await PromptExperimentModel.findRunning(templateId),
+        expiresAt: Date.now() + CACHE_TTL_MS,
+      };
+      cache.set(templateId, entry);
+    } catch (error) {
+      logger.warn('Failed to load prompt experiment', {
+        templateId,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      return null;
+    }
+  }
+
+  const { experiment } = entry;
+  const variant = experiment && pickWeightedVariant(experiment.variants);
+  if (!experiment || !variant) {
+    return null;
+  }
+
+  return { experimentId: experiment.id, variantId: variant.id, version: variant.version };
+}
+
+/**
+ * 実験の開始・停止後にキャッシュを破棄
+ */
+export function clearPromptExperimentCache(): void {
+  cache.clear();
+}
@@ -1,13 +1,30 @@
-import type { PromptTemplate } from '../types';
+import { PromptTemplateModel, extractTemplateVariables } from '@/lib/db/models/prompt-template';
+import { Logger } from '@/lib/utils/logger';
+import type { PromptTemplate, PromptTemplateDefinition, RenderedPrompt } from '../types';
+import { DEFAULT_PROMPT_TEMPLATES } from './defaults';
+
+// テンプレートをDBから再読み込みするまでの間隔
+const CACHE_TTL_MS = 60 * 1000;
+
+function fromDefinition(definition: PromptTemplateDefinition): PromptTemplate {
+  return {
+    ...definition,
+    variables: extractTemplateVariables(definition.systemPrompt, definition.template),
+    version: 0,
+  };
+}
 
 // プロンプトテンプレート管理クラス
+// テンプレートはDBのバージョン管理されたものを使い、DBに接続できない場合はコードの既定値を使う
 export class PromptManager {
   private static instance: PromptManager;
-  private templates: Map<string, PromptTemplate> = new Map();
+  private logger = new Logger('PromptManager');
+  private cache: { templates: Map<string, PromptTemplate>; expiresAt: number } | null = null;
+  // バージョンは作成後に変更されないため、読み込んだものは破棄しない
+  private versions = new Map<string, PromptTemplate>();
+  private seeded = false;
 
-  private constructor() {
-    this.loadDefaultTemplates();
-  }
+  private constructor() {}
 
   public static getInstance(): PromptManager {
     if (!PromptManager.instance) {
@@ -16,370 +33,149 @@ export class PromptManager {
     return PromptManager.instance;
   }
 
-  private loadDefaultTemplates(): void {
-    const defaultTemplates: PromptTemplate[] = [
-      {
-        id: 'search-query-generation',
-        name: '検索クエリ生成',
-        description: 'ユーザープロファイルに基づいて最適な検索クエリを生成',
-        template: SEARCH_QUERY_TEMPLATE,
-        variables: ['userInterests', 'techLevel', 'recentTopics', 'contentTypes', 'language'],
-        category: 'search',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        id: 'content-quality-evaluation',
-        name: 'コンテンツ品質評価',
-        description: 'コンテンツの品質を多角的に評価してスコアを算出',
-        template: CONTENT_QUALITY_TEMPLATE,
-        variables: ['title', 'summary', 'source', 'publishedAt', 'contentType'],
-        category: 'evaluation',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        id: 'interest-score-calculation',
-        name: '興味度スコア計算',
-        description: 'ユーザーの興味に基づいてコンテンツの関心度を計算',
-        template: INTEREST_SCORE_TEMPLATE,
-        variables: ['content', 'userProfile', 'recentActivity'],
-        category: 'evaluation',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        id: 'category-classification',
-        name: 'カテゴリ分類',
-        description: 'コンテンツを適切なカテゴリに自動分類',
-        template: CATEGORY_CLASSIFICATION_TEMPLATE,
-        variables: ['title', 'summary', 'availableCategories'],
-        category: 'classification',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        id: 'tag-generation',
-        name: 'タグ生成',
-        description: 'コンテンツから関連タグを自動生成',
-        template: TAG_GENERATION_TEMPLATE,
-        variables: ['title', 'summary', 'content', 'maxTags'],
-        category: 'classification',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-      {
-        id: 'article-generation',
-        name: '記事生成',
-        description: '複数のソースから統合記事を生成',
-        template: ARTICLE_GENERATION_TEMPLATE,
-        variables: ['sources', 'userProfile', 'targetLength', 'style'],
-        category: 'generation',
-        version: '1.0.0',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString(),
-      },
-    ];
-
-    defaultTemplates.forEach((template) => {
-      this.templates.set(template.id, template);
-    });
-  }
-
-  getTemplate(id: string): PromptTemplate | null {
-    return this.templates.get(id) || null;
+  async getTemplate(id: string): Promise<PromptTemplate | null> {
+    return (await this.loadTemplates()).get(id) || null;
   }
 
-  getAllTemplates(): PromptTemplate[] {
-    return Array.from(this.templates.values());
+  async getAllTemplates(): Promise<PromptTemplate[]> {
+    return Array.from((await this.loadTemplates()).values());
   }
 
-  getTemplatesByCategory(category: PromptTemplate['category']): PromptTemplate[] {
-    return Array.from(this.templates.values()).filter((template) => template.category === category);
+  getDefaultTemplate(id: string): PromptTemplateDefinition | null {
+    return DEFAULT_PROMPT_TEMPLATES.find((template) => template.id === id) || null;
   }
 
-  // テンプレートに変数を埋め込む
-  renderTemplate(templateId: string, variables: Record<string, string>): string {
-    const template = this.getTemplate(templateId);
-    if (!template) {
-      throw new Error(`Template not found: ${templateId}`);
+  /**
+   * 指定したバージョンのテンプレート（A/Bテスト用）
+   */
+  async getTemplateVersion(id: string, version: number): Promise<PromptTemplate | null> {
+    const active = await this.getTemplate(id);
+    if (!active || active.version === version) {
+      return active;
     }
 
-    let rendered = template.template;
+    const key = `${id}:${version}`;
+    const cached = this.versions.get(key);
+    if (cached) {
+      return cached;
+    }
 
-    // 変数を置換
-    template.variables.forEach((variable) => {
-      const value = variables[variable];
-      if (value === undefined) {
-        throw new Error(
-          `Required variable '${variable}' not provided for template '${templateId}'`
-        );
-      }
+    const stored = await PromptTemplateModel.findVersion(id, version);
+    if (!stored) {
+      return null;
+    }
 
-      const regex = new RegExp(`{{${variable}}}`, 'g');
-      rendered = rendered.replace(regex, value);
-    });
+    const template: PromptTemplate = {
+      ...active,
+      systemPrompt: stored.systemPrompt,
+      template: stored.template,
+      variables: stored.variables,
+      version: stored.version,
+    };
+    this.versions.set(key, template);
+    return template;
+  }
 
-    // 未置換の変数がないかチェック
-    const unreplacedVars = rendered.match(/{{[^}]+}}/g);
-    if (unreplacedVars) {
+  /**
+   * テンプレートに変数を埋め込む（バージョン省略時は使用中のバージョン）
+   */
+  async render(
+    templateId: string,
+    variables: Record<string, string>,
+    options: { version?: number } = {}
+  ): Promise<RenderedPrompt> {
+    const template =
+      options.version === undefined
+        ? await this.getTemplate(templateId)
+        : await this.getTemplateVersion(templateId, options.version);
+    if (!template) {
       throw new Error(
-        `Unresolved variables in template '${templateId}': ${unreplacedVars.join(', ')}`
+        options.version === undefined
+          ? `Template not found: ${templateId}`
+          : `Template not found: ${templateId} (version ${options.version})`
       );
     }
 
-    return rendered;
+    return {
+      templateId,
+      version: template.version,
+      system: this.fill(template, template.systemPrompt, variables),
+      user: this.fill(template, template.template, variables),
+    };
   }
 
-  // カスタムテンプレートの追加/更新
-  addTemplate(template: Omit<PromptTemplate, 'createdAt' | 'updatedAt'>): void {
-    const fullTemplate: PromptTemplate = {
-      ...template,
-      createdAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
-    this.templates.set(template.id, fullTemplate);
+  /**
+   * テンプレートを編集した後にキャッシュを破棄
+   */
+  clearCache(): void {
+    this.cache = null;
   }
 
-  updateTemplate(id: string, updates: Partial<PromptTemplate>): void {
-    const existing = this.templates.get(id);
-    if (!existing) {
-      throw new Error(`Template not found: ${id}`);
+  private fill(template: PromptTemplate, text: string, variables: Record<string, string>): string {
+    // 変数名として解釈できない {{...}} は書き間違いとして扱う
+    // （埋め込む値に含まれる {{...}} は検査しない）
+    const malformed = text.match(/{{(?!\s*[\w.-]+\s*}})[^}]*}}/g);
+    if (malformed) {
+      throw new Error(`Unresolved variables in template '${template.id}': ${malformed.join(', ')}`);
     }
 
-    const updated: PromptTemplate = {
-      ...existing,
-      ...updates,
-      updatedAt: new Date().toISOString(),
-    };
-    this.templates.set(id, updated);
+    // 置換後の値に含まれる $& 等が解釈されないよう関数で置換する
+    return text.replace(/{{\s*([\w.-]+)\s*}}/g, (_placeholder, name: string) => {
+      const value = variables[name];
+      if (value === undefined) {
+        throw new Error(`Required variable '${name}' not provided for template '${template.id}'`);
+      }
+      return value;
+    });
   }
-}
-
-// プロンプトテンプレート定義
-const SEARCH_QUERY_TEMPLATE = `
-あなたは最新情報に精通した検索エキスパートです。
-以下のユーザープロファイルに基づいて、最も効果的な検索クエリを生成してください。
 
-# ユーザープロファイル
-- 興味分野: {{userInterests}}
-- 最近の関心事: {{recentTopics}}
-- 好むコンテンツタイプ: {{contentTypes}}
-- 言語設定: {{language}}
-
-# 要件
-1. 各検索ソース（Google検索API）に最適化されたクエリを生成
-2. ${new Date().toISOString()}時点での最新の情報とトレンドを捉えられるようにする
-3. 重複を避け、多様な観点でクエリを作成
-
-# 出力形式
-JSON形式で以下の構造で出力してください：
-{
-  "queries": [
-    {
-      "query": "検索クエリ文字列",
-      "source": "対象ソース",
-      "priority": 1-10,
-      "keywords": ["キーワード1", "キーワード2"]
+  private async loadTemplates(): Promise<Map<string, PromptTemplate>> {
+    if (this.cache && Date.now() < this.cache.expiresAt) {
+      return this.cache.templates;
     }
-  ],
-  "reasoning": "クエリ選択の理由"
-}
-`;
-
-const CONTENT_QUALITY_TEMPLATE = `
-あなたは記事コンテンツの品質評価エキスパートです。
-以下のコンテンツを多角的に評価し、品質スコア（1-10）を算出してください。
-
-# 評価対象コンテンツ
-- タイトル: {{title}}
-- 要約: {{summary}}
-- ソース: {{source}}
-- 公開日: {{publishedAt}}
-- コンテンツタイプ: {{contentType}}
-
-# 評価基準
-1. **正確性** (25%): 正確性、事実の信頼性
-2. **関連性** (20%): 現在のトレンドや重要性との関連
-3. **新鮮さ** (20%): 情報の新しさ、時代に即しているか
-4. **深度** (20%): 内容の深さ、詳細さ、専門性
-5. **可読性** (15%): 理解しやすさ、構造の明確さ
-
-# 出力形式
-JSON形式で以下の構造で出力してください：
-{
-  "qualityScore": 8.5,
-  "reasoning": "評価の詳細理由",
-  "factors": {
-    "accuracy": 9,
-    "relevance": 8,
-    "freshness": 9,
-    "depth": 8,
-    "readability": 8
-  },
-  "flags": ["potential_bias", "outdated_info"]
-}
-`;
-
-const INTEREST_SCORE_TEMPLATE = `
-あなたはユーザーの興味を分析するエキスパートです。
-以下のコンテンツが指定されたユーザーにとってどれだけ興味深いかを1-10で評価してください。
-
-# コンテンツ情報
-{{content}}
-
-# ユーザープロファイル
-{{userProfile}}
-
-# 最近のアクティビティ
-{{recentActivity}}
-
-# 評価基準
-1. **トピックの関連性** (50%): ユーザーの興味分野との合致度
-2. **新規性** (30%): ユーザーにとって新しい情報・視点か
-3. **実用性** (20%): 実際に役立つ、行動に移せる内容か
-
-# 出力形式
-JSON形式で以下の構造で出力してください：
-{
-  "score": 8,
-  "reasoning": "スコア算出の詳細理由",
-  "factors": {
-    "topicRelevance": 9,
-    "difficultyMatch": 8,
-    "novelty": 7,
-    "actionability": 8
-  },
-  "matchedKeywords": ["React", "TypeScript", "performance"]
-}
-`;
-
-const CATEGORY_CLASSIFICATION_TEMPLATE = `
-以下のコンテンツを最適なカテゴリに分類してください。
-
-# コンテンツ
-- タイトル: {{title}}
-- 要約: {{summary}}
-
-# 利用可能カテゴリ
-{{availableCategories}}
-
-# 分類基準
-- 主要なトピックに基づいて分類
-- 最も関連性の高いカテゴリを選択
-- 不明な場合は「その他」を選択
-
-# 出力形式
-JSON形式で以下の構造で出力してください：
-{
-  "category": "選択されたカテゴリ名",
-  "confidence": 0.85,
-  "alternativeCategories": [
-    {"name": "代替カテゴリ1", "confidence": 0.15},
-    {"name": "代替カテゴリ2", "confidence": 0.10}
-  ],
-  "reasoning": "分類理由の説明"
-}
-`;
-
-const TAG_GENERATION_TEMPLATE = `
-以下のコンテンツから関連タグを生成してください。
 
-# コンテンツ
-- タイトル: {{title}}
-- 要約: {{summary}}
-- 本文（一部）: {{content}}
+    const templates = new Map(
+      DEFAULT_PROMPT_TEMPLATES.map((definition) => [definition.id, fromDefinition(definition)])
+    );
+
+    try {
+      if (!this.seeded) {
+        const created = await PromptTemplateModel.seedDefaults(DEFAULT_PROMPT_TEMPLATES);
+        if (created > 0) {
+          this.logger.info('Seeded default prompt templates', { created });
+        }
+        this.seeded = true;
+      }
 
-# 要件
-- 最大{{maxTags}}個のタグを生成
-- 技術名、概念、難易度、コンテンツタイプなど多様な観点でタグ付け
-- 一般的すぎるタグは避ける
-- 英語タグと日本語タグの両方を考慮
+      for (const { template, version } of await PromptTemplateModel.findActiveVersions()) {
+        templates.set(template.id, {
+          id: template.id,
+          name: template.name,
+          description: template.description,
+          category: template.category as PromptTemplate['category'],
+          systemPrompt: version.systemPrompt,
+          template: version.template,
+          availableVariables: this.getDefaultTemplate(template.id)?.availableVariables ?? [],
+          variables: version.variables,
+          version: version.version,
+        });
+      }
 
-# 出力形式
-JSON形式で以下の構造で出力してください：
-{
-  "tags": [
-    {
-      "name": "React",
-      "relevance": 0.95,
-      "type": "technology"
-    },
-    {
-      "name": "中級者向け",
-      "relevance": 0.80,
-      "type": "difficulty"
+      this.cache = { templates, expiresAt: Date.now() + CACHE_TTL_MS };
+    } catch (error) {
+      this.logger.warn('Failed to load prompt templates, using defaults', {
+        error: error instanceof Error ? error.message : String(error),
+      });
     }
-  ],
-  "reasoning": "タグ選択の理由"
-}
-`;
-
-const ARTICLE_GENERATION_TEMPLATE = `
-あなたはユーザーの興味を引く記事をキュレーションする専門家です。
-1. 提供された情報源を基に、ユーザーが興味を持ちそうな記事を選定して下さい。
-2. 選定した各記事を個別に紹介するキュレーション記事を作成してください。
-
-# 情報源
-{{sources}}
-
-# 読者プロファイル
-{{userProfile}}
-
-# 記事要件
-- 文体: {{style}}
-- Markdown形式で出力
-- 各情報源を個別にリスト形式で紹介
-- 統合・要約はしない
-
-# 重要な指示
-1. タイトルは情報源を抽象化して要約する
-2. 導入文は2文程度で簡潔に
-3. 本文は提供された各記事を以下の形式で羅列する：
 
-## [記事タイトル](記事URL)
-記事の内容について1-3行程度で要約。何を学べるか、なぜ有用かを簡潔に説明。
-
-4. まとめや結論は不要
-5. 各記事を独立して紹介し、全体をまとめたテーマで統合しない
-
-# 出力例
-今週注目の情報をキュレーションしました。各ページから最新の動向をお楽しみください。
-
-## [React Server Components入門](https://example.com/rsc-intro)
-React Server Componentsの基本概念と実装方法について解説。サーバーサイドレンダリングとの違いや実際のコード例も含まれており、Next.jsでの活用方法も紹介されています。
+    return templates;
+  }
+}
 
-## [TypeScript 5.4の新機能](https://example.com/ts-5-4)
-最新のTypeScriptで追加されたnoUncheckedIndexedAccessオプションについて詳しく解説。型安全性の向上と実際の開発での活用シーンが具体的に説明されています。
+const promptManager = PromptManager.getInstance();
 
-# 出力形式
-JSON形式で以下の構造で出力してください：
-{
-  "title": "キュレーションタイトル",
-  "summary": "2文程度の導入文",
-  "content": "Markdown形式の本文（各記事を## [タイトル](URL)形式で個別紹介）",
-  "category": "適切なカテゴリ",
-  "tags": ["タグ1", "タグ2"],
-  "sources": [
-    {
-      "url": "https://...",
-      "title": "ソースタイトル",
-      "relevance": 0.9
-    }
-  ],
-  "confidence": 0.85,
-  "metadata": {
-    "wordCount": 400,
-    "readingTime": 2,
-    "difficulty": "intermediate",
-    "contentType": "curation"
-  }
+export function clearPromptCache(): void {
+  promptManager.clearCache();
 }
-`;
 
-export default PromptManager.getInstance();
+export default promptManager;
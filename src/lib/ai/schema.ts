@@ -16,15 +16,38 @@ export const InterestScoreSchema = z.object({
   reasoning: z.string(),
 });
 
+// コンテンツ品質評価のレスポンススキーマ
+export const ContentQualitySchema = z.object({
+  qualityScore: z.number().min(0).max(10),
+  reasoning: z.string(),
+  factors: z.record(z.number()).optional(),
+  flags: z.array(z.string()).default([]),
+});
+
 // カテゴリ分類のレスポンススキーマ
 export const CategoryClassificationSchema = z.object({
   category: z.string(),
   confidence: z.number().min(0).max(1),
 });
 
+// 検索クエリ生成のレスポンススキーマ（優先度等の欠けた項目は整形時に補う）
+export const SearchQueryResponseSchema = z.object({
+  queries: z.array(
+    z.object({
+      query: z.string(),
+      category: z.string(),
+      priority: z.number().optional(),
+      reasoning: z.string().optional(),
+      sources: z.array(z.string()).optional(),
+    })
+  ),
+});
+
 // 検索リクエストスキーマ
 export const IntelligentCollectionSchema = z.object({
   userId: z.string().optional(),
+  // バッチ処理から呼ばれた場合のジョブID（LLMの使用量の記録に使う）
+  collectionJobId: z.string().uuid().optional(),
   options: z
     .object({
       queryCount: z.number().min(1).max(10).default(5),
@@ -32,6 +55,11 @@ export const IntelligentCollectionSchema = z.object({
       includeLatestTrends: z.boolean().default(true),
       focusAreas: z.array(z.string()).default([]),
       searchDepth: z.enum(['surface', 'intermediate', 'deep']).default('intermediate'),
+      includeUsedItems: z.boolean().default(false),
+      // NEWS_API_KEYが設定されている場合、生成した検索クエリでNewsAPIも検索する
+      includeNews: z.boolean().default(true),
+      // 未指定の場合はQUALITY_GATE_MIN_SCORE
+      minQualityScore: z.number().min(0).max(10).optional(),
     })
-    .optional(),
+    .default({}),
 });
@@ -1,9 +1,12 @@
 import PromptManager from '../prompts';
+import { selectPromptVariant } from '../prompts/experiments';
 import {
+  ArticleGenerationInfo,
   CategoryClassification,
   GeneratedArticle,
   InterestScore,
   RawContentData,
+  RenderedPrompt,
   UserProfile,
 } from '../types';
 import {
@@ -11,165 +14,150 @@ import {
   GeneratedArticleSchema,
   InterestScoreSchema,
 } from '../schema';
-import { model, openai } from '../openai';
+import {
+  completeStructured,
+  llmProvider,
+  type LlmProvider,
+  type LlmUsageScope,
+  type StructuredOutput,
+} from '../llm';
 import { formatUserProfile } from '../utiles';
 
+// プロンプトに含めるソース1件あたりの本文の最大文字数
+const SOURCE_TEXT_LIMIT = 3000;
+
 export class ArticleGenerator {
+  constructor(
+    private llm: LlmProvider = llmProvider,
+    // 使用量の記録に付与するユーザー・ジョブ等
+    private usageScope: LlmUsageScope = {}
+  ) {}
+
+  /**
+   * 使用しているモデル名
+   */
+  get model(): string {
+    return this.llm.model;
+  }
+
   /**
    * 複数の情報源から記事を生成
    */
   async generateArticle(
     sources: RawContentData[],
     userProfile: UserProfile
-  ): Promise<GeneratedArticle> {
-    const prompt = this.buildArticleGenerationPrompt(sources, userProfile);
-
+  ): Promise<GeneratedArticle & { generation: ArticleGenerationInfo }> {
     try {
-      const response = await openai.chat.completions.create({
-        model: model,
+      // A/Bテスト中の場合は割り当てられたバージョンのプロンプトを使う
+      const variant = await selectPromptVariant('article-generation');
+      const prompt = await this.buildArticleGenerationPrompt(
+        sources,
+        userProfile,
+        variant?.version
+      );
+      const { data, model } = await completeStructured(this.llm, {
+        schema: GeneratedArticleSchema,
         messages: [
           {
             role: 'system',
-            content: 'あなたはプロのWebライターです。読者の興味を引く記事を作成してください。',
+            content: prompt.system,
           },
           {
             role: 'user',
-            content: prompt,
+            content: prompt.user,
           },
         ],
-        response_format: { type: 'json_object' },
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
+        usage: { ...this.usageScope, operation: 'article-generation' },
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
-
-      const parsedResponse = JSON.parse(content);
-      return GeneratedArticleSchema.parse(parsedResponse);
+      return {
+        ...data,
+        generation: {
+          promptTemplateId: prompt.templateId,
+          promptVersion: prompt.version,
+          model: model ?? this.model,
+          experimentId: variant?.experimentId ?? null,
+          variantId: variant?.variantId ?? null,
+        },
+      };
     } catch (error) {
-      console.error('OpenAI article generation error:', error);
+      console.error('Article generation error:', error);
       throw new Error('Failed to generate article');
     }
   }
 
   /**
-   * コンテンツの興味度スコアを計算
+   * コンテンツの興味度スコアを計算（取得できない場合は既定値、fallbackUsedがtrueになる）
    */
   async calculateInterestScore(
     content: RawContentData,
     userProfile: UserProfile
-  ): Promise<InterestScore> {
-    const userInfo = formatUserProfile(userProfile);
-    const prompt = `
-    以下のコンテンツについて、ユーザーの興味度を0-10のスコアで評価してください。
-
-    ユーザープロフィール:
-    - 興味分野: ${userInfo}
-    - 好むスタイル: ${userProfile.profile?.preferredStyle}
-
-    コンテンツ:
-    - タイトル: ${content.title}
-    - 要約: ${content.summary}
-    - ソース: ${content.source}
-
-    以下のJSON形式で回答してください:
-    {
-      "score": 数値（0-10）,
-      "reasoning": "スコアの理由"
-    }`;
-
-    try {
-      const response = await openai.chat.completions.create({
-        model: model,
-        messages: [
-          {
-            role: 'system',
-            content: 'あなたはコンテンツ評価の専門家です。',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.3,
-        max_tokens: 200,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
+  ): Promise<StructuredOutput<InterestScore>> {
+    const prompt = await PromptManager.render('interest-score-calculation', {
+      content: [
+        `- タイトル: ${content.title}`,
+        `- 要約: ${content.summary}`,
+        `- ソース: ${content.source}`,
+      ].join('\n'),
+      userProfile: formatUserProfile(userProfile),
+    });
 
-      const parsedResponse = JSON.parse(content);
-      return InterestScoreSchema.parse(parsedResponse);
-    } catch (error) {
-      console.error('OpenAI interest score error:', error);
-      // エラー時はデフォルト値を返す
-      return {
+    return completeStructured(this.llm, {
+      schema: InterestScoreSchema,
+      fallback: () => ({
         score: 5,
         reasoning: 'Could not calculate interest score',
-      };
-    }
+      }),
+      messages: [
+        {
+          role: 'system',
+          content: prompt.system,
+        },
+        {
+          role: 'user',
+          content: prompt.user,
+        },
+      ],
+      temperature: 0.3,
+      maxTokens: 200,
+      usage: { ...this.usageScope, operation: 'interest-score-calculation' },
+    });
   }
 
   /**
-   * コンテンツのカテゴリを分類
+   * コンテンツのカテゴリを分類（分類できない場合は先頭のカテゴリ、fallbackUsedがtrueになる）
    */
   async categorizeContent(
     content: string,
     availableCategories?: string[]
-  ): Promise<CategoryClassification> {
-    const prompt = `
-    以下のコンテンツを、利用可能なカテゴリのいずれかに分類してください。
-
-    コンテンツ:
-    ${content.substring(0, 1000)}...
-
-    利用可能なカテゴリ:
-    ${availableCategories?.join(', ')}
-
-    以下のJSON形式で回答してください:
-    {
-      "category": "選択したカテゴリ名",
-      "confidence": 信頼度（0-1）
-    }`;
-
-    try {
-      const response = await openai.chat.completions.create({
-        model: model,
-        messages: [
-          {
-            role: 'system',
-            content: 'あなたはコンテンツ分類の専門家です。',
-          },
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-        response_format: { type: 'json_object' },
-        temperature: 0.3,
-        max_tokens: 100,
-      });
-
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
+  ): Promise<StructuredOutput<CategoryClassification>> {
+    const prompt = await PromptManager.render('category-classification', {
+      content: `${content.substring(0, 1000)}...`,
+      availableCategories: availableCategories?.join(', ') || 'その他',
+    });
 
-      const parsedResponse = JSON.parse(content);
-      return CategoryClassificationSchema.parse(parsedResponse);
-    } catch (error) {
-      console.error('OpenAI categorization error:', error);
-      return {
+    return completeStructured(this.llm, {
+      schema: CategoryClassificationSchema,
+      fallback: () => ({
         category: availableCategories?.[0] || 'その他',
         confidence: 0.5,
-      };
-    }
+      }),
+      messages: [
+        {
+          role: 'system',
+          content: prompt.system,
+        },
+        {
+          role: 'user',
+          content: prompt.user,
+        },
+      ],
+      temperature: 0.3,
+      maxTokens: 100,
+      usage: { ...this.usageScope, operation: 'category-classification' },
+    });
   }
 
   /**
@@ -177,8 +165,9 @@ export class ArticleGenerator {
    */
   private buildArticleGenerationPrompt(
     sources: RawContentData[],
-    userProfile: UserProfile
-  ): string {
+    userProfile: UserProfile,
+    version?: number
+  ): Promise<RenderedPrompt> {
     const sourcesSection = sources
       .map(
         (source, index) => `
@@ -186,7 +175,13 @@ export class ArticleGenerator {
             - タイトル: ${source.title}
             - URL: ${source.url}
             - 要約: ${source.summary}
-            - 公開日: ${source.publishedAt.toISOString()}
+            - 公開日: ${source.publishedAt?.toISOString() ?? '不明'}${
+              source.fullText
+                ? `
+            - 本文${source.language ? `（${source.language}）` : ''}:
+            ${source.fullText.slice(0, SOURCE_TEXT_LIMIT)}`
+                : ''
+            }
             `
       )
       .join('\n');
@@ -199,11 +194,15 @@ export class ArticleGenerator {
             - 好む記事スタイル: ${userProfile?.profile?.preferredStyle}`;
 
     // プロンプトマネージャーから「article-generation」テンプレートを使用
-    return PromptManager.renderTemplate('article-generation', {
-      sources: sourcesSection,
-      userProfile: userProfileSection,
-      targetLength: '600',
-      style: userProfile?.profile?.preferredStyle || 'balanced',
-    });
+    return PromptManager.render(
+      'article-generation',
+      {
+        sources: sourcesSection,
+        userProfile: userProfileSection,
+        targetLength: '600',
+        style: userProfile?.profile?.preferredStyle || 'balanced',
+      },
+      { version }
+    );
   }
 }
@@ -0,0 +1,179 @@
+import { LLM_CONFIG } from '@/lib/config/llm';
+import { CollectedItemModel, type CollectedItemQuality } from '@/lib/db/models/collected-item';
+import { Logger } from '@/lib/utils/logger';
+import { canonicalizeUrl } from '@/lib/utils/url-canonicalizer';
+import { completeStructured, llmProvider, type LlmProvider, type LlmUsageScope } from '../llm';
+import PromptManager from '../prompts';
+import { ContentQualitySchema } from '../schema';
+
+const TEMPLATE_ID = 'content-quality-evaluation';
+
+export interface QualityEvaluationInput {
+  url: string;
+  title: string;
+  summary: string;
+  source: string;
+  publishedAt: Date | null;
+  type: string;
+}
+
+export interface QualityEvaluation {
+  // 評価できなかった場合はnull（除外はしない）
+  score: number | null;
+  reasoning: string;
+  flags: string[];
+  // 保存済みの評価を再利用した場合はtrue
+  cached: boolean;
+  error?: string;
+}
+
+export type QualityEvaluated<T> = T & { quality: QualityEvaluation };
+
+export interface QualityFilterResult<T> {
+  passed: QualityEvaluated<T>[];
+  rejected: QualityEvaluated<T>[];
+  // LLMで評価した件数・保存済みの評価を使った件数・評価できなかった件数
+  evaluated: number;
+  cacheHits: number;
+  failed: number;
+}
+
+const logger = new Logger('QualityEvaluator');
+
+export class QualityEvaluator {
+  constructor(
+    private llm: LlmProvider = llmProvider,
+    // 使用量の記録に付与するユーザー・ジョブ等
+    private usageScope: LlmUsageScope = {}
+  ) {}
+
+  /**
+   * 1件のコンテンツの品質を評価（保存済みの評価は使わない）
+   */
+  async evaluate(item: QualityEvaluationInput, version?: number): Promise<QualityEvaluation> {
+    try {
+      const prompt = await PromptManager.render(
+        TEMPLATE_ID,
+        {
+          title: item.title,
+          summary: item.summary || '（なし）',
+          source: item.source,
+          publishedAt: item.publishedAt?.toISOString().slice(0, 10) ?? '不明',
+          contentType: item.type,
+        },
+        { version }
+      );
+      const { data } = await completeStructured(this.llm, {
+        schema: ContentQualitySchema,
+        messages: [
+          {
+            role: 'system',
+            content: prompt.system,
+          },
+          {
+            role: 'user',
+            content: prompt.user,
+          },
+        ],
+        temperature: 0.2,
+        maxTokens: 400,
+        usage: { ...this.usageScope, operation: TEMPLATE_ID },
+      });
+
+      return {
+        score: data.qualityScore,
+        reasoning: data.reasoning,
+        flags: data.flags,
+        cached: false,
+      };
+    } catch (error) {
+      logger.warn('Quality evaluation failed', {
+        url: item.url,
+        error: (error as Error).message,
+      });
+      return {
+        score: null,
+        reasoning: '',
+        flags: [],
+        cached: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  /**
+   * 複数のコンテンツを評価（URLごとに保存した評価を、テンプレートのバージョンが変わるまで再利用）
+   */
+  async evaluateMany<T extends QualityEvaluationInput>(items: T[]): Promise<QualityEvaluated<T>[]> {
+    const version = (await PromptManager.getTemplate(TEMPLATE_ID))?.version ?? 0;
+
+    let stored = new Map<string, CollectedItemQuality>();
+    try {
+      stored = await CollectedItemModel.findQualityScores(
+        items.map((item) => item.url),
+        version
+      );
+    } catch (error) {
+      logger.warn('Failed to load stored quality scores', { error: (error as Error).message });
+    }
+
+    const results: QualityEvaluation[] = items.map((item) => {
+      const quality = stored.get(canonicalizeUrl(item.url));
+      return quality
+        ? { score: quality.score, reasoning: quality.reasoning, flags: quality.flags, cached: true }
+        : { score: null, reasoning: '', flags: [], cached: false };
+    });
+
+    const pending = items
+      .map((item, index) => ({ item, index }))
+      .filter(({ index }) => !results[index].cached);
+    const { concurrency } = LLM_CONFIG.qualityGate;
+
+    for (let i = 0; i < pending.length; i += concurrency) {
+      await Promise.all(
+        pending.slice(i, i + concurrency).map(async ({ item, index }) => {
+          const evaluation = await this.evaluate(item, version);
+          results[index] = evaluation;
+
+          if (evaluation.score !== null) {
+            await CollectedItemModel.saveQualityScore(item.url, {
+              score: evaluation.score,
+              reasoning: evaluation.reasoning,
+              flags: evaluation.flags,
+              promptVersion: version,
+            }).catch((error) => {
+              logger.warn('Failed to store quality score', {
+                url: item.url,
+                error: (error as Error).message,
+              });
+            });
+          }
+        })
+      );
+    }
+
+    return items.map((item, index) => ({ ...item, quality: results[index] }));
+  }
+
+  /**
+   * スコアが下限未満のコンテンツを除外（評価できなかったものは残す）
+   */
+  async filterByQuality<T extends QualityEvaluationInput>(
+    items: T[],
+    minScore: number = LLM_CONFIG.qualityGate.minScore
+  ): Promise<QualityFilterResult<T>> {
+    const evaluated = await this.evaluateMany(items);
+    const isRejected = (item: QualityEvaluated<T>) =>
+      item.quality.score !== null && item.quality.score < minScore;
+
+    return {
+      passed: evaluated.filter((item) => !isRejected(item)),
+      rejected: evaluated.filter(isRejected),
+      evaluated: evaluated.filter((item) => !item.quality.cached).length,
+      cacheHits: evaluated.filter((item) => item.quality.cached).length,
+      failed: evaluated.filter((item) => item.quality.error).length,
+    };
+  }
+}
+
+export const qualityEvaluator = new QualityEvaluator();
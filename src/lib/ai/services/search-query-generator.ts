@@ -1,8 +1,16 @@
-import { openai } from '../openai';
-import { UserProfile, SearchQuery } from '../types';
+import { completeStructured, llmProvider, type LlmProvider, type LlmUsageScope } from '../llm';
+import PromptManager from '../prompts';
+import { SearchQueryResponseSchema } from '../schema';
+import { RenderedPrompt, UserProfile, SearchQuery, SearchQueryResponse } from '../types';
 import { formatUserProfile } from '../utiles';
 
 export class SearchQueryGenerator {
+  constructor(
+    private llm: LlmProvider = llmProvider,
+    // 使用量の記録に付与するユーザー・ジョブ等
+    private usageScope: LlmUsageScope = {}
+  ) {}
+
   /**
    * ユーザーの興味プロファイルから検索クエリを生成
    */
@@ -17,36 +25,29 @@ export class SearchQueryGenerator {
 
     // Processing user profile for search query generation
     try {
-      const prompt = this.buildSearchQueryPrompt(userProfile, {
+      const prompt = await this.buildSearchQueryPrompt(userProfile, {
         count,
         focusAreas,
       });
 
-      const response = await openai.chat.completions.create({
-        model: 'gpt-4o-mini',
+      const { data } = await completeStructured(this.llm, {
+        schema: SearchQueryResponseSchema,
         messages: [
           {
             role: 'system',
-            content:
-              'あなたは情報収集の専門家です。ユーザーの興味に基づいて最適な検索クエリを生成してください。',
+            content: prompt.system,
           },
           {
             role: 'user',
-            content: prompt,
+            content: prompt.user,
           },
         ],
-        response_format: { type: 'json_object' },
         temperature: 0.7,
-        max_tokens: 1500,
+        maxTokens: 1500,
+        usage: { ...this.usageScope, operation: 'search-query-generation' },
       });
 
-      const content = response.choices[0]?.message?.content;
-      if (!content) {
-        throw new Error('No response from OpenAI');
-      }
-
-      const result = JSON.parse(content);
-      return this.validateAndFormatQueries(result.queries || []);
+      return this.validateAndFormatQueries(data.queries);
     } catch (error) {
       console.error('Search query generation error:', error);
       return [];
@@ -62,45 +63,18 @@ export class SearchQueryGenerator {
       count: number;
       focusAreas: string[];
     }
-  ): string {
-    const userInfo = formatUserProfile(userProfile);
-
-    return `
-${userInfo}
-
-タスク: 上記のユーザープロファイルに基づいて、${options.count}個の検索クエリを生成してください。
-
-要件:
-- ユーザーの興味分野を考慮
-- 実用的で具体的なクエリ
-- 多様性のある検索内容
-
-!!重要!!
-- 年代や日付などの情報をクエリに含めない
-
-以下のJSON形式で回答してください:
-{
-  "queries": [
-    {
-      "query": "具体的な検索クエリ（日本語または英語）",
-      "category": "カテゴリ名",
-      "priority": 1-10の数値（高いほど重要）,
-      "reasoning": "このクエリを選んだ理由",
-    }
-  ]
-}
-
-検索クエリの例:
-- "React Server Components 実装方法"
-- "TypeScript 5.0 新機能 実用例"
-- "Next.js 14 App Router パフォーマンス最適化"
-`;
+  ): Promise<RenderedPrompt> {
+    return PromptManager.render('search-query-generation', {
+      userProfile: formatUserProfile(userProfile),
+      count: String(options.count),
+      focusAreas: options.focusAreas.join(', ') || '指定なし',
+    });
   }
 
   /**
    * 生成されたクエリを検証・整形
    */
-  private validateAndFormatQueries(queries: any[]): SearchQuery[] {
+  private validateAndFormatQueries(queries: SearchQueryResponse['queries']): SearchQuery[] {
     return queries
       .filter((q) => q.query && q.category)
       .map((q) => ({
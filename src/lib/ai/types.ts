@@ -3,6 +3,8 @@ import {
   GeneratedArticleSchema,
   InterestScoreSchema,
   CategoryClassificationSchema,
+  ContentQualitySchema,
+  SearchQueryResponseSchema,
 } from './schema';
 
 // AI関連の型定義
@@ -45,25 +47,56 @@ export interface SearchQuery {
 export type GeneratedArticle = z.infer<typeof GeneratedArticleSchema>;
 export type InterestScore = z.infer<typeof InterestScoreSchema>;
 export type CategoryClassification = z.infer<typeof CategoryClassificationSchema>;
+export type ContentQuality = z.infer<typeof ContentQualitySchema>;
+export type SearchQueryResponse = z.infer<typeof SearchQueryResponseSchema>;
 
 // プロンプト管理用の型
-export interface PromptTemplate {
+export type PromptCategory = 'search' | 'evaluation' | 'generation' | 'classification';
+
+export interface PromptTemplateDefinition {
   id: string;
   name: string;
   description: string;
+  category: PromptCategory;
+  systemPrompt: string;
   template: string;
+  // コードから渡される変数（テンプレートで使用できる変数）
+  availableVariables: string[];
+}
+
+export interface PromptTemplate extends PromptTemplateDefinition {
+  // テンプレート中の {{変数}}
   variables: string[];
-  category: 'search' | 'evaluation' | 'generation' | 'classification';
-  version: string;
-  createdAt: string;
-  updatedAt: string;
+  // DBのバージョン番号（DBから読み込めずコードの既定値を使った場合は0）
+  version: number;
+}
+
+export interface RenderedPrompt {
+  templateId: string;
+  version: number;
+  system: string;
+  user: string;
+}
+
+// 記事の生成に使用したプロンプトとモデル
+export interface ArticleGenerationInfo {
+  promptTemplateId: string;
+  promptVersion: number;
+  model: string;
+  // A/Bテスト中の場合の実験とバリアント
+  experimentId: string | null;
+  variantId: string | null;
 }
 
 export interface RawContentData {
   title: string;
   url: string;
   summary: string;
-  publishedAt: Date;
+  // 公開日が分からない場合はnull（metadata.dateUnknown を付ける）
+  publishedAt: Date | null;
   source: string;
   type: string;
+  fullText?: string;
+  language?: string;
+  metadata?: Record<string, unknown>;
 }
@@ -20,6 +20,87 @@ export const uuidParamSchema = z.object({
   id: z.string().uuid(),
 });
 
+// フィードソース登録・更新用のスキーマ
+export const FeedSourceSchema = z.object({
+  url: z.string().url().max(2000),
+  name: z.string().min(1).max(200),
+  category: z.string().min(1).max(100),
+  description: z.string().max(1000).nullable().optional(),
+  priority: z.number().int().min(1).max(10).default(5),
+  active: z.boolean().default(true),
+});
+
+// URL取り込み（ブックマークレット・共有メニュー）用のスキーマ
+export const IngestRequestSchema = z.object({
+  urls: z.array(z.string().url().max(2000)).min(1).max(20),
+  note: z.string().max(2000).optional(),
+  tags: z.array(z.string().min(1).max(50)).max(20).default([]),
+  generateArticle: z.boolean().default(false),
+});
+
+// OPMLインポート用のスキーマ（dryRunの場合はプレビューのみ）
+export const OpmlImportSchema = z.object({
+  opml: z.string().min(1).max(1024 * 1024),
+  dryRun: z.boolean().default(true),
+});
+
+// ドメインルール登録・更新用のスキーマ（userIdがnullの場合は全ユーザー共通）
+export const DomainRuleSchema = z.object({
+  domain: z.string().min(1).max(255),
+  action: z.enum(['boost', 'neutral', 'block']),
+  weight: z.number().min(-1).max(1).default(0.2),
+  note: z.string().max(500).nullable().optional(),
+  userId: z.string().uuid().nullable().optional(),
+});
+
+// ページ監視（サイトマップ・変更履歴ページ）登録・更新用のスキーマ
+export const PageWatchSchema = z.object({
+  url: z.string().url().max(2000),
+  name: z.string().min(1).max(200),
+  kind: z.enum(['sitemap', 'changelog']),
+  category: z.string().min(1).max(100),
+  active: z.boolean().default(true),
+});
+
+// プロンプトテンプレートの新バージョン作成用のスキーマ（activateの場合は保存と同時に使用中にする）
+export const PromptTemplateVersionSchema = z.object({
+  systemPrompt: z.string().max(10000),
+  template: z.string().min(1).max(50000),
+  note: z.string().max(500).nullable().optional(),
+  createdBy: z.string().max(200).nullable().optional(),
+  activate: z.boolean().default(true),
+});
+
+// 使用するプロンプトテンプレートのバージョンの切り替え用のスキーマ
+export const PromptTemplateActivateSchema = z.object({
+  activeVersion: z.number().int().min(1),
+});
+
+// プロンプトA/Bテスト作成用のスキーマ（バリアントごとにバージョンと振り分けの比率を指定）
+export const PromptExperimentSchema = z.object({
+  name: z.string().min(1).max(200),
+  templateId: z.string().min(1).max(100),
+  variants: z
+    .array(
+      z.object({
+        version: z.number().int().min(1),
+        weight: z.number().positive().max(100),
+      })
+    )
+    .min(2)
+    .max(5),
+});
+
+// プロンプトA/Bテストの開始・停止用のスキーマ
+export const PromptExperimentStatusSchema = z.object({
+  status: z.enum(['running', 'stopped']),
+});
+
+// LLM利用料金の集計期間（日数）のクエリスキーマ
+export const llmUsageQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).optional().default(30),
+});
+
 // クエリパラメータの安全な解析
 export function parseSearchParams<T extends z.ZodType>(
   searchParams: URLSearchParams,
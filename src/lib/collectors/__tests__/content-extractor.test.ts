@@ -0,0 +1,94 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { ContentExtractor, detectCharset } from '../content-extractor';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name));
+
+describe('ContentExtractor.extract', () => {
+  const extractor = new ContentExtractor();
+
+  it('記事本文の段落だけを抽出する', () => {
+    const html = fixture('article-en.html').toString('utf-8');
+    const result = extractor.extract(html, 'https://blog.example.com/posts/postgres-replicas');
+
+    assert.equal(result.title, 'Scaling Postgres read replicas without downtime');
+    assert.equal(result.canonicalUrl, 'https://blog.example.com/posts/postgres-replicas');
+    assert.equal(result.language, 'en');
+    assert.equal(result.publishedAt?.toISOString(), '2026-09-14T08:30:00.000Z');
+    assert.equal(result.truncated, false);
+    assert.deepEqual(result.text.split('\n\n'), [
+      'Scaling Postgres read replicas without downtime',
+      'Last quarter our primary database reached the point where read traffic alone saturated its CPU during peak hours.',
+      'We moved reporting queries to two streaming replicas and routed them with a small connection-aware proxy & a health check.',
+      'Replication lag stayed under 200 ms, and failover drills now finish in less than a minute.',
+    ]);
+  });
+
+  it('ナビゲーション・スクリプト・共有ボタン等は含めない', () => {
+    const html = fixture('article-en.html').toString('utf-8');
+    const { text } = extractor.extract(html, 'https://blog.example.com/posts/postgres-replicas');
+
+    for (const noise of [
+      'All posts',
+      'dataLayer',
+      'cookies',
+      'Share this post',
+      'Related reading',
+      'Copyright',
+    ]) {
+      assert.ok(!text.includes(noise), `${noise} が本文に含まれている`);
+    }
+  });
+
+  it('最大文字数を超える本文は切り詰める', () => {
+    const html = fixture('article-en.html').toString('utf-8');
+    const result = new ContentExtractor({ maxLength: 100 }).extract(
+      html,
+      'https://blog.example.com/'
+    );
+
+    assert.equal(result.text.length, 100);
+    assert.equal(result.truncated, true);
+  });
+
+  it('meta charsetで指定された文字コードで復号したページを抽出する', () => {
+    const body = fixture('article-ja-shift_jis.html');
+    const charset = detectCharset('text/html', body);
+    const result = extractor.extract(
+      new TextDecoder(charset).decode(body),
+      'https://example.jp/report/2026-08'
+    );
+
+    assert.equal(charset, 'shift_jis');
+    assert.equal(result.title, '社内勉強会レポート：型安全なAPI設計');
+    assert.equal(result.language, 'ja');
+    assert.equal(result.publishedAt?.toISOString(), '2026-08-03T00:00:00.000Z');
+    assert.match(result.text, /入力値の検証と型定義を一箇所にまとめる/);
+  });
+});
+
+describe('detectCharset', () => {
+  const utf8Page = fixture('article-en.html');
+  const shiftJisPage = fixture('article-ja-shift_jis.html');
+
+  it('Content-Typeのcharsetを優先する', () => {
+    assert.equal(detectCharset('text/html; charset=EUC-JP', shiftJisPage), 'euc-jp');
+    assert.equal(detectCharset('text/html; charset="windows-1252"', utf8Page), 'windows-1252');
+  });
+
+  it('Content-Typeにない場合は<meta charset>・http-equivを使う', () => {
+    assert.equal(detectCharset('text/html', utf8Page), 'utf-8');
+    assert.equal(detectCharset(null, shiftJisPage), 'shift_jis');
+    assert.equal(
+      detectCharset(null, Buffer.from("<html><head><meta charset='iso-8859-1'></head></html>")),
+      'iso-8859-1'
+    );
+  });
+
+  it('指定がない・対応していない文字コードの場合はUTF-8とみなす', () => {
+    assert.equal(detectCharset(null, Buffer.from('<p>no charset</p>')), 'utf-8');
+    assert.equal(detectCharset('text/html; charset=x-unknown', Buffer.from('')), 'utf-8');
+  });
+});
@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, it } from 'node:test';
+import { HackerNewsCollector, type HackerNewsSearchResponse } from '../hacker-news-collector';
+
+const response: HackerNewsSearchResponse = JSON.parse(
+  readFileSync(join(__dirname, 'fixtures', 'hn-algolia-search.json'), 'utf-8')
+);
+// 記録時刻（created_at_i の絞り込みの基準）
+const recordedAt = new Date('2026-10-19T12:00:00Z');
+
+describe('HackerNewsCollector.parseSearchResponse', () => {
+  const collector = new HackerNewsCollector();
+
+  it('タイトルがない・ポイント不足・期間外のストーリーを除外する', () => {
+    const contents = collector.parseSearchResponse(response, 'postgres', {}, recordedAt);
+
+    assert.deepEqual(
+      contents.map((content) => content.metadata?.hnId),
+      ['45612345', '45609876']
+    );
+  });
+
+  it('ポイント・コメント数をengagementBoostが読むキーで保持する', () => {
+    const [story] = collector.parseSearchResponse(response, 'postgres', {}, recordedAt);
+
+    assert.equal(story.title, 'Postgres 19 Beta 1 Released');
+    assert.equal(
+      story.url,
+      'https://www.postgresql.org/about/news/postgresql-19-beta-1-released-3012/'
+    );
+    assert.equal(story.type, 'hackernews');
+    assert.equal(story.source, 'Hacker News');
+    assert.equal(story.publishedAt?.toISOString(), '2026-10-18T14:05:21.000Z');
+    assert.equal(story.summary, 'Hacker News · 412 points · 187 comments');
+    assert.deepEqual(story.metadata, {
+      points: 412,
+      comments: 187,
+      author: 'jkatz',
+      discussionUrl: 'https://news.ycombinator.com/item?id=45612345',
+      hnId: '45612345',
+      searchQuery: 'postgres',
+    });
+  });
+
+  it('リンクのない投稿は議論ページのURLと本文を使う', () => {
+    const [, askHn] = collector.parseSearchResponse(response, undefined, {}, recordedAt);
+
+    assert.equal(askHn.url, 'https://news.ycombinator.com/item?id=45609876');
+    assert.match(askHn.summary, /^We deploy several times a day .* What tooling/);
+    assert.ok(!askHn.summary.includes('<p>'));
+    assert.equal(askHn.metadata?.searchQuery, undefined);
+  });
+
+  it('絞り込み条件を指定できる', () => {
+    const contents = collector.parseSearchResponse(
+      response,
+      'postgres',
+      { minPoints: 10, maxAgeHours: 24 * 14 },
+      recordedAt
+    );
+
+    assert.deepEqual(
+      contents.map((content) => content.metadata?.hnId),
+      ['45612345', '45609876', '45611111', '45534567']
+    );
+  });
+
+  it('ランキングではポイント・コメント数の多いストーリーを上位にする', () => {
+    const contents = collector.parseSearchResponse(
+      response,
+      'postgres',
+      { minPoints: 0 },
+      recordedAt
+    );
+    const ranked = collector.rankStories(contents, ['postgres']);
+
+    assert.deepEqual(
+      ranked.map((content) => content.metadata?.hnId),
+      ['45612345', '45609876', '45611111']
+    );
+    assert.ok((ranked[0].metadata?.relevanceScore as number) <= 1);
+  });
+});
@@ -0,0 +1,139 @@
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, before, describe, it } from 'node:test';
+import { RedditCollector, type RedditPost } from '../reddit-collector';
+
+const HOUR = 60 * 60;
+const now = Math.floor(Date.now() / 1000);
+
+const post = (overrides: Partial<RedditPost> & Pick<RedditPost, 'id'>): RedditPost => ({
+  title: `Post ${overrides.id}`,
+  url: `https://example.com/${overrides.id}`,
+  permalink: `/r/programming/comments/${overrides.id}/post/`,
+  selftext: '',
+  subreddit: 'programming',
+  author: 'alice',
+  score: 100,
+  num_comments: 10,
+  created_utc: now - HOUR,
+  is_self: false,
+  ...overrides,
+});
+
+const listings: Record<string, RedditPost[]> = {
+  programming: [
+    post({ id: 'top', title: 'Postgres 19 released', score: 420, num_comments: 87 }),
+    post({ id: 'low', title: 'Postgres tips', score: 3 }),
+    post({ id: 'old', title: 'Postgres history', created_utc: now - 3 * 24 * HOUR }),
+    post({ id: 'pinned', title: 'Weekly Postgres thread', stickied: true }),
+  ],
+  webdev: [
+    post({
+      id: 'self',
+      title: 'Ask: Postgres or MySQL?',
+      subreddit: 'webdev',
+      permalink: '/r/webdev/comments/self/ask/',
+      selftext: '',
+      is_self: true,
+      score: 55,
+      num_comments: 120,
+    }),
+    post({ id: 'offtopic', title: 'CSS grid tricks', subreddit: 'webdev' }),
+  ],
+};
+
+describe('RedditCollector（ローカルのスタブサーバー）', () => {
+  let server: Server;
+  let baseUrl: string;
+  const requests: { method?: string; path?: string; authorization?: string }[] = [];
+
+  const readBody = async (req: IncomingMessage) => {
+    let body = '';
+    for await (const chunk of req) body += chunk;
+    return body;
+  };
+
+  before(async () => {
+    server = createServer(async (req, res) => {
+      const url = new URL(req.url || '/', 'http://localhost');
+      requests.push({
+        method: req.method,
+        path: url.pathname,
+        authorization: req.headers.authorization,
+      });
+      res.setHeader('Content-Type', 'application/json');
+
+      if (req.method === 'POST' && url.pathname === '/api/v1/access_token') {
+        const body = new URLSearchParams(await readBody(req));
+        if (body.get('grant_type') !== 'client_credentials') {
+          res.writeHead(400).end(JSON.stringify({ error: 'unsupported_grant_type' }));
+          return;
+        }
+        res.end(JSON.stringify({ access_token: 'stub-token', expires_in: 3600 }));
+        return;
+      }
+
+      const listing = url.pathname.match(/^\/r\/([^/]+)\/(top|hot)$/);
+      if (req.method === 'GET' && listing) {
+        if (req.headers.authorization !== 'Bearer stub-token') {
+          res.writeHead(401).end(JSON.stringify({ error: 401 }));
+          return;
+        }
+        const children = (listings[listing[1]] || []).map((data) => ({ kind: 't3', data }));
+        res.end(JSON.stringify({ data: { children } }));
+        return;
+      }
+
+      res.writeHead(404).end(JSON.stringify({ error: 404 }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('スコア・期間・キーワードで絞り込み、ポイント・コメント数をmetadataに保持する', async () => {
+    const collector = new RedditCollector({
+      clientId: 'client',
+      clientSecret: 'secret',
+      baseUrl: 'https://www.reddit.com',
+      tokenUrl: `${baseUrl}/api/v1/access_token`,
+      oauthUrl: baseUrl,
+      subreddits: ['programming', 'webdev'],
+    });
+
+    const contents = await collector.collect('postgres', 10, { minScore: 10, timeWindow: 'day' });
+
+    // 低スコア・期間外・固定投稿・キーワード不一致を除外し、スコア順に並べる
+    assert.deepEqual(
+      contents.map((content) => content.url),
+      ['https://example.com/top', 'https://www.reddit.com/r/webdev/comments/self/ask/']
+    );
+
+    const [top, self] = contents;
+    assert.equal(top.title, 'Postgres 19 released');
+    assert.equal(top.type, 'reddit');
+    assert.equal(top.source, 'Reddit r/programming');
+    assert.equal(top.summary, 'r/programming · 420 points · 87 comments');
+    assert.equal(top.publishedAt?.getTime(), (now - HOUR) * 1000);
+    assert.deepEqual(top.metadata, {
+      points: 420,
+      comments: 87,
+      subreddit: 'programming',
+      author: 'alice',
+      permalink: 'https://www.reddit.com/r/programming/comments/top/post/',
+    });
+    assert.equal(self.metadata?.points, 55);
+    assert.equal(self.metadata?.comments, 120);
+
+    // トークンは1回だけ取得し、一覧の取得に使う
+    assert.deepEqual(
+      requests.map(({ method, path }) => `${method} ${path}`),
+      ['POST /api/v1/access_token', 'GET /r/programming/top', 'GET /r/webdev/top']
+    );
+    assert.match(requests[0].authorization || '', /^Basic /);
+  });
+});
@@ -1,6 +1,8 @@
 import type { RawContentData } from '@/lib/ai/types';
+import { loadDomainRules } from '@/lib/utils/domain-rules';
 import { Logger } from '@/lib/utils/logger';
-import { RateLimiter } from '@/lib/utils/rate-limiter';
+import { deduplicate } from '@/lib/utils/near-duplicate';
+import { RateLimiter, type RateLimitConfig } from '@/lib/utils/rate-limiter';
 
 export abstract class BaseCollector {
   protected logger: Logger;
@@ -23,8 +25,8 @@ export abstract class BaseCollector {
     return this.rateLimiter.getNextAvailableTime(`collector:${this.name}`);
   }
 
-  protected async trackApiCall(): Promise<void> {
-    await this.rateLimiter.track(`collector:${this.name}`);
+  protected async trackApiCall(config?: RateLimitConfig): Promise<void> {
+    await this.rateLimiter.track(`collector:${this.name}`, config);
   }
 
   protected transformToRawContent(_data: any): RawContentData {
@@ -41,15 +43,33 @@ export abstract class BaseCollector {
     return [];
   }
 
-  // URLの重複チェック
-  protected removeDuplicates(items: RawContentData[]): RawContentData[] {
-    const seen = new Set<string>();
-    return items.filter(item => {
-      if (seen.has(item.url)) {
-        return false;
-      }
-      seen.add(item.url);
-      return true;
+  // blockルールに一致するドメインを除外し、boostの重みをmetadata.domainWeightに記録
+  // （並び替えは各収集サービスがcompareByDomainWeightで行う）
+  protected async applyDomainRules(
+    items: RawContentData[],
+    userId?: string
+  ): Promise<RawContentData[]> {
+    const rules = await loadDomainRules(userId);
+    if (rules.size === 0) {
+      return items;
+    }
+
+    const { items: allowed, blocked } = rules.filter(items, (item) => item.url);
+    if (blocked > 0) {
+      this.logger.debug('Items removed by domain rules', { collector: this.name, blocked });
+    }
+
+    return allowed.map((item) => {
+      const domainWeight = rules.getWeight(item.url);
+      return domainWeight === 0 ? item : { ...item, metadata: { ...item.metadata, domainWeight } };
     });
   }
+
+  // 正規化URLとタイトル・概要の類似度による重複チェック
+  protected removeDuplicates(items: RawContentData[]): RawContentData[] {
+    return deduplicate(items, {
+      getUrl: (item) => item.url,
+      getText: (item) => `${item.title} ${item.summary}`,
+    }).items;
+  }
 }
\ No newline at end of file
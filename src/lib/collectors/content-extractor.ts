@@ -0,0 +1,438 @@
+import type { RawContentData } from '@/lib/ai/types';
+import { EXTERNAL_API_CONFIG } from '@/lib/config/external-apis';
+import { Logger } from '@/lib/utils/logger';
+import { assertPublicUrl, UnsafeUrlError } from '@/lib/utils/network-guard';
+import { politeFetcher, RobotsDisallowedError } from '@/lib/utils/polite-fetch';
+import { extractPublishedDate } from '@/lib/utils/published-date';
+import { resolveCanonicalUrl } from '@/lib/utils/url-canonicalizer';
+
+export interface ContentExtractorConfig {
+  timeoutMs: number;
+  maxBytes: number;
+  maxLength: number;
+  allowedContentTypes: string[];
+  userAgent: string;
+}
+
+export interface ExtractedContent {
+  url: string;
+  canonicalUrl: string;
+  title: string | null;
+  text: string;
+  language: string | null;
+  // ページのメタデータから取得した公開日
+  publishedAt: Date | null;
+  truncated: boolean;
+}
+
+export interface ExtractionFailure {
+  url: string;
+  reason:
+    | 'timeout'
+    | 'too_large'
+    | 'content_type'
+    | 'http_error'
+    | 'empty'
+    | 'network'
+    | 'robots'
+    | 'blocked';
+  message: string;
+}
+
+const DEFAULT_CONFIG: ContentExtractorConfig = {
+  timeoutMs: 10000,
+  maxBytes: 2 * 1024 * 1024,
+  maxLength: 8000,
+  allowedContentTypes: ['text/html', 'application/xhtml+xml', 'text/plain'],
+  userAgent: EXTERNAL_API_CONFIG.reddit.userAgent,
+};
+
+// リダイレクトをたどる最大回数（各ホップで接続先のアドレスを確認する）
+const MAX_REDIRECTS = 5;
+const REDIRECT_STATUSES = new Set([301, 302, 303, 307, 308]);
+
+// <meta charset> を探す先頭のバイト数
+const CHARSET_SNIFF_BYTES = 1024;
+
+// 本文とみなす段落の最小文字数とリンク文字の割合の上限
+const MIN_PARAGRAPH_LENGTH = 25;
+const MAX_LINK_DENSITY = 0.5;
+
+// 本文に含まれないと考えられる要素
+const NOISE_ELEMENTS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'iframe',
+  'canvas',
+  'form',
+  'button',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+];
+
+// class/idにこれらを含む要素は広告・共有ボタン等として除去
+const NOISE_ATTRIBUTE_PATTERN =
+  /\b(?:class|id)\s*=\s*["'][^"']*\b(?:comment|share|social|related|sidebar|advert|ads?|promo|newsletter|breadcrumb|cookie|popup|modal)\b[^"']*["']/i;
+
+const BLOCK_BOUNDARY =
+  /<\/?(?:p|div|section|article|h[1-6]|li|ul|ol|pre|blockquote|tr|table|br|hr)\b[^>]*>/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' '))
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * 指定タグの要素（入れ子を含む最初の出現）の内側HTMLを取得
+ */
+function findElementContent(html: string, pattern: RegExp): string | null {
+  const match = html.match(pattern);
+  return match ? match[1] : null;
+}
+
+/**
+ * ノイズ要素を除去（入れ子の同名タグは考慮しない簡易処理）
+ */
+function removeNoise(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+
+  for (const tag of NOISE_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*\\/?>`, 'gi'), ' ');
+  }
+
+  // class/idで判定できるノイズブロック
+  return cleaned.replace(
+    /<(div|section|ul|p)\b([^>]*)>[\s\S]*?<\/\1>/gi,
+    (block, _tag: string, attributes: string) =>
+      NOISE_ATTRIBUTE_PATTERN.test(attributes) ? ' ' : block
+  );
+}
+
+/**
+ * 言語を判定（html lang属性を優先し、なければ文字種の割合から推定）
+ */
+export function detectLanguage(text: string, htmlLang?: string | null): string | null {
+  if (htmlLang) {
+    return htmlLang.toLowerCase().split(/[-_]/)[0];
+  }
+
+  const sample = text.slice(0, 2000);
+  const count = (pattern: RegExp) => (sample.match(pattern) || []).length;
+
+  const kana = count(/[぀-ヿ]/g);
+  const hangul = count(/[가-힯]/g);
+  const han = count(/[一-鿿]/g);
+  const latin = count(/[a-zA-Z]/g);
+  const total = kana + hangul + han + latin;
+
+  if (total === 0) return null;
+  if (kana > 0 && (kana + han) / total > 0.2) return 'ja';
+  if (hangul / total > 0.2) return 'ko';
+  if (han / total > 0.2) return 'zh';
+  if (latin / total > 0.5) return 'en';
+  return null;
+}
+
+function isSupportedCharset(label: string): boolean {
+  try {
+    new TextDecoder(label);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * 本文の文字コードを判定（Content-Typeのcharset → <meta charset>・http-equiv → UTF-8 の順）
+ */
+export function detectCharset(contentType: string | null, body: Uint8Array): string {
+  const head = Buffer.from(body.subarray(0, CHARSET_SNIFF_BYTES)).toString('latin1');
+  const candidates = [
+    contentType?.match(/charset\s*=\s*["']?([\w.:-]+)/i)?.[1],
+    // <meta charset="..."> と <meta http-equiv="Content-Type" content="...; charset=..."> の両方
+    head.match(/<meta\b[^>]*\bcharset\s*=\s*["']?\s*([\w.:-]+)/i)?.[1],
+  ];
+
+  return (
+    candidates.find((label): label is string => !!label && isSupportedCharset(label)) ?? 'utf-8'
+  ).toLowerCase();
+}
+
+export class ContentExtractor {
+  private config: ContentExtractorConfig;
+  private logger: Logger;
+
+  constructor(config: Partial<ContentExtractorConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.logger = new Logger('ContentExtractor');
+  }
+
+  /**
+   * HTMLから本文テキストを抽出（ネットワークを使わないため固定HTMLでも検証できる）
+   */
+  extract(html: string, url: string): ExtractedContent {
+    const htmlLang = html.match(/<html\b[^>]*\blang\s*=\s*["']?([a-zA-Z-_]+)/i)?.[1];
+    const title =
+      html.match(
+        /<meta\b[^>]*property\s*=\s*["']og:title["'][^>]*content\s*=\s*["']([^"']+)["']/i
+      )?.[1] ?? findElementContent(html, /<title\b[^>]*>([\s\S]*?)<\/title>/i);
+
+    const body = findElementContent(html, /<body\b[^>]*>([\s\S]*)<\/body>/i) ?? html;
+    const cleaned = removeNoise(body);
+
+    // 記事本体を示す要素を優先し、なければbody全体から段落を拾う
+    const region =
+      findElementContent(cleaned, /<article\b[^>]*>([\s\S]*)<\/article>/i) ??
+      findElementContent(cleaned, /<main\b[^>]*>([\s\S]*)<\/main>/i) ??
+      findElementContent(cleaned, /<[a-z]+\b[^>]*role\s*=\s*["']main["'][^>]*>([\s\S]*)/i) ??
+      cleaned;
+
+    const paragraphs = region
+      .split(BLOCK_BOUNDARY)
+      .map((chunk) => {
+        const text = stripTags(chunk);
+        const linkText = (chunk.match(/<a\b[^>]*>[\s\S]*?<\/a>/gi) || [])
+          .map((anchor) => stripTags(anchor))
+          .join('');
+        return { text, linkDensity: text.length > 0 ? linkText.length / text.length : 1 };
+      })
+      .filter(
+        (paragraph) =>
+          paragraph.text.length >= MIN_PARAGRAPH_LENGTH && paragraph.linkDensity <= MAX_LINK_DENSITY
+      )
+      .map((paragraph) => paragraph.text);
+
+    const fullText = paragraphs.join('\n\n');
+    const truncated = fullText.length > this.config.maxLength;
+
+    return {
+      url,
+      canonicalUrl: resolveCanonicalUrl(html, url),
+      title: title ? stripTags(title) : null,
+      text: truncated ? fullText.slice(0, this.config.maxLength) : fullText,
+      language: detectLanguage(fullText, htmlLang),
+      publishedAt: extractPublishedDate(html),
+      truncated,
+    };
+  }
+
+  /**
+   * URLを取得して本文を抽出
+   * 内部ネットワークのアドレスには接続しない（リダイレクト先も含めて確認）
+   */
+  async fetchAndExtract(url: string): Promise<ExtractedContent | ExtractionFailure> {
+    let response: Response;
+    let finalUrl = url;
+    try {
+      for (let redirects = 0; ; redirects++) {
+        await assertPublicUrl(finalUrl);
+        response = await politeFetcher.fetch(finalUrl, {
+          headers: {
+            'User-Agent': this.config.userAgent,
+            Accept: this.config.allowedContentTypes.join(', '),
+          },
+          redirect: 'manual',
+          timeoutMs: this.config.timeoutMs,
+        });
+
+        const location = response.headers.get('location');
+        if (!REDIRECT_STATUSES.has(response.status) || !location) {
+          break;
+        }
+        await response.body?.cancel();
+        if (redirects >= MAX_REDIRECTS) {
+          return { url, reason: 'http_error', message: 'Too many redirects' };
+        }
+        finalUrl = new URL(location, finalUrl).toString();
+      }
+    } catch (error) {
+      if (error instanceof UnsafeUrlError) {
+        return { url, reason: 'blocked', message: error.message };
+      }
+      if (error instanceof RobotsDisallowedError) {
+        return { url, reason: 'robots', message: error.message };
+      }
+
+      const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+      return {
+        url,
+        reason: isTimeout ? 'timeout' : 'network',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    if (!response.ok) {
+      return { url, reason: 'http_error', message: `HTTP ${response.status}` };
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim();
+    if (!this.config.allowedContentTypes.includes(contentType.toLowerCase())) {
+      await response.body?.cancel();
+      return { url, reason: 'content_type', message: `Unsupported content type: ${contentType}` };
+    }
+
+    const declaredLength = Number(response.headers.get('content-length'));
+    if (declaredLength > this.config.maxBytes) {
+      await response.body?.cancel();
+      return {
+        url,
+        reason: 'too_large',
+        message: `Content length ${declaredLength} exceeds limit`,
+      };
+    }
+
+    let body: string;
+    try {
+      body = await this.readBody(response);
+    } catch (error) {
+      const isTimeout = error instanceof Error && error.name === 'TimeoutError';
+      return {
+        url,
+        reason: isTimeout ? 'timeout' : 'too_large',
+        message: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    const extracted =
+      contentType === 'text/plain'
+        ? this.fromPlainText(body, finalUrl)
+        : this.extract(body, finalUrl);
+
+    if (!extracted.text) {
+      return { url, reason: 'empty', message: 'No readable text found' };
+    }
+
+    return extracted;
+  }
+
+  /**
+   * ページのメタデータから公開日を取得（取得・抽出できない場合はnull）
+   */
+  async fetchPublishedDate(url: string): Promise<Date | null> {
+    const result = await this.fetchAndExtract(url);
+    return 'reason' in result ? null : result.publishedAt;
+  }
+
+  /**
+   * 各ソースに本文と言語を付与する（失敗したソースはそのまま返す）
+   * 公開日が不明なソースはページのメタデータから補う
+   */
+  async enrich(sources: RawContentData[], concurrency = 3): Promise<RawContentData[]> {
+    const enriched = [...sources];
+
+    for (let i = 0; i < sources.length; i += concurrency) {
+      const batch = sources.slice(i, i + concurrency);
+
+      const results = await Promise.all(
+        batch.map((source) =>
+          source.fullText || !source.url ? null : this.fetchAndExtract(source.url)
+        )
+      );
+
+      results.forEach((result, offset) => {
+        if (!result) return;
+
+        if ('reason' in result) {
+          this.logger.warn('Full-text extraction failed', { ...result });
+          return;
+        }
+
+        const source = enriched[i + offset];
+        const publishedAt = source.publishedAt ?? result.publishedAt;
+        enriched[i + offset] = {
+          ...source,
+          fullText: result.text,
+          language: result.language ?? undefined,
+          publishedAt,
+          metadata: {
+            ...source.metadata,
+            canonicalUrl: result.canonicalUrl,
+            fullTextTruncated: result.truncated,
+            ...(!source.publishedAt && publishedAt && { dateUnknown: false }),
+          },
+        };
+      });
+    }
+
+    return enriched;
+  }
+
+  /**
+   * サイズ上限を超えた時点で読み込みを中断する
+   */
+  private async readBody(response: Response): Promise<string> {
+    if (!response.body) {
+      return '';
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      received += value.byteLength;
+      if (received > this.config.maxBytes) {
+        await reader.cancel();
+        throw new Error(`Response exceeded ${this.config.maxBytes} bytes`);
+      }
+      chunks.push(value);
+    }
+
+    const body = Buffer.concat(chunks);
+    return new TextDecoder(detectCharset(response.headers.get('content-type'), body)).decode(body);
+  }
+
+  private fromPlainText(text: string, url: string): ExtractedContent {
+    const normalized = text.replace(/\r\n/g, '\n').trim();
+    const truncated = normalized.length > this.config.maxLength;
+
+    return {
+      url,
+      canonicalUrl: resolveCanonicalUrl('', url),
+      title: null,
+      text: truncated ? normalized.slice(0, this.config.maxLength) : normalized,
+      language: detectLanguage(normalized),
+      publishedAt: null,
+      truncated,
+    };
+  }
+}
+
+export const contentExtractor = new ContentExtractor();
@@ -0,0 +1,301 @@
+import type { RawContentData } from '@/lib/ai/types';
+import { EXTERNAL_API_CONFIG } from '@/lib/config/external-apis';
+import { prisma } from '@/lib/db/prisma';
+import { WatchedRepositoryModel } from '@/lib/db/models/watched-repository';
+import { compareByDomainWeight } from '@/lib/utils/domain-rules';
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { quotaManager } from '@/lib/utils/quota-manager';
+import type { RateLimitConfig } from '@/lib/utils/rate-limiter';
+import { BaseCollector } from './base';
+
+export interface GitHubCollectorConfig {
+  baseUrl: string;
+  token?: string;
+}
+
+export interface GitHubTrendingOptions {
+  createdWithinDays?: number;
+  minStars?: number;
+  perKeyword?: number;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+export interface GitHubRepository {
+  full_name: string;
+  html_url: string;
+  description: string | null;
+  stargazers_count: number;
+  forks_count: number;
+  language: string | null;
+  topics?: string[];
+  created_at: string;
+  pushed_at: string;
+}
+
+export interface GitHubRelease {
+  tag_name: string;
+  name: string | null;
+  html_url: string;
+  body: string | null;
+  draft: boolean;
+  prerelease: boolean;
+  published_at: string | null;
+}
+
+// 認証済みの場合のレート制限（1時間あたり）
+const AUTHENTICATED_RATE_LIMIT: RateLimitConfig = {
+  maxRequests: 5000,
+  windowMs: 60 * 60 * 1000,
+};
+
+export class GitHubCollector extends BaseCollector {
+  private config: GitHubCollectorConfig;
+  private rateLimitResetAt = 0;
+
+  constructor(config: Partial<GitHubCollectorConfig> = {}) {
+    super('github');
+    this.config = {
+      baseUrl: EXTERNAL_API_CONFIG.github.baseUrl,
+      token: process.env.GITHUB_TOKEN,
+      ...config,
+    };
+  }
+
+  /**
+   * キーワードに一致する急成長リポジトリを収集
+   */
+  async collect(query: string, limit: number): Promise<RawContentData[]> {
+    const keywords = query.trim() ? [query.trim()] : [];
+    return this.collectTrending(keywords, limit);
+  }
+
+  /**
+   * ユーザーの興味キーワードに基づくトレンドと、ウォッチ中リポジトリの新着リリースを収集
+   */
+  async collectForUser(
+    userId: string,
+    limit: number,
+    options: GitHubTrendingOptions = {}
+  ): Promise<RawContentData[]> {
+    try {
+      const interests = await prisma.userInterest.findMany({
+        where: { userId },
+        orderBy: { weight: 'desc' },
+        take: 5,
+      });
+
+      const [releases, trending] = await Promise.all([
+        this.collectReleases(userId),
+        this.collectTrending(
+          interests.map((interest) => interest.keyword),
+          limit,
+          { ...options, userId }
+        ),
+      ]);
+
+      return this.removeDuplicates([
+        ...(await this.applyDomainRules(releases, userId)),
+        ...trending,
+      ])
+        .sort(compareByDomainWeight)
+        .slice(0, limit);
+    } catch (error) {
+      return this.handleError(error, 'collectForUser');
+    }
+  }
+
+  /**
+   * 最近作成されスター数の伸びが大きいリポジトリを検索
+   */
+  async collectTrending(
+    keywords: string[],
+    limit: number,
+    options: GitHubTrendingOptions = {}
+  ): Promise<RawContentData[]> {
+    const { createdWithinDays = 30, minStars = 50, perKeyword = 10 } = options;
+
+    const since = new Date(Date.now() - createdWithinDays * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    try {
+      const repositories: GitHubRepository[] = [];
+
+      for (const keyword of keywords) {
+        const params = new URLSearchParams({
+          q: `${keyword} created:>${since} stars:>=${minStars}`,
+          sort: 'stars',
+          order: 'desc',
+          per_page: Math.min(perKeyword, 100).toString(),
+        });
+
+        const data = await this.request<{ items?: GitHubRepository[] }>(
+          `${EXTERNAL_API_CONFIG.github.endpoints.trending}?${params}`
+        );
+        repositories.push(...(data?.items || []));
+      }
+
+      const contents = repositories
+        .sort((a, b) => this.getStarsPerDay(b) - this.getStarsPerDay(a))
+        .map((repository) => this.transformToRawContent(repository));
+
+      return this.removeDuplicates(await this.applyDomainRules(contents, options.userId))
+        .sort(compareByDomainWeight)
+        .slice(0, limit);
+    } catch (error) {
+      return this.handleError(error, 'collectTrending');
+    }
+  }
+
+  /**
+   * ウォッチ中リポジトリの前回確認以降のリリースを収集
+   */
+  async collectReleases(userId: string): Promise<RawContentData[]> {
+    try {
+      const watched = await WatchedRepositoryModel.findByUser(userId);
+      const contents: RawContentData[] = [];
+
+      for (const repository of watched) {
+        const [owner, repo] = repository.fullName.split('/');
+        const endpoint = EXTERNAL_API_CONFIG.github.endpoints.releases
+          .replace('{owner}', encodeURIComponent(owner))
+          .replace('{repo}', encodeURIComponent(repo));
+
+        const releases = await this.request<GitHubRelease[]>(`${endpoint}?per_page=10`);
+        if (!releases) {
+          continue;
+        }
+
+        const published = releases.filter((release) => !release.draft && release.published_at);
+
+        // 初回は最新リリースのみ、以降は前回確認後に公開されたものを対象とする
+        const newReleases = repository.lastCheckedAt
+          ? published.filter(
+              (release) =>
+                new Date(release.published_at!).getTime() > repository.lastCheckedAt!.getTime()
+            )
+          : published.slice(0, 1);
+
+        newReleases.forEach((release) =>
+          contents.push(this.transformReleaseToRawContent(repository.fullName, release))
+        );
+
+        await WatchedRepositoryModel.markChecked(
+          repository.id,
+          published[0]?.tag_name ?? repository.lastReleaseTag
+        );
+      }
+
+      return contents;
+    } catch (error) {
+      return this.handleError(error, 'collectReleases');
+    }
+  }
+
+  getRateLimitConfig(): RateLimitConfig {
+    return this.config.token ? AUTHENTICATED_RATE_LIMIT : EXTERNAL_API_CONFIG.github.rateLimit;
+  }
+
+  async isRateLimited(): Promise<boolean> {
+    if (Date.now() < this.rateLimitResetAt) {
+      return true;
+    }
+    return this.rateLimiter.isLimited(`collector:${this.name}`, this.getRateLimitConfig());
+  }
+
+  /**
+   * GitHub APIへのGETリクエスト（レート制限を超える場合はnullを返す）
+   */
+  private async request<T>(path: string): Promise<T | null> {
+    if (await this.isRateLimited()) {
+      this.logger.warn('GitHub request skipped due to rate limit', { path });
+      return null;
+    }
+
+    await quotaManager.consume('github');
+    await this.trackApiCall(this.getRateLimitConfig());
+
+    const headers: Record<string, string> = {
+      Accept: 'application/vnd.github+json',
+      'X-GitHub-Api-Version': '2022-11-28',
+    };
+    if (this.config.token) {
+      headers['Authorization'] = `Bearer ${this.config.token}`;
+    }
+
+    const response = await politeFetcher.fetch(`${this.config.baseUrl}${path}`, {
+      headers,
+      respectRobots: false,
+    });
+
+    // サーバー側の残量が尽きた場合はリセット時刻まで待機
+    if (response.headers.get('x-ratelimit-remaining') === '0') {
+      const reset = Number(response.headers.get('x-ratelimit-reset'));
+      if (reset) {
+        this.rateLimitResetAt = reset * 1000;
+      }
+    }
+
+    if (!response.ok) {
+      this.logger.warn('GitHub API error', { path, status: response.status });
+      return null;
+    }
+
+    return (await response.json()) as T;
+  }
+
+  private getStarsPerDay(repository: GitHubRepository): number {
+    const ageDays = Math.max(
+      1,
+      (Date.now() - new Date(repository.created_at).getTime()) / (24 * 60 * 60 * 1000)
+    );
+    return repository.stargazers_count / ageDays;
+  }
+
+  protected transformToRawContent(repository: GitHubRepository): RawContentData {
+    const details = [
+      `★${repository.stargazers_count}`,
+      repository.language,
+      repository.topics?.slice(0, 5).join(', '),
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    return {
+      title: repository.full_name,
+      url: repository.html_url,
+      summary: repository.description ? `${repository.description} (${details})` : details,
+      publishedAt: new Date(repository.created_at),
+      source: 'GitHub',
+      type: 'github',
+      metadata: {
+        kind: 'repository',
+        stars: repository.stargazers_count,
+        forks: repository.forks_count,
+        language: repository.language,
+        topics: repository.topics || [],
+        starsPerDay: Math.round(this.getStarsPerDay(repository) * 10) / 10,
+      },
+    };
+  }
+
+  private transformReleaseToRawContent(fullName: string, release: GitHubRelease): RawContentData {
+    return {
+      title: `${fullName} ${release.name || release.tag_name}`,
+      url: release.html_url,
+      summary: (release.body || '').trim().slice(0, 500),
+      publishedAt: new Date(release.published_at!),
+      source: 'GitHub Releases',
+      type: 'github',
+      metadata: {
+        kind: 'release',
+        repository: fullName,
+        tagName: release.tag_name,
+        prerelease: release.prerelease,
+      },
+    };
+  }
+}
+
+export const githubCollector = new GitHubCollector();
@@ -0,0 +1,243 @@
+import type { RawContentData } from '@/lib/ai/types';
+import { EXTERNAL_API_CONFIG } from '@/lib/config/external-apis';
+import { prisma } from '@/lib/db/prisma';
+import { engagementBoost } from '@/lib/utils/engagement';
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { BaseCollector } from './base';
+
+export interface HackerNewsCollectorConfig {
+  baseUrl: string;
+  itemUrl: string;
+}
+
+export interface HackerNewsCollectOptions {
+  minPoints?: number;
+  maxAgeHours?: number;
+  perKeyword?: number;
+  // trueの場合は新着順（search_by_date）、falseの場合は関連度順（search）
+  sortByDate?: boolean;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+export interface HackerNewsHit {
+  objectID: string;
+  title: string | null;
+  url: string | null;
+  author: string;
+  points: number | null;
+  num_comments: number | null;
+  created_at: string;
+  created_at_i: number;
+  story_text?: string | null;
+  _tags?: string[];
+}
+
+export interface HackerNewsSearchResponse {
+  hits: HackerNewsHit[];
+  nbHits?: number;
+  page?: number;
+  nbPages?: number;
+  hitsPerPage?: number;
+}
+
+export class HackerNewsCollector extends BaseCollector {
+  private config: HackerNewsCollectorConfig;
+
+  constructor(config: Partial<HackerNewsCollectorConfig> = {}) {
+    super('hackernews');
+    this.config = {
+      baseUrl: EXTERNAL_API_CONFIG.hackerNews.baseUrl,
+      itemUrl: EXTERNAL_API_CONFIG.hackerNews.itemUrl,
+      ...config,
+    };
+  }
+
+  async collect(
+    query: string,
+    limit: number,
+    options: HackerNewsCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    const keywords = query.trim() ? [query.trim()] : [];
+    return this.collectForKeywords(keywords, limit, options);
+  }
+
+  /**
+   * ユーザーの興味キーワード上位でストーリーを収集
+   */
+  async collectForUser(
+    userId: string,
+    limit: number,
+    options: HackerNewsCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    try {
+      const interests = await prisma.userInterest.findMany({
+        where: { userId },
+        orderBy: { weight: 'desc' },
+        take: 5,
+      });
+
+      return this.collectForKeywords(
+        interests.map((interest) => interest.keyword),
+        limit,
+        { ...options, userId }
+      );
+    } catch (error) {
+      return this.handleError(error, 'collectForUser');
+    }
+  }
+
+  /**
+   * キーワードごとにストーリーを検索し、ポイント・コメント数を加味した順に返す
+   */
+  async collectForKeywords(
+    keywords: string[],
+    limit: number,
+    options: HackerNewsCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    try {
+      const contents: RawContentData[] = [];
+
+      for (const keyword of keywords) {
+        const response = await this.search(keyword, options);
+        if (response) {
+          contents.push(...this.parseSearchResponse(response, keyword, options));
+        }
+      }
+
+      const allowed = await this.applyDomainRules(contents, options.userId);
+      return this.removeDuplicates(this.rankStories(allowed, keywords)).slice(0, limit);
+    } catch (error) {
+      return this.handleError(error, 'collectForKeywords');
+    }
+  }
+
+  /**
+   * Algolia Search APIでストーリーを検索（レート制限を超える場合はnullを返す）
+   */
+  async search(
+    keyword: string,
+    options: HackerNewsCollectOptions = {}
+  ): Promise<HackerNewsSearchResponse | null> {
+    const { minPoints = 50, maxAgeHours = 72, perKeyword = 20, sortByDate = false } = options;
+
+    if (await this.isRateLimited()) {
+      this.logger.warn('Hacker News request skipped due to rate limit', { keyword });
+      return null;
+    }
+
+    const since = Math.floor((Date.now() - maxAgeHours * 60 * 60 * 1000) / 1000);
+    const params = new URLSearchParams({
+      query: keyword,
+      tags: 'story',
+      numericFilters: `points>=${minPoints},created_at_i>=${since}`,
+      hitsPerPage: Math.min(perKeyword, 100).toString(),
+    });
+
+    await this.trackApiCall(EXTERNAL_API_CONFIG.hackerNews.rateLimit);
+
+    const response = await politeFetcher.fetch(
+      `${this.config.baseUrl}/${sortByDate ? 'search_by_date' : 'search'}?${params}`,
+      { respectRobots: false }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Hacker News API error: ${response.status}`);
+    }
+
+    return response.json();
+  }
+
+  /**
+   * 検索レスポンスを変換（APIと同じ条件で再度絞り込む）
+   * 基準時刻を指定できるため、記録済みのJSONでも同じ結果を再現できる
+   */
+  parseSearchResponse(
+    response: HackerNewsSearchResponse,
+    keyword?: string,
+    options: HackerNewsCollectOptions = {},
+    now: Date = new Date()
+  ): RawContentData[] {
+    const { minPoints = 50, maxAgeHours = 72 } = options;
+    const minCreated = now.getTime() - maxAgeHours * 60 * 60 * 1000;
+
+    return (response.hits || [])
+      .filter((hit) => hit.title)
+      .filter((hit) => (hit.points ?? 0) >= minPoints)
+      .filter((hit) => hit.created_at_i * 1000 >= minCreated)
+      .map((hit) => this.transformToRawContent(hit, keyword));
+  }
+
+  /**
+   * タイトルのキーワード一致・ポイント・コメント数・ドメインルールの重みで並べ替え
+   * （WebSearchCollector.scoreResultsと同じ0〜1のrelevanceScoreを付与）
+   */
+  rankStories(contents: RawContentData[], keywords: string[]): RawContentData[] {
+    const terms = keywords.flatMap((keyword) => keyword.toLowerCase().split(/\s+/)).filter(Boolean);
+
+    return contents
+      .map((content) => {
+        let score = 0.5;
+
+        if (terms.length > 0) {
+          const titleLower = content.title.toLowerCase();
+          const titleMatches = terms.filter((term) => titleLower.includes(term)).length;
+          score += (titleMatches / terms.length) * 0.2;
+        }
+
+        score += engagementBoost(
+          content.metadata?.points as number | undefined,
+          content.metadata?.comments as number | undefined
+        );
+        score += (content.metadata?.domainWeight as number | undefined) ?? 0;
+
+        return {
+          ...content,
+          metadata: { ...content.metadata, relevanceScore: Math.max(0, Math.min(1.0, score)) },
+        };
+      })
+      .sort(
+        (a, b) =>
+          ((b.metadata?.relevanceScore as number) || 0) -
+          ((a.metadata?.relevanceScore as number) || 0)
+      );
+  }
+
+  async isRateLimited(): Promise<boolean> {
+    return this.rateLimiter.isLimited(
+      `collector:${this.name}`,
+      EXTERNAL_API_CONFIG.hackerNews.rateLimit
+    );
+  }
+
+  protected transformToRawContent(hit: HackerNewsHit, keyword?: string): RawContentData {
+    const discussionUrl = `${this.config.itemUrl}${hit.objectID}`;
+    const points = hit.points ?? 0;
+    const comments = hit.num_comments ?? 0;
+
+    return {
+      title: hit.title!,
+      // Ask HN等のリンクを持たない投稿は議論ページを使う
+      url: hit.url || discussionUrl,
+      summary:
+        hit.story_text
+          ?.replace(/<[^>]+>/g, ' ')
+          .replace(/\s+/g, ' ')
+          .trim()
+          .slice(0, 500) || `Hacker News · ${points} points · ${comments} comments`,
+      publishedAt: new Date(hit.created_at_i * 1000),
+      source: 'Hacker News',
+      type: 'hackernews',
+      metadata: {
+        points,
+        comments,
+        author: hit.author,
+        discussionUrl,
+        hnId: hit.objectID,
+        ...(keyword && { searchQuery: keyword }),
+      },
+    };
+  }
+}
+
+export const hackerNewsCollector = new HackerNewsCollector();
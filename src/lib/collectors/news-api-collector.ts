@@ -0,0 +1,277 @@
+import type { RawContentData, SearchQuery } from '@/lib/ai/types';
+import { EXTERNAL_API_CONFIG } from '@/lib/config/external-apis';
+import { compareByDomainWeight } from '@/lib/utils/domain-rules';
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { QuotaExceededError, quotaManager } from '@/lib/utils/quota-manager';
+import { BaseCollector } from './base';
+
+export type NewsApiEndpoint = 'everything' | 'topHeadlines';
+export type NewsApiSortBy = 'publishedAt' | 'relevancy' | 'popularity';
+
+export interface NewsApiCollectorConfig {
+  apiKey?: string;
+  baseUrl: string;
+}
+
+export interface NewsApiSearchOptions {
+  endpoint?: NewsApiEndpoint;
+  language?: string;
+  country?: string;
+  sortBy?: NewsApiSortBy;
+  from?: Date;
+  to?: Date;
+  pageSize?: number;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+export interface NewsApiArticle {
+  source: { id: string | null; name: string };
+  author: string | null;
+  title: string;
+  description: string | null;
+  url: string;
+  urlToImage: string | null;
+  publishedAt: string;
+  content: string | null;
+}
+
+export interface NewsApiQuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  usageRate: number;
+  warning: boolean;
+  exhausted: boolean;
+  resetAt: Date | null;
+}
+
+export class NewsApiCollector extends BaseCollector {
+  private config: NewsApiCollectorConfig;
+  // サーバー側で上限到達を返された場合の解除時刻
+  private quotaExhaustedUntil = 0;
+
+  constructor(config: Partial<NewsApiCollectorConfig> = {}) {
+    super('newsapi');
+    this.config = {
+      apiKey: process.env.NEWS_API_KEY,
+      baseUrl: EXTERNAL_API_CONFIG.newsApi.baseUrl,
+      ...config,
+    };
+  }
+
+  isConfigured(): boolean {
+    return !!this.config.apiKey;
+  }
+
+  /**
+   * キーワードでニュース記事を検索
+   */
+  async collect(query: string, limit: number): Promise<RawContentData[]> {
+    return this.collectForQuery(
+      { query, category: 'news', priority: 5, reasoning: 'Direct query', sources: ['News API'] },
+      { pageSize: limit }
+    );
+  }
+
+  /**
+   * searchQueryGeneratorで生成された検索クエリからニュースを収集
+   */
+  async collectForQuery(
+    searchQuery: SearchQuery,
+    options: NewsApiSearchOptions = {}
+  ): Promise<RawContentData[]> {
+    if (!this.isConfigured()) {
+      this.logger.warn('NEWS_API_KEY is not configured');
+      return [];
+    }
+
+    try {
+      return await this.searchArticles(searchQuery, options);
+    } catch (error) {
+      return this.handleError(error, 'collectForQuery');
+    }
+  }
+
+  /**
+   * 複数の検索クエリを優先度順に実行（クォータが尽きた時点で打ち切る）
+   */
+  async collectForQueries(
+    queries: SearchQuery[],
+    options: NewsApiSearchOptions = {}
+  ): Promise<RawContentData[]> {
+    if (!this.isConfigured()) {
+      this.logger.warn('NEWS_API_KEY is not configured');
+      return [];
+    }
+
+    const sortedQueries = [...queries].sort((a, b) => b.priority - a.priority);
+    const contents: RawContentData[] = [];
+
+    for (const searchQuery of sortedQueries) {
+      if (await this.isRateLimited()) {
+        this.logger.warn('NewsAPI quota exhausted, skipping remaining queries', {
+          skipped: sortedQueries.length - sortedQueries.indexOf(searchQuery),
+        });
+        break;
+      }
+      try {
+        contents.push(...(await this.searchArticles(searchQuery, options)));
+      } catch (error) {
+        if (error instanceof QuotaExceededError) {
+          this.logger.warn('NewsAPI quota exhausted, skipping remaining queries', {
+            skipped: sortedQueries.length - sortedQueries.indexOf(searchQuery),
+          });
+          break;
+        }
+        await this.handleError(error, 'collectForQueries');
+      }
+    }
+
+    return this.removeDuplicates(contents);
+  }
+
+  /**
+   * 1日のリクエスト上限に対する残量を返す
+   */
+  async getQuotaStatus(): Promise<NewsApiQuotaStatus> {
+    const status = await quotaManager.getStatus('newsapi');
+    const serverExhausted = Date.now() < this.quotaExhaustedUntil;
+
+    return {
+      limit: status.limit,
+      used: status.used,
+      remaining: serverExhausted ? 0 : status.remaining,
+      usageRate: status.usageRate,
+      warning: status.warning,
+      exhausted: serverExhausted || status.exhausted,
+      resetAt: serverExhausted ? new Date(this.quotaExhaustedUntil) : status.resetAt,
+    };
+  }
+
+  async isRateLimited(): Promise<boolean> {
+    if (Date.now() < this.quotaExhaustedUntil) {
+      return true;
+    }
+    return this.rateLimiter.isLimited(
+      `collector:${this.name}`,
+      EXTERNAL_API_CONFIG.newsApi.rateLimit
+    );
+  }
+
+  /**
+   * 1件の検索クエリで記事を取得して変換（利用上限に達した場合はQuotaExceededErrorを投げる）
+   */
+  private async searchArticles(
+    searchQuery: SearchQuery,
+    options: NewsApiSearchOptions
+  ): Promise<RawContentData[]> {
+    const { endpoint = 'everything', pageSize = 20 } = options;
+    const articles = await this.fetchArticles(searchQuery.query, { ...options, endpoint });
+
+    const contents = articles
+      .filter((article) => article.url && article.title && article.title !== '[Removed]')
+      .map((article) => this.transformToRawContent(article, searchQuery));
+
+    return this.removeDuplicates(await this.applyDomainRules(contents, options.userId))
+      .sort(compareByDomainWeight)
+      .slice(0, pageSize);
+  }
+
+  /**
+   * NewsAPIへのリクエストを実行
+   */
+  private async fetchArticles(
+    query: string,
+    options: NewsApiSearchOptions & { endpoint: NewsApiEndpoint }
+  ): Promise<NewsApiArticle[]> {
+    if (await this.isRateLimited()) {
+      this.logger.warn('NewsAPI request skipped due to quota', { query });
+      return [];
+    }
+
+    const params = this.buildParams(query, options);
+
+    await quotaManager.consume('newsapi');
+    await this.trackApiCall(EXTERNAL_API_CONFIG.newsApi.rateLimit);
+
+    const response = await politeFetcher.fetch(
+      `${this.config.baseUrl}${EXTERNAL_API_CONFIG.newsApi.endpoints[options.endpoint]}?${params}`,
+      {
+        headers: { 'X-Api-Key': this.config.apiKey! },
+        respectRobots: false,
+      }
+    );
+
+    const data = await response.json().catch(() => null);
+
+    if (response.status === 429 || data?.code === 'rateLimited') {
+      // サーバー側の上限に達した場合はウィンドウ終了まで停止
+      this.quotaExhaustedUntil = Date.now() + EXTERNAL_API_CONFIG.newsApi.rateLimit.windowMs;
+      this.logger.warn('NewsAPI daily quota exhausted', { query });
+      return [];
+    }
+
+    if (!response.ok || data?.status !== 'ok') {
+      throw new Error(`NewsAPI error: ${response.status} ${data?.message || ''}`.trim());
+    }
+
+    return data.articles || [];
+  }
+
+  private buildParams(
+    query: string,
+    options: NewsApiSearchOptions & { endpoint: NewsApiEndpoint }
+  ): URLSearchParams {
+    const { endpoint, language = 'ja', country, sortBy = 'publishedAt', from, to } = options;
+
+    const params = new URLSearchParams({
+      pageSize: Math.min(options.pageSize || 20, 100).toString(),
+    });
+
+    if (query.trim()) {
+      params.append('q', query.trim());
+    }
+
+    if (endpoint === 'topHeadlines') {
+      // top-headlinesはlanguage/sortBy/期間指定に対応していない
+      if (country) {
+        params.append('country', country);
+      }
+      return params;
+    }
+
+    params.append('language', language);
+    params.append('sortBy', sortBy);
+    if (from) {
+      params.append('from', from.toISOString());
+    }
+    if (to) {
+      params.append('to', to.toISOString());
+    }
+
+    return params;
+  }
+
+  protected transformToRawContent(
+    article: NewsApiArticle,
+    searchQuery?: SearchQuery
+  ): RawContentData {
+    return {
+      title: article.title,
+      url: article.url,
+      summary: (article.description || article.content || '').trim().slice(0, 500),
+      publishedAt: new Date(article.publishedAt),
+      source: article.source.name || 'News API',
+      type: 'news',
+      metadata: {
+        author: article.author,
+        imageUrl: article.urlToImage,
+        sourceId: article.source.id,
+        ...(searchQuery && { searchQuery: searchQuery.query, category: searchQuery.category }),
+      },
+    };
+  }
+}
+
+export const newsApiCollector = new NewsApiCollector();
@@ -0,0 +1,420 @@
+import { readdir, readFile, stat } from 'fs/promises';
+import path from 'path';
+import type { RawContentData } from '@/lib/ai/types';
+import {
+  getActiveNewsletterSenders,
+  NEWSLETTER_CONFIG,
+  type NewsletterSender,
+} from '@/lib/config/newsletter-sources';
+import {
+  parseEmail,
+  splitMbox,
+  type EmailAddress,
+  type ParsedEmail,
+} from '@/lib/utils/email-parser';
+import { compareByDomainWeight } from '@/lib/utils/domain-rules';
+import { compareByPublishedDate } from '@/lib/utils/published-date';
+import { canonicalizeUrl } from '@/lib/utils/url-canonicalizer';
+import { BaseCollector } from './base';
+
+/**
+ * メールの取得元（IMAP等はこのインターフェースを実装して差し替える）
+ */
+export interface MailboxSource {
+  name: string;
+  readMessages(): Promise<Buffer[]>;
+}
+
+export interface NewsletterCollectorConfig {
+  mailboxes: MailboxSource[];
+  senders: NewsletterSender[];
+  allowUnknownSenders: boolean;
+  defaultCategory: string;
+}
+
+export interface NewsletterCollectOptions {
+  maxAgeDays?: number;
+  maxItemsPerMessage?: number;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+export interface NewsletterItem {
+  title: string;
+  url: string;
+  summary: string;
+}
+
+export interface NewsletterMessage {
+  email: ParsedEmail;
+  sender: NewsletterSender | null;
+}
+
+// 記事の見出しとみなすリンクテキストの最小文字数
+const MIN_TITLE_LENGTH = 8;
+const MAX_SUMMARY_LENGTH = 500;
+
+// 配信停止・ブラウザ表示・SNS共有などの定型リンク
+const BOILERPLATE_URL_PATTERN =
+  /unsubscribe|optout|opt-out|list-manage\.com|\/preferences|\/manage|\/share|sharer|intent\/tweet|\/forward|view[-_]?(?:in[-_]?browser|online)|mailchi\.mp|\/webversion/i;
+const BOILERPLATE_TEXT_PATTERN =
+  /unsubscribe|view (?:this email|it|in (?:your )?browser|online)|update (?:your )?preferences|manage (?:your )?subscription|forward to a friend|配信停止|配信解除|登録解除|ブラウザで(?:表示|見る)|配信設定/i;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+  zwnj: '',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function htmlToText(html: string): string {
+  return decodeEntities(html.replace(/<[^>]+>/g, ' '))
+    .replace(/[\u200b-\u200d\u034f]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+/**
+ * Maildir（cur/new）または.emlファイルを置いたディレクトリ
+ */
+export class MaildirSource implements MailboxSource {
+  readonly name: string;
+
+  constructor(private directory: string) {
+    this.name = `maildir:${directory}`;
+  }
+
+  async readMessages(): Promise<Buffer[]> {
+    const subdirectories = ['cur', 'new'].map((name) => path.join(this.directory, name));
+    const existing: string[] = [];
+    for (const subdirectory of subdirectories) {
+      if (await this.isDirectory(subdirectory)) {
+        existing.push(subdirectory);
+      }
+    }
+
+    const messages: Buffer[] = [];
+    for (const directory of existing.length > 0 ? existing : [this.directory]) {
+      const entries = await readdir(directory, { withFileTypes: true });
+      for (const entry of entries) {
+        // Maildirのファイルは拡張子を持たないため、直下のファイル指定時のみ.emlで絞り込む
+        if (!entry.isFile() || entry.name.startsWith('.')) continue;
+        if (existing.length === 0 && !entry.name.toLowerCase().endsWith('.eml')) continue;
+        messages.push(await readFile(path.join(directory, entry.name)));
+      }
+    }
+    return messages;
+  }
+
+  private async isDirectory(target: string): Promise<boolean> {
+    try {
+      return (await stat(target)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+}
+
+export class MboxSource implements MailboxSource {
+  readonly name: string;
+
+  constructor(private file: string) {
+    this.name = `mbox:${file}`;
+  }
+
+  async readMessages(): Promise<Buffer[]> {
+    return splitMbox(await readFile(this.file)).map((message) => Buffer.from(message, 'latin1'));
+  }
+}
+
+function getDefaultMailboxes(): MailboxSource[] {
+  const mailboxes: MailboxSource[] = [];
+  if (NEWSLETTER_CONFIG.maildirPath) {
+    mailboxes.push(new MaildirSource(NEWSLETTER_CONFIG.maildirPath));
+  }
+  if (NEWSLETTER_CONFIG.mboxPath) {
+    mailboxes.push(new MboxSource(NEWSLETTER_CONFIG.mboxPath));
+  }
+  return mailboxes;
+}
+
+export class NewsletterCollector extends BaseCollector {
+  private config: NewsletterCollectorConfig;
+
+  constructor(config: Partial<NewsletterCollectorConfig> = {}) {
+    super('newsletter');
+    this.config = {
+      mailboxes: getDefaultMailboxes(),
+      senders: getActiveNewsletterSenders(),
+      allowUnknownSenders: NEWSLETTER_CONFIG.allowUnknownSenders,
+      defaultCategory: NEWSLETTER_CONFIG.defaultCategory,
+      ...config,
+    };
+  }
+
+  /**
+   * 許可された送信元のニュースレターを記事単位に分割して返す
+   * queryが指定された場合はタイトル・概要にキーワードを含む記事のみ返す
+   */
+  async collect(
+    query: string,
+    limit: number,
+    options: NewsletterCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    const { maxAgeDays = 7, maxItemsPerMessage = 30 } = options;
+
+    if (this.config.mailboxes.length === 0) {
+      this.logger.warn('No newsletter mailbox configured');
+      return [];
+    }
+
+    try {
+      const messages = await this.loadMessages(maxAgeDays);
+      const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+      const contents = messages
+        .flatMap((message) =>
+          this.extractItems(message.email)
+            .slice(0, maxItemsPerMessage)
+            .map((item) => this.transformToRawContent({ item, message }))
+        )
+        .filter((content) => {
+          const text = `${content.title} ${content.summary}`.toLowerCase();
+          return terms.length === 0 || terms.some((term) => text.includes(term));
+        });
+
+      return this.removeDuplicates(await this.applyDomainRules(contents, options.userId))
+        .sort((a, b) => compareByDomainWeight(a, b) || compareByPublishedDate(a, b))
+        .slice(0, limit);
+    } catch (error) {
+      return this.handleError(error, 'collect');
+    }
+  }
+
+  /**
+   * 全メールボックスから期間内・許可された送信元のメールを読み込む
+   */
+  async loadMessages(maxAgeDays: number): Promise<NewsletterMessage[]> {
+    const minDate = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+    const messages: NewsletterMessage[] = [];
+    let rejected = 0;
+
+    for (const mailbox of this.config.mailboxes) {
+      let raws: Buffer[];
+      try {
+        raws = await mailbox.readMessages();
+      } catch (error) {
+        this.logger.warn('Failed to read mailbox', {
+          mailbox: mailbox.name,
+          message: error instanceof Error ? error.message : 'Unknown error',
+        });
+        continue;
+      }
+
+      for (const raw of raws) {
+        const email = parseEmail(raw);
+        if (email.date && email.date.getTime() < minDate) continue;
+
+        const sender = this.matchSender(email.from);
+        if (!sender && !this.config.allowUnknownSenders) {
+          rejected++;
+          continue;
+        }
+
+        messages.push({ email, sender });
+      }
+    }
+
+    if (rejected > 0) {
+      this.logger.debug('Newsletters skipped by sender allowlist', { rejected });
+    }
+
+    return messages;
+  }
+
+  /**
+   * アドレス完全一致を優先し、次にドメイン（サブドメインを含む）で許可リストを照合
+   */
+  matchSender(from: EmailAddress | null): NewsletterSender | null {
+    if (!from) return null;
+
+    const address = from.address.toLowerCase();
+    const domain = address.split('@')[1] || '';
+
+    return (
+      this.config.senders.find((sender) => sender.match.toLowerCase() === address) ||
+      this.config.senders.find((sender) => {
+        if (!sender.match.startsWith('@')) return false;
+        const senderDomain = sender.match.slice(1).toLowerCase();
+        return domain === senderDomain || domain.endsWith(`.${senderDomain}`);
+      }) ||
+      null
+    );
+  }
+
+  /**
+   * ニュースレター本文を記事ごとのタイトル・概要・URLに分割
+   */
+  extractItems(email: ParsedEmail): NewsletterItem[] {
+    if (email.html) {
+      return this.extractFromHtml(email.html);
+    }
+    return email.text ? this.extractFromText(email.text) : [];
+  }
+
+  /**
+   * 見出しとなるリンクごとに、次のリンクまでのテキストを概要として扱う
+   * 画像と見出しで同じURLが複数回リンクされる場合は最も長いリンクテキストを採用
+   */
+  private extractFromHtml(html: string): NewsletterItem[] {
+    const body = html
+      .replace(/<!--[\s\S]*?-->/g, '')
+      .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>/gi, ' ');
+
+    const anchors = [...body.matchAll(/<a\b([^>]*)>([\s\S]*?)<\/a>/gi)].map((match) => {
+      const href = match[1].match(/\bhref\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/i);
+      return {
+        url: decodeEntities((href?.[1] ?? href?.[2] ?? href?.[3] ?? '').trim()),
+        title: htmlToText(match[2]),
+        start: match.index!,
+        end: match.index! + match[0].length,
+      };
+    });
+    // 配信停止等の定型リンクも概要の区切りとして扱う
+    const boundaries = anchors.filter(
+      (anchor) =>
+        this.isArticleLink(anchor.url, anchor.title) ||
+        BOILERPLATE_URL_PATTERN.test(anchor.url) ||
+        BOILERPLATE_TEXT_PATTERN.test(anchor.title)
+    );
+
+    const items = new Map<string, NewsletterItem>();
+
+    anchors.forEach((anchor) => {
+      if (!this.isArticleLink(anchor.url, anchor.title)) return;
+
+      const next = boundaries.find((boundary) => boundary.start >= anchor.end);
+      const summary = truncate(
+        htmlToText(body.slice(anchor.end, next ? next.start : undefined)),
+        MAX_SUMMARY_LENGTH
+      );
+      const key = canonicalizeUrl(anchor.url);
+      const existing = items.get(key);
+
+      if (!existing) {
+        items.set(key, { title: anchor.title, url: anchor.url, summary });
+      } else if (anchor.title.length > existing.title.length) {
+        existing.title = anchor.title;
+        existing.summary = summary || existing.summary;
+      }
+    });
+
+    return [...items.values()].filter((item) => item.title.length >= MIN_TITLE_LENGTH);
+  }
+
+  /**
+   * テキスト版: Markdown形式のリンク、またはURL行とその直前の行を見出しとして扱う
+   */
+  private extractFromText(text: string): NewsletterItem[] {
+    const lines = text.split(/\r?\n/).map((line) => line.trim());
+    const items = new Map<string, NewsletterItem>();
+
+    lines.forEach((line, index) => {
+      const markdown = line.match(/\[([^\]]+)\]\((https?:\/\/[^)\s]+)\)/);
+      const bare = line.match(/^<?(https?:\/\/[^\s>]+)>?$/);
+
+      let title: string | undefined;
+      let url: string | undefined;
+      if (markdown) {
+        title = markdown[1].trim();
+        url = markdown[2];
+      } else if (bare) {
+        url = bare[1];
+        title = lines.slice(0, index).reverse().find(Boolean);
+      }
+      if (!title || !url || /^https?:\/\//.test(title)) return;
+      if (!this.isArticleLink(url, title)) return;
+
+      // 次の空行までを概要とする
+      const rest = lines.slice(index + 1);
+      const blank = rest.findIndex((value) => !value || /^https?:\/\//.test(value));
+      const summary = truncate(
+        (blank === -1 ? rest : rest.slice(0, blank)).join(' ').replace(/\s+/g, ' '),
+        MAX_SUMMARY_LENGTH
+      );
+
+      const key = canonicalizeUrl(url);
+      if (!items.has(key)) {
+        items.set(key, { title, url, summary });
+      }
+    });
+
+    return [...items.values()].filter((item) => item.title.length >= MIN_TITLE_LENGTH);
+  }
+
+  private isArticleLink(url: string, title: string): boolean {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      return false;
+    }
+
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return false;
+    // ロゴ等のトップページへのリンクは記事として扱わない
+    if (parsed.pathname === '/' && !parsed.search) return false;
+
+    return !BOILERPLATE_URL_PATTERN.test(url) && !BOILERPLATE_TEXT_PATTERN.test(title);
+  }
+
+  protected transformToRawContent(data: {
+    item: NewsletterItem;
+    message: NewsletterMessage;
+  }): RawContentData {
+    const { item, message } = data;
+    const { email, sender } = message;
+
+    return {
+      title: item.title,
+      url: item.url,
+      summary: item.summary || email.subject,
+      publishedAt: email.date,
+      source: sender?.name || email.from?.name || email.from?.address || 'Newsletter',
+      type: 'newsletter',
+      metadata: {
+        category: sender?.category || this.config.defaultCategory,
+        newsletterSubject: email.subject,
+        sender: email.from?.address ?? null,
+        ...(email.messageId && { messageId: email.messageId }),
+        ...(!email.date && { dateUnknown: true }),
+      },
+    };
+  }
+}
+
+export const newsletterCollector = new NewsletterCollector();
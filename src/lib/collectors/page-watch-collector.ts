@@ -0,0 +1,410 @@
+import { createHash } from 'crypto';
+import type { RawContentData } from '@/lib/ai/types';
+import { PageWatchModel, type PageWatchKind } from '@/lib/db/models/page-watch';
+import type { PageWatch, Prisma } from '@prisma/client';
+import {
+  diffChangelog,
+  extractChangelogEntries,
+  revertChangelogEntries,
+  toChangelogSnapshot,
+  type ChangelogEntry,
+  type ChangelogSnapshot,
+} from '@/lib/utils/changelog-diff';
+import { compareByDomainWeight } from '@/lib/utils/domain-rules';
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { compareByPublishedDate, parsePublishedDate } from '@/lib/utils/published-date';
+import {
+  diffSitemap,
+  parseSitemap,
+  revertSitemapChanges,
+  toSitemapSnapshot,
+  type SitemapChange,
+  type SitemapEntry,
+  type SitemapSnapshot,
+} from '@/lib/utils/sitemap';
+import { BaseCollector } from './base';
+import { contentExtractor, type ContentExtractor } from './content-extractor';
+
+export interface PageWatchCollectOptions {
+  kind?: PageWatchKind;
+  // サイトマップ1件あたりに本文を取得するページ数
+  maxPagesPerWatch?: number;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+export interface PageFetchResult {
+  body: string | null;
+  notModified: boolean;
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface PageWatchCheck {
+  contents: RawContentData[];
+  // スナップショットとキャッシュヘッダーを保存する（deferredの変更は保存せず次回に持ち越す）
+  commit: (deferred: RawContentData[]) => Promise<void>;
+}
+
+const NO_CHANGES: PageWatchCheck = { contents: [], commit: async () => undefined };
+
+// サイトマップインデックスから読み込む子サイトマップの上限（lastmodが新しい順）
+const MAX_CHILD_SITEMAPS = 5;
+const MAX_SUMMARY_LENGTH = 500;
+
+function hashSnapshot(content: unknown): string {
+  return createHash('sha1').update(JSON.stringify(content)).digest('hex');
+}
+
+/**
+ * サイトマップのlastmodと変更履歴ページの差分から新着を検出する
+ * 初回は比較対象がないためスナップショットの保存のみ行い、以降の変更だけを返す
+ * スナップショットは返した変更の分だけ進める（件数の上限やクエリで返さなかった変更は次回も返す）
+ */
+export class PageWatchCollector extends BaseCollector {
+  constructor(private extractor: ContentExtractor = contentExtractor) {
+    super('pagewatch');
+  }
+
+  async collect(
+    query: string,
+    limit: number,
+    options: PageWatchCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    try {
+      const watches = await PageWatchModel.findActive(options.kind);
+      const checks: PageWatchCheck[] = [];
+
+      for (const watch of watches) {
+        checks.push(await this.inspectWatch(watch, options));
+      }
+
+      const contents = checks.flatMap((check) => check.contents);
+      const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const matched = contents.filter((content) => {
+        const text = `${content.title} ${content.summary}`.toLowerCase();
+        return terms.length === 0 || terms.some((term) => text.includes(term));
+      });
+
+      // ドメインルールで除外・重複として除いたものは処理済みとして扱う
+      const ranked = this.removeDuplicates(
+        await this.applyDomainRules(matched, options.userId)
+      ).sort((a, b) => compareByDomainWeight(a, b) || compareByPublishedDate(a, b));
+
+      // クエリに一致しなかった変更と件数の上限で返せなかった変更は次回に持ち越す
+      const matchedUrls = new Set(matched.map((content) => content.url));
+      const deferredUrls = new Set([
+        ...contents
+          .filter((content) => !matchedUrls.has(content.url))
+          .map((content) => content.url),
+        ...ranked.slice(limit).map((content) => content.url),
+      ]);
+      for (const check of checks) {
+        await check.commit(check.contents.filter((content) => deferredUrls.has(content.url)));
+      }
+
+      return ranked.slice(0, limit);
+    } catch (error) {
+      return this.handleError(error, 'collect');
+    }
+  }
+
+  /**
+   * 1件の監視対象を確認し、前回のスナップショットからの変更を返す（変更はすべて返したものとして保存）
+   */
+  async checkWatch(
+    watch: PageWatch,
+    options: PageWatchCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    const check = await this.inspectWatch(watch, options);
+    await check.commit([]);
+    return check.contents;
+  }
+
+  /**
+   * 1件の監視対象の変更を検出する（保存はcommitで行う）
+   */
+  async inspectWatch(
+    watch: PageWatch,
+    options: PageWatchCollectOptions = {}
+  ): Promise<PageWatchCheck> {
+    const recordFailure = async (error: unknown, context: string) => {
+      await PageWatchModel.recordCheckFailure(
+        watch.id,
+        error instanceof Error ? error.message : 'Unknown error'
+      ).catch(() => undefined);
+      await this.handleError(error, `${context}(${watch.id})`);
+    };
+
+    try {
+      const result = await this.fetchPage(watch.url, {
+        etag: watch.etag,
+        lastModified: watch.lastModified,
+      });
+
+      if (result.notModified || result.body === null) {
+        await PageWatchModel.recordCheckSuccess(watch.id, {});
+        return NO_CHANGES;
+      }
+
+      const check =
+        watch.kind === 'sitemap'
+          ? await this.checkSitemap(watch, result.body, options)
+          : await this.checkChangelog(watch, result.body);
+
+      return {
+        contents: check.contents,
+        commit: async (deferred) => {
+          try {
+            await check.commit(deferred);
+            // 持ち越した変更がある場合は、次回304で差分の確認が飛ばされないよう条件付きリクエストを使わない
+            await PageWatchModel.recordCheckSuccess(
+              watch.id,
+              deferred.length > 0
+                ? { etag: null, lastModified: null }
+                : { etag: result.etag, lastModified: result.lastModified }
+            );
+          } catch (error) {
+            await recordFailure(error, 'commit');
+          }
+        },
+      };
+    } catch (error) {
+      await recordFailure(error, 'checkWatch');
+      return NO_CHANGES;
+    }
+  }
+
+  /**
+   * ページを取得（ETag/Last-Modifiedが渡された場合は条件付きリクエスト）
+   */
+  async fetchPage(
+    url: string,
+    cache: { etag?: string | null; lastModified?: string | null } = {}
+  ): Promise<PageFetchResult> {
+    const headers: Record<string, string> = {};
+    if (cache.etag) {
+      headers['If-None-Match'] = cache.etag;
+    }
+    if (cache.lastModified) {
+      headers['If-Modified-Since'] = cache.lastModified;
+    }
+
+    const response = await politeFetcher.fetch(url, { headers });
+
+    if (response.status === 304) {
+      return { body: null, notModified: true };
+    }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+
+    return {
+      body: await response.text(),
+      notModified: false,
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    };
+  }
+
+  private async checkSitemap(
+    watch: PageWatch,
+    xml: string,
+    options: PageWatchCollectOptions
+  ): Promise<PageWatchCheck> {
+    const { maxPagesPerWatch = 10 } = options;
+    const entries = await this.loadSitemapEntries(xml);
+    const snapshot = toSitemapSnapshot(entries);
+
+    const previous = await PageWatchModel.findLatestSnapshot(watch.id);
+    if (previous?.contentHash === hashSnapshot(snapshot)) {
+      return NO_CHANGES;
+    }
+
+    const save = async (content: SitemapSnapshot) => {
+      const contentHash = hashSnapshot(content);
+      if (previous?.contentHash !== contentHash) {
+        await PageWatchModel.saveSnapshot(watch.id, contentHash, content);
+      }
+    };
+
+    if (!previous) {
+      this.logger.info('Sitemap baseline saved', { watch: watch.id, urls: entries.length });
+      return { contents: [], commit: () => save(snapshot) };
+    }
+
+    const previousSnapshot = previous.content as SitemapSnapshot;
+    const changes = diffSitemap(previousSnapshot, entries).sort(
+      (a, b) => Date.parse(b.lastmod || '') - Date.parse(a.lastmod || '') || 0
+    );
+
+    // 本文を取得するのは新しい順に上限まで（残りは次回に持ち越す）
+    const contents: RawContentData[] = [];
+    for (const change of changes.slice(0, maxPagesPerWatch)) {
+      contents.push(await this.toSitemapContent(watch, change));
+    }
+
+    return {
+      contents,
+      commit: (deferred) =>
+        save(
+          revertSitemapChanges(snapshot, previousSnapshot, [
+            ...changes.slice(maxPagesPerWatch).map((change) => change.loc),
+            ...deferred.map((content) => content.url),
+          ])
+        ),
+    };
+  }
+
+  /**
+   * サイトマップインデックスの場合は更新が新しい子サイトマップを読み込む
+   */
+  private async loadSitemapEntries(xml: string): Promise<SitemapEntry[]> {
+    const document = parseSitemap(xml);
+    if (document.type === 'urlset') {
+      return document.entries;
+    }
+
+    const children = [...document.entries]
+      .sort((a, b) => Date.parse(b.lastmod || '') - Date.parse(a.lastmod || '') || 0)
+      .slice(0, MAX_CHILD_SITEMAPS);
+
+    const entries: SitemapEntry[] = [];
+    for (const child of children) {
+      const result = await this.fetchPage(child.loc);
+      if (result.body) {
+        const childDocument = parseSitemap(result.body);
+        if (childDocument.type === 'urlset') {
+          entries.push(...childDocument.entries);
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * 新規・更新ページの本文を取得（失敗した場合はURLからタイトルを作る）
+   */
+  private async toSitemapContent(watch: PageWatch, change: SitemapChange): Promise<RawContentData> {
+    const extracted = await this.extractor.fetchAndExtract(change.loc);
+    // lastmodがない場合はページのメタデータの公開日を使う
+    const publishedAt =
+      parsePublishedDate(change.lastmod) ?? ('reason' in extracted ? null : extracted.publishedAt);
+    const metadata = {
+      category: watch.category,
+      watchId: watch.id,
+      changeType: change.change,
+      lastmod: change.lastmod,
+      ...(!publishedAt && { dateUnknown: true }),
+    };
+
+    if ('reason' in extracted) {
+      this.logger.debug('Failed to extract sitemap page', {
+        url: change.loc,
+        reason: extracted.reason,
+      });
+    }
+
+    return {
+      title: ('reason' in extracted ? null : extracted.title) || this.titleFromUrl(change.loc),
+      url: change.loc,
+      summary: 'reason' in extracted ? '' : extracted.text.slice(0, MAX_SUMMARY_LENGTH),
+      publishedAt,
+      source: watch.name,
+      type: 'sitemap',
+      ...(!('reason' in extracted) && {
+        fullText: extracted.text,
+        language: extracted.language ?? undefined,
+      }),
+      metadata,
+    };
+  }
+
+  /**
+   * 追加・更新されたエントリをまとめて1件の更新情報として返す
+   */
+  private async checkChangelog(watch: PageWatch, html: string): Promise<PageWatchCheck> {
+    const entries = extractChangelogEntries(html);
+    const snapshot = toChangelogSnapshot(entries);
+
+    const previous = await PageWatchModel.findLatestSnapshot(watch.id);
+    if (previous?.contentHash === hashSnapshot(snapshot)) {
+      return NO_CHANGES;
+    }
+
+    const save = async (content: ChangelogSnapshot) => {
+      const contentHash = hashSnapshot(content);
+      if (previous?.contentHash !== contentHash) {
+        await PageWatchModel.saveSnapshot(
+          watch.id,
+          contentHash,
+          content as unknown as Prisma.InputJsonValue
+        );
+      }
+    };
+
+    if (!previous) {
+      this.logger.info('Changelog baseline saved', { watch: watch.id, entries: entries.length });
+      return { contents: [], commit: () => save(snapshot) };
+    }
+
+    const previousSnapshot = previous.content as ChangelogSnapshot;
+    const { added, updated } = diffChangelog(previousSnapshot, entries);
+    const changed = [...added, ...updated];
+    if (changed.length === 0) {
+      return { contents: [], commit: () => save(snapshot) };
+    }
+
+    // 変更はまとめて1件で返すため、持ち越す場合は全エントリを前回の状態に戻す
+    return {
+      contents: [this.toChangelogContent(watch, changed, added.length)],
+      commit: (deferred) =>
+        save(
+          deferred.length > 0
+            ? revertChangelogEntries(
+                snapshot,
+                previousSnapshot,
+                changed.map((entry) => entry.key)
+              )
+            : snapshot
+        ),
+    };
+  }
+
+  private toChangelogContent(
+    watch: PageWatch,
+    changed: ChangelogEntry[],
+    addedCount: number
+  ): RawContentData {
+    const [first] = changed;
+    const rest = changed.length > 1 ? ` ほか${changed.length - 1}件` : '';
+
+    return {
+      title: `${watch.name}: ${first.heading}${rest}`,
+      url: first.anchor ? `${watch.url}#${encodeURIComponent(first.anchor)}` : watch.url,
+      summary: (first.text || first.heading).slice(0, MAX_SUMMARY_LENGTH),
+      publishedAt: new Date(),
+      source: watch.name,
+      type: 'changelog',
+      fullText: changed.map((entry) => `${entry.heading}\n${entry.text}`).join('\n\n'),
+      metadata: {
+        category: watch.category,
+        watchId: watch.id,
+        changeType: addedCount > 0 ? 'new' : 'updated',
+        entries: changed.map((entry) => entry.heading),
+      },
+    };
+  }
+
+  private titleFromUrl(url: string): string {
+    try {
+      const { hostname, pathname } = new URL(url);
+      const slug = decodeURIComponent(pathname.split('/').filter(Boolean).pop() || hostname);
+      return slug.replace(/\.[a-z]+$/i, '').replace(/[-_]+/g, ' ');
+    } catch {
+      return url;
+    }
+  }
+}
+
+export const pageWatchCollector = new PageWatchCollector();
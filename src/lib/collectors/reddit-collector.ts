@@ -0,0 +1,255 @@
+import type { RawContentData } from '@/lib/ai/types';
+import { EXTERNAL_API_CONFIG } from '@/lib/config/external-apis';
+import { compareByDomainWeight } from '@/lib/utils/domain-rules';
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { quotaManager } from '@/lib/utils/quota-manager';
+import { BaseCollector } from './base';
+
+export type RedditTimeWindow = 'hour' | 'day' | 'week' | 'month' | 'year' | 'all';
+
+export interface RedditCollectorConfig {
+  clientId?: string;
+  clientSecret?: string;
+  baseUrl: string;
+  tokenUrl: string;
+  oauthUrl: string;
+  userAgent: string;
+  subreddits: readonly string[];
+}
+
+export interface RedditCollectOptions {
+  subreddits?: string[];
+  sort?: 'top' | 'hot';
+  timeWindow?: RedditTimeWindow;
+  minScore?: number;
+  limitPerSubreddit?: number;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+export interface RedditPost {
+  id: string;
+  title: string;
+  url: string;
+  permalink: string;
+  selftext?: string;
+  subreddit: string;
+  author: string;
+  score: number;
+  num_comments: number;
+  created_utc: number;
+  is_self: boolean;
+  stickied?: boolean;
+  over_18?: boolean;
+}
+
+const TIME_WINDOW_MS: Record<RedditTimeWindow, number> = {
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000,
+  month: 30 * 24 * 60 * 60 * 1000,
+  year: 365 * 24 * 60 * 60 * 1000,
+  all: Number.POSITIVE_INFINITY,
+};
+
+export class RedditCollector extends BaseCollector {
+  private config: RedditCollectorConfig;
+  private accessToken: string | null = null;
+  private tokenExpiresAt = 0;
+
+  constructor(config: Partial<RedditCollectorConfig> = {}) {
+    super('reddit');
+    this.config = {
+      clientId: process.env.REDDIT_CLIENT_ID,
+      clientSecret: process.env.REDDIT_CLIENT_SECRET,
+      baseUrl: EXTERNAL_API_CONFIG.reddit.baseUrl,
+      tokenUrl: EXTERNAL_API_CONFIG.reddit.tokenUrl,
+      oauthUrl: EXTERNAL_API_CONFIG.reddit.oauthUrl,
+      userAgent: EXTERNAL_API_CONFIG.reddit.userAgent,
+      subreddits: EXTERNAL_API_CONFIG.reddit.subreddits,
+      ...config,
+    };
+  }
+
+  isConfigured(): boolean {
+    return !!(this.config.clientId && this.config.clientSecret);
+  }
+
+  /**
+   * 各サブレディットの人気投稿を収集
+   * queryが指定された場合はタイトル・本文にキーワードを含む投稿のみ返す
+   */
+  async collect(
+    query: string,
+    limit: number,
+    options: RedditCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    const {
+      subreddits = [...this.config.subreddits],
+      sort = 'top',
+      timeWindow = 'day',
+      minScore = 10,
+      limitPerSubreddit = 25,
+    } = options;
+
+    if (!this.isConfigured()) {
+      this.logger.warn('Reddit credentials are not configured');
+      return [];
+    }
+
+    try {
+      const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+      const minCreated = Date.now() - TIME_WINDOW_MS[timeWindow];
+      const posts: RedditPost[] = [];
+
+      for (const subreddit of subreddits) {
+        const subredditPosts = await this.fetchSubredditPosts(subreddit, {
+          sort,
+          timeWindow,
+          limit: limitPerSubreddit,
+        });
+        posts.push(...subredditPosts);
+      }
+
+      const contents = posts
+        .filter((post) => !post.stickied && !post.over_18)
+        .filter((post) => post.score >= minScore)
+        .filter((post) => post.created_utc * 1000 >= minCreated)
+        .filter((post) => {
+          if (terms.length === 0) return true;
+          const text = `${post.title} ${post.selftext || ''}`.toLowerCase();
+          return terms.some((term) => text.includes(term));
+        })
+        .sort((a, b) => b.score - a.score)
+        .map((post) => this.transformToRawContent(post));
+
+      // スコア順を保ったままドメインの重みで並べ替える
+      return this.removeDuplicates(await this.applyDomainRules(contents, options.userId))
+        .sort(compareByDomainWeight)
+        .slice(0, limit);
+    } catch (error) {
+      return this.handleError(error, 'collect');
+    }
+  }
+
+  /**
+   * サブレディットの投稿一覧を取得
+   */
+  async fetchSubredditPosts(
+    subreddit: string,
+    options: { sort: 'top' | 'hot'; timeWindow: RedditTimeWindow; limit: number }
+  ): Promise<RedditPost[]> {
+    if (await this.isRateLimited()) {
+      this.logger.warn('Reddit request skipped due to rate limit', { subreddit });
+      return [];
+    }
+
+    const token = await this.getAccessToken();
+
+    const params = new URLSearchParams({
+      limit: Math.min(options.limit, 100).toString(),
+      raw_json: '1',
+    });
+    if (options.sort === 'top') {
+      params.append('t', options.timeWindow);
+    }
+
+    await quotaManager.consume('reddit');
+    await this.trackApiCall();
+
+    const response = await politeFetcher.fetch(
+      `${this.config.oauthUrl}/r/${encodeURIComponent(subreddit)}/${options.sort}?${params}`,
+      {
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'User-Agent': this.config.userAgent,
+        },
+        respectRobots: false,
+      }
+    );
+
+    if (response.status === 401) {
+      // トークン失効時は次回再取得
+      this.accessToken = null;
+    }
+
+    if (!response.ok) {
+      this.logger.warn('Reddit listing error', { subreddit, status: response.status });
+      return [];
+    }
+
+    const data = await response.json();
+    return (data?.data?.children || []).map((child: { data: RedditPost }) => child.data);
+  }
+
+  async isRateLimited(): Promise<boolean> {
+    return this.rateLimiter.isLimited(
+      `collector:${this.name}`,
+      EXTERNAL_API_CONFIG.reddit.rateLimit
+    );
+  }
+
+  /**
+   * アプリ専用OAuth (client_credentials) でアクセストークンを取得
+   */
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt) {
+      return this.accessToken;
+    }
+
+    const credentials = Buffer.from(`${this.config.clientId}:${this.config.clientSecret}`).toString(
+      'base64'
+    );
+
+    const response = await politeFetcher.fetch(this.config.tokenUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${credentials}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': this.config.userAgent,
+      },
+      body: new URLSearchParams({ grant_type: 'client_credentials' }),
+      respectRobots: false,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Reddit token error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (!data.access_token) {
+      throw new Error('Reddit token response did not include access_token');
+    }
+
+    this.accessToken = data.access_token as string;
+    // 有効期限の1分前に再取得する
+    this.tokenExpiresAt = Date.now() + ((data.expires_in || 3600) - 60) * 1000;
+
+    return this.accessToken;
+  }
+
+  protected transformToRawContent(post: RedditPost): RawContentData {
+    const permalinkUrl = `${this.config.baseUrl}${post.permalink}`;
+
+    return {
+      title: post.title,
+      url: post.is_self ? permalinkUrl : post.url,
+      summary:
+        post.selftext?.trim().slice(0, 500) ||
+        `r/${post.subreddit} · ${post.score} points · ${post.num_comments} comments`,
+      publishedAt: new Date(post.created_utc * 1000),
+      source: `Reddit r/${post.subreddit}`,
+      type: 'reddit',
+      metadata: {
+        // engagementBoost と同じキー（Hacker Newsと揃える）
+        points: post.score,
+        comments: post.num_comments,
+        subreddit: post.subreddit,
+        author: post.author,
+        permalink: permalinkUrl,
+      },
+    };
+  }
+}
+
+export const redditCollector = new RedditCollector();
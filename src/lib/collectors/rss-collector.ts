@@ -0,0 +1,267 @@
+import Parser from 'rss-parser';
+import type { RawContentData } from '@/lib/ai/types';
+import {
+  getActiveRSSSources,
+  getRSSSourcesByCategory,
+  type RSSCategory,
+  type RSSSource,
+} from '@/lib/config/rss-sources';
+import { FeedSourceModel } from '@/lib/db/models/feed-source';
+import { compareByDomainWeight } from '@/lib/utils/domain-rules';
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { compareByPublishedDate, parsePublishedDate } from '@/lib/utils/published-date';
+import type { FeedSource } from '@prisma/client';
+import { BaseCollector } from './base';
+
+export interface RssFeedItem {
+  item: Parser.Item;
+  source: RSSSource;
+}
+
+export interface FeedFetchResult {
+  items: Parser.Item[];
+  notModified: boolean;
+  skipped?: boolean;
+  etag?: string | null;
+  lastModified?: string | null;
+  error?: string;
+}
+
+export interface RssCollectOptions {
+  category?: RSSCategory;
+  sources?: RSSSource[];
+  maxItemsPerFeed?: number;
+  maxAgeDays?: number;
+  // ドメインルールを適用するユーザー
+  userId?: string;
+}
+
+const FEED_RATE_LIMIT = {
+  maxRequests: 5,
+  windowMs: 60 * 1000, // 同じフィードへのアクセスは1分に5回まで
+};
+
+export class RssCollector extends BaseCollector {
+  private parser: Parser;
+
+  constructor() {
+    super('rss');
+    this.parser = new Parser({ timeout: 10000 });
+  }
+
+  /**
+   * アクティブなRSSソースから記事を収集
+   * queryが指定された場合はタイトル・要約にキーワードを含む記事のみ返す
+   */
+  async collect(
+    query: string,
+    limit: number,
+    options: RssCollectOptions = {}
+  ): Promise<RawContentData[]> {
+    const { category, maxItemsPerFeed = 20, maxAgeDays = 14 } = options;
+
+    const { sources: loadedSources, feeds } = options.sources
+      ? { sources: options.sources, feeds: new Map<string, FeedSource>() }
+      : await this.loadSources(category);
+
+    const sources = loadedSources
+      .filter((source) => source.active)
+      .sort((a, b) => b.priority - a.priority);
+
+    const feedItems: RssFeedItem[] = [];
+
+    // 優先度の高いフィードから順に取得
+    for (const source of sources) {
+      const feed = feeds.get(source.id);
+      const result = await this.fetchFeed(source, {
+        etag: feed?.etag,
+        lastModified: feed?.lastModified,
+      });
+
+      if (feed) {
+        await this.recordFeedHealth(feed, result);
+      }
+
+      result.items.slice(0, maxItemsPerFeed).forEach((item) => feedItems.push({ item, source }));
+    }
+
+    const terms = this.toSearchTerms(query);
+    const minDate = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000;
+
+    const contents = await this.applyDomainRules(
+      feedItems
+        .map((feedItem) => this.transformToRawContent(feedItem))
+        .filter((content) => content.title && this.isValidUrl(content.url))
+        // 日付のない項目は期間で絞り込めないため残す（並びは日付のある項目の後）
+        .filter((content) => !content.publishedAt || content.publishedAt.getTime() >= minDate)
+        .filter((content) => terms.length === 0 || this.matchesTerms(content, terms)),
+      options.userId
+    );
+
+    const priorityByName = new Map(sources.map((source) => [source.name, source.priority]));
+
+    // ドメインの重み → 優先度 → 新しさの順で並べ替え
+    return this.removeDuplicates(contents)
+      .sort(
+        (a, b) =>
+          compareByDomainWeight(a, b) ||
+          (priorityByName.get(b.source) || 0) - (priorityByName.get(a.source) || 0) ||
+          compareByPublishedDate(a, b)
+      )
+      .slice(0, limit);
+  }
+
+  /**
+   * フィードソースを取得（DB優先、1件も登録されていない場合・DBエラー時は設定ファイルにフォールバック）
+   * 管理画面や自動無効化で全フィードが無効になっている場合は設定ファイルのフィードも使わない
+   */
+  async loadSources(
+    category?: RSSCategory
+  ): Promise<{ sources: RSSSource[]; feeds: Map<string, FeedSource> }> {
+    try {
+      const feeds = await FeedSourceModel.findActive(category);
+      if (feeds.length > 0 || (await FeedSourceModel.count()) > 0) {
+        return {
+          sources: feeds.map((feed) => FeedSourceModel.toRSSSource(feed)),
+          feeds: new Map(feeds.map((feed) => [feed.id, feed])),
+        };
+      }
+    } catch (error) {
+      this.logger.warn('Failed to load feed sources from database, using RSS_SOURCES', {
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+
+    return {
+      sources: category ? getRSSSourcesByCategory(category) : getActiveRSSSources(),
+      feeds: new Map(),
+    };
+  }
+
+  /**
+   * 単一フィードを取得・パース
+   * ETag/Last-Modifiedが渡された場合は条件付きリクエストを行う
+   */
+  async fetchFeed(
+    source: RSSSource,
+    cache: { etag?: string | null; lastModified?: string | null } = {}
+  ): Promise<FeedFetchResult> {
+    const key = `collector:${this.name}:${source.id}`;
+
+    if (await this.rateLimiter.isLimited(key, FEED_RATE_LIMIT)) {
+      this.logger.warn('Feed skipped due to rate limit', { source: source.id });
+      return { items: [], notModified: false, skipped: true };
+    }
+
+    try {
+      await this.rateLimiter.track(key);
+
+      const headers: Record<string, string> = {
+        Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml',
+      };
+      if (cache.etag) {
+        headers['If-None-Match'] = cache.etag;
+      }
+      if (cache.lastModified) {
+        headers['If-Modified-Since'] = cache.lastModified;
+      }
+
+      const response = await politeFetcher.fetch(source.url, { headers });
+
+      if (response.status === 304) {
+        this.logger.debug('Feed not modified', { source: source.id });
+        return { items: [], notModified: true };
+      }
+
+      if (!response.ok) {
+        throw new Error(`RSS fetch error: ${response.status}`);
+      }
+
+      const xml = await response.text();
+      const feed = await this.parser.parseString(xml);
+
+      this.logger.debug('Feed fetched', { source: source.id, items: feed.items.length });
+      return {
+        items: feed.items,
+        notModified: false,
+        etag: response.headers.get('etag'),
+        lastModified: response.headers.get('last-modified'),
+      };
+    } catch (error) {
+      await this.handleError(error, `fetchFeed(${source.id})`);
+      return {
+        items: [],
+        notModified: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  protected transformToRawContent(data: RssFeedItem): RawContentData {
+    const { item, source } = data;
+    const publishedAt = parsePublishedDate(item.isoDate || item.pubDate);
+
+    return {
+      title: (item.title || '').trim(),
+      url: item.link || item.guid || '',
+      summary: (item.contentSnippet || item.summary || '').trim().slice(0, 500),
+      publishedAt,
+      source: source.name,
+      type: 'rss',
+      ...(!publishedAt && { metadata: { dateUnknown: true } }),
+    };
+  }
+
+  private async recordFeedHealth(feed: FeedSource, result: FeedFetchResult): Promise<void> {
+    if (result.skipped) {
+      return;
+    }
+
+    try {
+      if (result.error) {
+        const updated = await FeedSourceModel.recordFetchFailure(feed.id, result.error);
+        if (!updated.active) {
+          this.logger.warn('Feed disabled after consecutive failures', {
+            source: feed.id,
+            failures: updated.consecutiveFailures,
+          });
+        }
+      } else {
+        // 304の場合は保存済みのETag/Last-Modifiedをそのまま使う
+        await FeedSourceModel.recordFetchSuccess(
+          feed.id,
+          result.notModified ? {} : { etag: result.etag, lastModified: result.lastModified }
+        );
+      }
+    } catch (error) {
+      this.logger.warn('Failed to record feed health', {
+        source: feed.id,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  }
+
+  private isValidUrl(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  private toSearchTerms(query: string): string[] {
+    return query
+      .toLowerCase()
+      .split(/\s+/)
+      .map((term) => term.trim())
+      .filter(Boolean);
+  }
+
+  private matchesTerms(content: RawContentData, terms: string[]): boolean {
+    const text = `${content.title} ${content.summary}`.toLowerCase();
+    return terms.some((term) => text.includes(term));
+  }
+}
+
+export const rssCollector = new RssCollector();
@@ -0,0 +1,228 @@
+import { createHash } from 'crypto';
+import { Logger } from '@/lib/utils/logger';
+import type { WebSearchResult } from './search-providers';
+
+// 検索結果のデフォルト保持期間（6時間）
+export const DEFAULT_SEARCH_CACHE_TTL_SECONDS = 6 * 60 * 60;
+
+const KEY_PREFIX = 'search:v1:';
+
+export interface SearchCacheKeyParams {
+  query: string;
+  provider: string;
+  language?: string;
+  region?: string;
+  dateRestrict?: string;
+}
+
+export interface SearchCacheBackend {
+  readonly name: string;
+  get(key: string): Promise<string | null>;
+  set(key: string, value: string, ttlSeconds: number): Promise<void>;
+  // プレフィックスに一致するキーを削除し、削除件数を返す
+  deleteByPrefix(prefix: string): Promise<number>;
+}
+
+export interface SearchCacheStats {
+  backend: string;
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+}
+
+/**
+ * プロセス内メモリのバックエンド（サーバーレス環境ではインスタンスごとに独立）
+ */
+export class MemorySearchCacheBackend implements SearchCacheBackend {
+  readonly name = 'memory';
+  private entries = new Map<string, { value: string; expiresAt: number }>();
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+
+    if (Date.now() >= entry.expiresAt) {
+      this.entries.delete(key);
+      return null;
+    }
+    return entry.value;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    this.entries.set(key, { value, expiresAt: Date.now() + ttlSeconds * 1000 });
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let deleted = 0;
+    for (const key of this.entries.keys()) {
+      if (key.startsWith(prefix)) {
+        this.entries.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
+
+/**
+ * Vercel KV / Upstash互換のREST APIバックエンド
+ */
+export class KvSearchCacheBackend implements SearchCacheBackend {
+  readonly name = 'kv';
+
+  constructor(
+    private restUrl: string,
+    private token: string
+  ) {}
+
+  async get(key: string): Promise<string | null> {
+    const result = await this.command<string | null>(['GET', key]);
+    return result ?? null;
+  }
+
+  async set(key: string, value: string, ttlSeconds: number): Promise<void> {
+    await this.command(['SET', key, value, 'EX', ttlSeconds.toString()]);
+  }
+
+  async deleteByPrefix(prefix: string): Promise<number> {
+    let cursor = '0';
+    let deleted = 0;
+
+    do {
+      const [nextCursor, keys] = await this.command<[string, string[]]>([
+        'SCAN',
+        cursor,
+        'MATCH',
+        `${prefix}*`,
+        'COUNT',
+        '100',
+      ]);
+      cursor = nextCursor;
+
+      if (keys.length > 0) {
+        deleted += await this.command<number>(['DEL', ...keys]);
+      }
+    } while (cursor !== '0');
+
+    return deleted;
+  }
+
+  private async command<T>(args: string[]): Promise<T> {
+    const response = await fetch(this.restUrl, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${this.token}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(args),
+      signal: AbortSignal.timeout(5000),
+    });
+
+    const data = await response.json().catch(() => null);
+    if (!response.ok || data?.error) {
+      throw new Error(`KV ${args[0]} error: ${data?.error || response.status}`);
+    }
+    return data.result as T;
+  }
+}
+
+/**
+ * 大文字小文字・全角半角・空白の違いを吸収したクエリ
+ */
+export function normalizeQuery(query: string): string {
+  return query.normalize('NFKC').toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+export class SearchCache {
+  private logger: Logger;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(
+    private backend: SearchCacheBackend,
+    private ttlSeconds: number = DEFAULT_SEARCH_CACHE_TTL_SECONDS
+  ) {
+    this.logger = new Logger('SearchCache');
+  }
+
+  buildKey(params: SearchCacheKeyParams): string {
+    const queryHash = createHash('sha256').update(normalizeQuery(params.query)).digest('hex');
+    return [
+      KEY_PREFIX + params.provider,
+      params.language || '-',
+      params.region || '-',
+      params.dateRestrict || '-',
+      queryHash.slice(0, 32),
+    ].join(':');
+  }
+
+  /**
+   * キャッシュ済みの検索結果を取得（バックエンドのエラーはミス扱い）
+   */
+  async get(params: SearchCacheKeyParams): Promise<WebSearchResult[] | null> {
+    try {
+      const value = await this.backend.get(this.buildKey(params));
+      if (value === null) {
+        this.misses++;
+        return null;
+      }
+
+      this.hits++;
+      return (JSON.parse(value) as WebSearchResult[]).map((result) => ({
+        ...result,
+        publishedAt: result.publishedAt ? new Date(result.publishedAt) : undefined,
+      }));
+    } catch (error) {
+      this.logger.warn('Search cache read failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+      this.misses++;
+      return null;
+    }
+  }
+
+  async set(params: SearchCacheKeyParams, results: WebSearchResult[]): Promise<void> {
+    try {
+      await this.backend.set(this.buildKey(params), JSON.stringify(results), this.ttlSeconds);
+    } catch (error) {
+      this.logger.warn('Search cache write failed', {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * キャッシュを全削除（providerを指定した場合はそのプロバイダーのみ）
+   */
+  async purge(provider?: string): Promise<number> {
+    const deleted = await this.backend.deleteByPrefix(KEY_PREFIX + (provider ? `${provider}:` : ''));
+    this.logger.info('Search cache purged', { provider, deleted });
+    return deleted;
+  }
+
+  getStats(): SearchCacheStats {
+    return {
+      backend: this.backend.name,
+      ttlSeconds: this.ttlSeconds,
+      hits: this.hits,
+      misses: this.misses,
+    };
+  }
+}
+
+/**
+ * KVのREST設定があればKV、なければメモリを使う
+ * （KV_URLのredis://接続は専用クライアントが必要なため、同じストアのREST APIを利用する）
+ */
+export function createSearchCache(): SearchCache {
+  const { KV_REST_API_URL, KV_REST_API_TOKEN } = process.env;
+
+  const backend =
+    KV_REST_API_URL && KV_REST_API_TOKEN
+      ? new KvSearchCacheBackend(KV_REST_API_URL, KV_REST_API_TOKEN)
+      : new MemorySearchCacheBackend();
+
+  return new SearchCache(backend);
+}
+
+export const searchCache = createSearchCache();
@@ -0,0 +1,98 @@
+import { Logger } from '@/lib/utils/logger';
+import {
+  SearchProviderError,
+  type SearchProvider,
+  type SearchProviderCapabilities,
+  type SearchProviderHealth,
+  type SearchProviderOptions,
+  type WebSearchResult,
+} from './types';
+
+// 連続失敗がこの回数に達したら一時的に除外する
+const FAILURE_THRESHOLD = 3;
+const DEFAULT_COOLDOWN_MS = 5 * 60 * 1000;
+const RATE_LIMIT_COOLDOWN_MS = 60 * 1000;
+
+export abstract class BaseSearchProvider implements SearchProvider {
+  abstract readonly name: string;
+  abstract readonly displayName: string;
+  abstract readonly priority: number;
+  abstract readonly capabilities: SearchProviderCapabilities;
+
+  protected logger: Logger;
+  private consecutiveFailures = 0;
+  private lastSuccessAt: Date | null = null;
+  private lastFailureAt: Date | null = null;
+  private lastError: string | null = null;
+  private cooldownUntil = 0;
+
+  constructor(loggerName: string) {
+    this.logger = new Logger(`SearchProvider:${loggerName}`);
+  }
+
+  abstract isConfigured(): boolean;
+  abstract search(query: string, options: SearchProviderOptions): Promise<WebSearchResult[]>;
+
+  isAvailable(): boolean {
+    return this.isConfigured() && Date.now() >= this.cooldownUntil;
+  }
+
+  getHealth(): SearchProviderHealth {
+    let state: SearchProviderHealth['state'] = 'healthy';
+    if (!this.isConfigured()) {
+      state = 'not_configured';
+    } else if (Date.now() < this.cooldownUntil) {
+      state = 'unavailable';
+    } else if (this.consecutiveFailures > 0) {
+      state = 'degraded';
+    }
+
+    return {
+      state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastSuccessAt: this.lastSuccessAt,
+      lastFailureAt: this.lastFailureAt,
+      lastError: this.lastError,
+      cooldownUntil: this.cooldownUntil > Date.now() ? new Date(this.cooldownUntil) : null,
+    };
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.lastSuccessAt = new Date();
+    this.cooldownUntil = 0;
+  }
+
+  /**
+   * 失敗を記録し、レート制限や連続失敗時はクールダウンに入る
+   */
+  recordFailure(error: unknown): void {
+    this.consecutiveFailures++;
+    this.lastFailureAt = new Date();
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof SearchProviderError && error.statusCode === 429) {
+      this.cooldownUntil = Date.now() + (error.retryAfterMs ?? RATE_LIMIT_COOLDOWN_MS);
+    } else if (this.consecutiveFailures >= FAILURE_THRESHOLD) {
+      this.cooldownUntil = Date.now() + DEFAULT_COOLDOWN_MS;
+    }
+
+    this.logger.warn(`${this.displayName} search failed`, {
+      error: this.lastError,
+      consecutiveFailures: this.consecutiveFailures,
+      cooldownUntil: this.cooldownUntil > Date.now() ? new Date(this.cooldownUntil) : null,
+    });
+  }
+
+  /**
+   * HTTPエラーレスポンスをSearchProviderErrorに変換
+   */
+  protected toError(response: Response): SearchProviderError {
+    const retryAfter = Number(response.headers.get('retry-after'));
+    return new SearchProviderError(
+      `${this.displayName} API error: ${response.status}`,
+      response.status,
+      retryAfter > 0 ? retryAfter * 1000 : undefined
+    );
+  }
+}
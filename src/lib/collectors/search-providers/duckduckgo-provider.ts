@@ -0,0 +1,85 @@
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { BaseSearchProvider } from './base';
+import type { SearchProviderOptions, WebSearchResult } from './types';
+
+export class DuckDuckGoSearchProvider extends BaseSearchProvider {
+  readonly name = 'duckduckgo';
+  readonly displayName = 'DuckDuckGo (Free)';
+  readonly priority = 100;
+  readonly capabilities = {
+    dateRestrict: false,
+    language: false,
+    region: false,
+    maxResults: 5,
+  };
+
+  constructor() {
+    super('duckduckgo');
+  }
+
+  // APIキー不要のフリーのフォールバック
+  isConfigured(): boolean {
+    return true;
+  }
+
+  /**
+   * DuckDuckGo Instant Answer API (Free, limited)
+   */
+  async search(query: string, options: SearchProviderOptions): Promise<WebSearchResult[]> {
+    const params = new URLSearchParams({
+      q: query,
+      format: 'json',
+      no_html: '1',
+      skip_disambig: '1',
+    });
+
+    const response = await politeFetcher.fetch(`https://api.duckduckgo.com/?${params}`, {
+      respectRobots: false,
+    });
+
+    if (!response.ok) {
+      throw this.toError(response);
+    }
+
+    const data = await response.json();
+    const maxResults = Math.min(options.maxResults, this.capabilities.maxResults);
+
+    const results: WebSearchResult[] = [];
+
+    // Abstract結果を追加
+    if (data.Abstract) {
+      results.push({
+        title: data.Heading || query,
+        url: data.AbstractURL || '#',
+        snippet: data.Abstract,
+        source: 'DuckDuckGo',
+        publishedAt: undefined, // DuckDuckGoは日付情報を提供しない
+        metadata: {
+          domain: data.AbstractURL ? new URL(data.AbstractURL).hostname : 'duckduckgo.com',
+          relevanceScore: 0.6,
+          type: 'abstract',
+        },
+      });
+    }
+
+    // Related Topics結果を追加
+    (data.RelatedTopics || []).slice(0, maxResults - 1).forEach((topic: any) => {
+      if (topic.FirstURL && topic.Text) {
+        results.push({
+          title: topic.Text.split(' - ')[0] || topic.Text,
+          url: topic.FirstURL,
+          snippet: topic.Text,
+          source: 'DuckDuckGo',
+          publishedAt: undefined, // DuckDuckGoは日付情報を提供しない
+          metadata: {
+            domain: new URL(topic.FirstURL).hostname,
+            relevanceScore: 0.5,
+            type: 'related',
+          },
+        });
+      }
+    });
+
+    return results;
+  }
+}
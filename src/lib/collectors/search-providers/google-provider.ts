@@ -0,0 +1,77 @@
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { publishedDateFromMetaTags } from '@/lib/utils/published-date';
+import { BaseSearchProvider } from './base';
+import type { SearchProviderOptions, WebSearchResult } from './types';
+
+export class GoogleSearchProvider extends BaseSearchProvider {
+  readonly name = 'google';
+  readonly displayName = 'Google Custom Search';
+  readonly quotaProvider = 'google' as const;
+  readonly priority = 1;
+  readonly capabilities = {
+    dateRestrict: true,
+    language: true,
+    region: true,
+    maxResults: 10,
+  };
+
+  private readonly apiKey = process.env.GOOGLE_CUSTOM_SEARCH_API_KEY;
+  private readonly cx = process.env.GOOGLE_CUSTOM_SEARCH_CX;
+
+  constructor() {
+    super('google');
+  }
+
+  isConfigured(): boolean {
+    return !!(this.apiKey && this.cx);
+  }
+
+  /**
+   * Google Custom Search API
+   */
+  async search(query: string, options: SearchProviderOptions): Promise<WebSearchResult[]> {
+    const params = new URLSearchParams({
+      key: this.apiKey!,
+      cx: this.cx!,
+      q: query,
+      num: Math.min(options.maxResults, this.capabilities.maxResults).toString(),
+      safe: 'active',
+    });
+
+    if (options.language) {
+      params.append('lr', `lang_${options.language}`);
+    }
+    if (options.region) {
+      params.append('gl', options.region);
+    }
+    if (options.dateRestrict) {
+      params.append('dateRestrict', options.dateRestrict);
+    }
+
+    const response = await politeFetcher.fetch(
+      `https://www.googleapis.com/customsearch/v1?${params}`,
+      {
+        respectRobots: false,
+      }
+    );
+
+    if (!response.ok) {
+      throw this.toError(response);
+    }
+
+    const data = await response.json();
+
+    return (data.items || []).map((item: any) => ({
+      title: item.title,
+      url: item.link,
+      snippet: item.snippet,
+      source: 'Google Search',
+      publishedAt: publishedDateFromMetaTags(item.pagemap?.metatags?.[0]) ?? undefined,
+      metadata: {
+        domain: new URL(item.link).hostname,
+        relevanceScore: 0.8,
+        type: 'web',
+      },
+    }));
+  }
+}
@@ -0,0 +1,10 @@
+export * from './types';
+export { BaseSearchProvider } from './base';
+export { GoogleSearchProvider } from './google-provider';
+export { SerpApiSearchProvider } from './serp-api-provider';
+export { DuckDuckGoSearchProvider } from './duckduckgo-provider';
+export {
+  SearchProviderRegistry,
+  createDefaultSearchProviderRegistry,
+  searchProviderRegistry,
+} from './registry';
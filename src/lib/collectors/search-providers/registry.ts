@@ -0,0 +1,54 @@
+import { DuckDuckGoSearchProvider } from './duckduckgo-provider';
+import { GoogleSearchProvider } from './google-provider';
+import { SerpApiSearchProvider } from './serp-api-provider';
+import type { SearchProvider, SearchProviderStatus } from './types';
+
+export class SearchProviderRegistry {
+  private providers = new Map<string, SearchProvider>();
+
+  register(provider: SearchProvider): void {
+    this.providers.set(provider.name, provider);
+  }
+
+  unregister(name: string): void {
+    this.providers.delete(name);
+  }
+
+  get(name: string): SearchProvider | undefined {
+    return this.providers.get(name);
+  }
+
+  /**
+   * 優先度順の全プロバイダー
+   */
+  getAll(): SearchProvider[] {
+    return [...this.providers.values()].sort((a, b) => a.priority - b.priority);
+  }
+
+  /**
+   * 設定済みかつクールダウン中でないプロバイダーを優先度順に返す
+   */
+  getAvailable(): SearchProvider[] {
+    return this.getAll().filter((provider) => provider.isAvailable());
+  }
+
+  getStatuses(): SearchProviderStatus[] {
+    return this.getAll().map((provider) => ({
+      name: provider.name,
+      displayName: provider.displayName,
+      priority: provider.priority,
+      capabilities: provider.capabilities,
+      health: provider.getHealth(),
+    }));
+  }
+}
+
+export function createDefaultSearchProviderRegistry(): SearchProviderRegistry {
+  const registry = new SearchProviderRegistry();
+  registry.register(new GoogleSearchProvider());
+  registry.register(new SerpApiSearchProvider());
+  registry.register(new DuckDuckGoSearchProvider());
+  return registry;
+}
+
+export const searchProviderRegistry = createDefaultSearchProviderRegistry();
@@ -0,0 +1,72 @@
+import { politeFetcher } from '@/lib/utils/polite-fetch';
+import { parsePublishedDate } from '@/lib/utils/published-date';
+import { BaseSearchProvider } from './base';
+import type { SearchProviderOptions, WebSearchResult } from './types';
+
+export class SerpApiSearchProvider extends BaseSearchProvider {
+  readonly name = 'serpapi';
+  readonly displayName = 'SERP API';
+  readonly quotaProvider = 'serpapi' as const;
+  readonly priority = 2;
+  readonly capabilities = {
+    dateRestrict: true,
+    language: true,
+    region: true,
+    maxResults: 20,
+  };
+
+  private readonly apiKey = process.env.SERP_API_KEY;
+
+  constructor() {
+    super('serpapi');
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * SERP API (Alternative)
+   */
+  async search(query: string, options: SearchProviderOptions): Promise<WebSearchResult[]> {
+    const params = new URLSearchParams({
+      api_key: this.apiKey!,
+      q: query,
+      num: Math.min(options.maxResults, this.capabilities.maxResults).toString(),
+    });
+
+    if (options.language) {
+      params.append('hl', options.language);
+    }
+    if (options.region) {
+      params.append('gl', options.region);
+    }
+    // 'w1' → 'qdr:w'（期間が1単位の場合は数字を省略する形式）
+    if (options.dateRestrict) {
+      params.append('tbs', `qdr:${options.dateRestrict.replace(/^([dwmy])1$/, '$1')}`);
+    }
+
+    const response = await politeFetcher.fetch(`https://serpapi.com/search?${params}`, {
+      respectRobots: false,
+    });
+
+    if (!response.ok) {
+      throw this.toError(response);
+    }
+
+    const data = await response.json();
+
+    return (data.organic_results || []).map((item: any) => ({
+      title: item.title,
+      url: item.link,
+      snippet: item.snippet,
+      source: 'SERP API',
+      publishedAt: parsePublishedDate(item.date) ?? undefined,
+      metadata: {
+        domain: new URL(item.link).hostname,
+        relevanceScore: 0.7,
+        type: 'web',
+      },
+    }));
+  }
+}
@@ -0,0 +1,77 @@
+import type { ApiQuotaProvider } from '@/lib/config/external-apis';
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  snippet: string;
+  source: string;
+  publishedAt?: Date;
+  metadata?: {
+    domain: string;
+    relevanceScore: number;
+    type: string;
+    // 結果を返したプロバイダー（複数プロバイダーの結果を統合した場合）
+    provider?: string;
+  };
+}
+
+export interface SearchProviderOptions {
+  maxResults: number;
+  language?: string;
+  region?: string;
+  dateRestrict?: string; // 'd1' (past day), 'w1' (past week), 'm1' (past month)
+}
+
+export interface SearchProviderCapabilities {
+  dateRestrict: boolean;
+  language: boolean;
+  region: boolean;
+  maxResults: number;
+}
+
+export type SearchProviderState = 'healthy' | 'degraded' | 'unavailable' | 'not_configured';
+
+export interface SearchProviderHealth {
+  state: SearchProviderState;
+  consecutiveFailures: number;
+  lastSuccessAt: Date | null;
+  lastFailureAt: Date | null;
+  lastError: string | null;
+  cooldownUntil: Date | null;
+}
+
+export interface SearchProviderStatus {
+  name: string;
+  displayName: string;
+  priority: number;
+  capabilities: SearchProviderCapabilities;
+  health: SearchProviderHealth;
+}
+
+export interface SearchProvider {
+  readonly name: string;
+  readonly displayName: string;
+  // 小さいほど優先
+  readonly priority: number;
+  readonly capabilities: SearchProviderCapabilities;
+  // 1日の利用上限を管理する対象（無料APIは未設定）
+  readonly quotaProvider?: ApiQuotaProvider;
+
+  isConfigured(): boolean;
+  isAvailable(): boolean;
+  getHealth(): SearchProviderHealth;
+  search(query: string, options: SearchProviderOptions): Promise<WebSearchResult[]>;
+  recordSuccess(): void;
+  recordFailure(error: unknown): void;
+}
+
+export class SearchProviderError extends Error {
+  constructor(
+    message: string,
+    public statusCode?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'SearchProviderError';
+  }
+}
@@ -0,0 +1,201 @@
+import type { CollectedItem } from '@prisma/client';
+import { CollectedItemModel } from '@/lib/db/models/collected-item';
+import { Logger } from '@/lib/utils/logger';
+import { canonicalizeUrl } from '@/lib/utils/url-canonicalizer';
+import { contentExtractor, type ContentExtractor } from './content-extractor';
+
+// 手動登録したURLのsnippetに使う本文の文字数
+const SNIPPET_LENGTH = 300;
+
+export const INGEST_PROVIDER = 'ingest';
+const INGEST_SOURCE = 'Manual Ingest';
+
+export interface IngestOptions {
+  note?: string;
+  tags?: string[];
+  userId: string;
+}
+
+export interface IngestedUrl {
+  url: string;
+  canonicalUrl: string;
+  // created: 新規登録 / duplicate: 収集済み（メモ・タグのみ更新）/ failed: 保存失敗
+  status: 'created' | 'duplicate' | 'failed';
+  item?: CollectedItem;
+  usedInArticles?: string[];
+  metadataFetched?: boolean;
+  error?: string;
+}
+
+export interface IngestResult {
+  items: IngestedUrl[];
+  created: number;
+  duplicates: number;
+  failed: number;
+}
+
+/**
+ * ブックマークレットや共有メニューから送られたURLを収集アイテムとして登録する
+ */
+export class UrlIngestor {
+  private logger: Logger;
+
+  constructor(
+    private extractor: ContentExtractor = contentExtractor,
+    private concurrency = 3
+  ) {
+    this.logger = new Logger('UrlIngestor');
+  }
+
+  async ingest(urls: string[], options: IngestOptions): Promise<IngestResult> {
+    // 同じリクエスト内の重複URLをまとめる
+    const unique = new Map<string, string>();
+    for (const url of urls) {
+      const canonicalUrl = canonicalizeUrl(url);
+      if (!unique.has(canonicalUrl)) {
+        unique.set(canonicalUrl, url);
+      }
+    }
+
+    const usage = await CollectedItemModel.findUsage([...unique.keys()]);
+    const results: IngestedUrl[] = [];
+    const pending: string[] = [];
+
+    for (const [canonicalUrl, url] of unique) {
+      const existing = usage.get(canonicalUrl);
+      if (existing) {
+        results.push(
+          await this.updateExisting(url, existing.item, existing.articleIds, options, false)
+        );
+      } else {
+        pending.push(url);
+      }
+    }
+
+    for (let i = 0; i < pending.length; i += this.concurrency) {
+      const batch = pending.slice(i, i + this.concurrency);
+      results.push(...(await Promise.all(batch.map((url) => this.ingestNew(url, options)))));
+    }
+
+    return {
+      items: results,
+      created: results.filter((result) => result.status === 'created').length,
+      duplicates: results.filter((result) => result.status === 'duplicate').length,
+      failed: results.filter((result) => result.status === 'failed').length,
+    };
+  }
+
+  /**
+   * ページを取得してタイトルと冒頭の本文を保存（取得できない場合はURLのみで登録）
+   */
+  private async ingestNew(url: string, options: IngestOptions): Promise<IngestedUrl> {
+    const extracted = await this.extractor.fetchAndExtract(url);
+    const metadataFetched = !('reason' in extracted);
+
+    // 内部ネットワーク等の取得できないURLは登録しない
+    if ('reason' in extracted && extracted.reason === 'blocked') {
+      this.logger.warn('Blocked ingest of non-public URL', { url, userId: options.userId });
+      return {
+        url,
+        canonicalUrl: canonicalizeUrl(url),
+        status: 'failed',
+        metadataFetched: false,
+        error: '公開されていないアドレスのURLは登録できません',
+      };
+    }
+
+    if (!metadataFetched) {
+      this.logger.warn('Metadata fetch failed for ingested URL', { ...extracted });
+    }
+
+    // リダイレクトやcanonical指定で収集済みのURLに解決される場合がある
+    const resolvedUrl = metadataFetched ? extracted.canonicalUrl : url;
+    const canonicalUrl = canonicalizeUrl(resolvedUrl);
+
+    try {
+      const existing = (await CollectedItemModel.findUsage([resolvedUrl])).get(canonicalUrl);
+      if (existing) {
+        return this.updateExisting(
+          resolvedUrl,
+          existing.item,
+          existing.articleIds,
+          options,
+          metadataFetched
+        );
+      }
+
+      const [item] = await CollectedItemModel.recordMany([
+        {
+          url: resolvedUrl,
+          title: (metadataFetched && extracted.title) || new URL(resolvedUrl).hostname,
+          snippet: metadataFetched ? extracted.text.slice(0, SNIPPET_LENGTH) : '',
+          source: INGEST_SOURCE,
+          provider: INGEST_PROVIDER,
+          publishedAt: metadataFetched ? extracted.publishedAt : null,
+          note: options.note || null,
+          tags: options.tags ?? [],
+          submittedBy: options.userId,
+          // 利用者が選んだURLなので検索結果より高い関連度として扱う
+          relevanceScore: 1,
+        },
+      ]);
+
+      return { url, canonicalUrl, status: 'created', item, metadataFetched };
+    } catch (error) {
+      this.logger.error('Failed to ingest URL', error as Error, { url });
+      return {
+        url,
+        canonicalUrl,
+        status: 'failed',
+        metadataFetched,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * 収集済みのアイテムにはメモとタグを追記する
+   */
+  private async updateExisting(
+    url: string,
+    item: CollectedItem,
+    articleIds: string[],
+    options: IngestOptions,
+    metadataFetched: boolean
+  ): Promise<IngestedUrl> {
+    const tags = [...new Set([...item.tags, ...(options.tags ?? [])])];
+
+    try {
+      const [updated] = await CollectedItemModel.recordMany([
+        {
+          url: item.url,
+          title: item.title,
+          snippet: item.snippet,
+          source: item.source,
+          note: options.note || item.note,
+          tags,
+          submittedBy: item.submittedBy ?? options.userId,
+        },
+      ]);
+
+      return {
+        url,
+        canonicalUrl: item.canonicalUrl,
+        status: 'duplicate',
+        item: updated,
+        usedInArticles: articleIds,
+        metadataFetched,
+      };
+    } catch (error) {
+      this.logger.error('Failed to update ingested URL', error as Error, { url });
+      return {
+        url,
+        canonicalUrl: item.canonicalUrl,
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+}
+
+export const urlIngestor = new UrlIngestor();
@@ -1,3 +1,17 @@
+import { loadDomainRules, type DomainRuleSet } from '@/lib/utils/domain-rules';
+import { quotaManager, QuotaExceededError } from '@/lib/utils/quota-manager';
+import {
+  searchProviderRegistry,
+  type SearchProvider,
+  type SearchProviderOptions,
+  type SearchProviderRegistry,
+  type SearchProviderStatus,
+  type WebSearchResult,
+} from './search-providers';
+import { searchCache, type SearchCache } from './search-cache';
+
+export type { WebSearchResult } from './search-providers';
+
 export interface SearchQuery {
   query: string;
   category: string;
@@ -6,34 +20,79 @@ export interface SearchQuery {
   sources: string[];
 }
 
-export interface WebSearchResult {
-  title: string;
-  url: string;
-  snippet: string;
-  source: string;
-  publishedAt?: Date;
-  metadata?: {
-    domain: string;
-    relevanceScore: number;
-    type: string;
-  };
-}
-
 export interface SearchApiResponse {
   success: boolean;
   results: WebSearchResult[];
   totalResults: number;
   query: string;
   processingTime: number;
+  provider?: string;
+  attemptedProviders: string[];
+  cacheHit: boolean;
+}
+
+export type SearchDepth = 'surface' | 'intermediate' | 'deep';
+
+// single: 最優先のプロバイダーのみ / fallback: エラー時に次のプロバイダー / all: 全プロバイダーの結果を統合
+export type SearchProviderMode = 'single' | 'fallback' | 'all';
+
+export interface SearchPlan {
+  queryCount: number;
+  maxResultsPerQuery: number;
+  providerMode: SearchProviderMode;
+  dateRestrict: string;
+  // 公開日がこれより古い結果は除外する（日付が不明な結果は除外せずフラグを付ける）
+  maxAgeDays: number;
 }
 
+// 探索深度ごとのクエリ数の範囲と使うプロバイダー
+const SEARCH_DEPTH_PLANS: Record<
+  SearchDepth,
+  { minQueries: number; maxQueries: number; providerMode: SearchProviderMode }
+> = {
+  surface: { minQueries: 1, maxQueries: 3, providerMode: 'single' },
+  intermediate: { minQueries: 1, maxQueries: 10, providerMode: 'fallback' },
+  deep: { minQueries: 8, maxQueries: 10, providerMode: 'all' },
+};
+
+// includeLatestTrends の有無による検索期間
+const FRESHNESS_WINDOWS = {
+  latest: { dateRestrict: 'w1', maxAgeDays: 7 },
+  default: { dateRestrict: 'm1', maxAgeDays: 31 },
+};
+
+/**
+ * 収集オプションから検索の実行計画を作る
+ */
+export function buildSearchPlan(options: {
+  queryCount: number;
+  maxResultsPerQuery: number;
+  searchDepth: SearchDepth;
+  includeLatestTrends: boolean;
+}): SearchPlan {
+  const depth = SEARCH_DEPTH_PLANS[options.searchDepth];
+  const window = options.includeLatestTrends ? FRESHNESS_WINDOWS.latest : FRESHNESS_WINDOWS.default;
+
+  return {
+    queryCount: Math.min(Math.max(options.queryCount, depth.minQueries), depth.maxQueries),
+    maxResultsPerQuery: options.maxResultsPerQuery,
+    providerMode: depth.providerMode,
+    ...window,
+  };
+}
+
+type ProviderRequest = { provider: SearchProvider; options: SearchProviderOptions };
+
 export class WebSearchCollector {
-  private readonly GOOGLE_API_KEY = process.env.GOOGLE_CUSTOM_SEARCH_API_KEY;
-  private readonly GOOGLE_CX = process.env.GOOGLE_CUSTOM_SEARCH_CX;
-  private readonly SERP_API_KEY = process.env.SERP_API_KEY; // Alternative search API
+  constructor(
+    private registry: SearchProviderRegistry = searchProviderRegistry,
+    private cache: SearchCache = searchCache
+  ) {}
 
   /**
    * 検索クエリに基づいてWeb検索を実行
+   * 利用可能なプロバイダーを優先度順に試し、エラー時は次のプロバイダーにフォールバックする
+   * providerMode が 'all' の場合は全プロバイダーで検索して結果を統合する
    */
   async searchWithQuery(
     searchQuery: SearchQuery,
@@ -42,69 +101,219 @@ export class WebSearchCollector {
       language?: string;
       region?: string;
       dateRestrict?: string; // 'd1' (past day), 'w1' (past week), 'm1' (past month)
+      providerMode?: SearchProviderMode;
+      useCache?: boolean;
+      // ドメインルールを適用するユーザー（未指定の場合は共通ルールのみ）
+      userId?: string;
     } = {}
   ): Promise<SearchApiResponse> {
-    const { maxResults = 10, language = 'ja', region = 'JP', dateRestrict = 'm1' } = options;
+    const {
+      maxResults = 10,
+      language = 'ja',
+      region = 'JP',
+      dateRestrict = 'm1',
+      providerMode = 'fallback',
+      useCache = true,
+      userId,
+    } = options;
 
     const startTime = Date.now();
+    const domainRules = await loadDomainRules(userId);
+    const attemptedProviders: string[] = [];
+    const available = this.registry.getAvailable();
+    const providers: ProviderRequest[] = (
+      providerMode === 'single' ? available.slice(0, 1) : available
+    ).map((provider) => {
+      const { capabilities } = provider;
+      return {
+        provider,
+        options: {
+          maxResults: Math.min(maxResults, capabilities.maxResults),
+          language: capabilities.language ? language : undefined,
+          region: capabilities.region ? region : undefined,
+          dateRestrict: capabilities.dateRestrict ? dateRestrict : undefined,
+        },
+      };
+    });
 
-    try {
-      // 優先順位: Google Custom Search > SERP API > DuckDuckGo (free)
-      let results: WebSearchResult[] = [];
-
-      if (this.GOOGLE_API_KEY && this.GOOGLE_CX) {
-        results = await this.searchWithGoogle(searchQuery.query, {
-          maxResults,
-          language,
-          region,
-          dateRestrict,
-        });
-      } else if (this.SERP_API_KEY) {
-        results = await this.searchWithSerpApi(searchQuery.query, {
-          maxResults,
-          language,
-          region,
-        });
-      } else {
-        // フリーのフォールバック（制限あり）
-        results = await this.searchWithDuckDuckGo(searchQuery.query, {
-          maxResults: Math.min(maxResults, 5),
-        });
+    if (providerMode === 'all') {
+      return this.searchAllProviders(searchQuery, providers, {
+        maxResults,
+        useCache,
+        domainRules,
+        startTime,
+      });
+    }
+
+    // 有料APIを呼ぶ前に、いずれかのプロバイダーのキャッシュがあればそれを使う
+    if (useCache) {
+      for (const request of providers) {
+        const cached = await this.getCached(searchQuery, request);
+        if (cached) {
+          return {
+            success: true,
+            results: this.scoreResults(cached.slice(0, maxResults), searchQuery, domainRules),
+            totalResults: cached.length,
+            query: searchQuery.query,
+            processingTime: Date.now() - startTime,
+            provider: request.provider.name,
+            attemptedProviders,
+            cacheHit: true,
+          };
+        }
       }
+    }
 
-      // 関連度スコアリング
-      const scoredResults = this.scoreResults(results, searchQuery);
+    for (const request of providers) {
+      attemptedProviders.push(request.provider.name);
 
-      return {
-        success: true,
-        results: scoredResults,
-        totalResults: results.length,
+      const results = await this.searchProvider(searchQuery, request, useCache);
+      if (results) {
+        // 関連度スコアリング
+        const scoredResults = this.scoreResults(results, searchQuery, domainRules);
+
+        return {
+          success: true,
+          results: scoredResults,
+          totalResults: results.length,
+          query: searchQuery.query,
+          processingTime: Date.now() - startTime,
+          provider: request.provider.name,
+          attemptedProviders,
+          cacheHit: false,
+        };
+      }
+    }
+
+    console.error('Web search error: all search providers failed', {
+      query: searchQuery.query,
+      attemptedProviders,
+    });
+    return {
+      success: false,
+      results: [],
+      totalResults: 0,
+      query: searchQuery.query,
+      processingTime: Date.now() - startTime,
+      attemptedProviders,
+      cacheHit: false,
+    };
+  }
+
+  /**
+   * 全プロバイダーで並列に検索し、同じURLの結果は優先度の高いプロバイダーのものを残す
+   */
+  private async searchAllProviders(
+    searchQuery: SearchQuery,
+    providers: ProviderRequest[],
+    context: {
+      maxResults: number;
+      useCache: boolean;
+      domainRules: DomainRuleSet;
+      startTime: number;
+    }
+  ): Promise<SearchApiResponse> {
+    const { maxResults, useCache, domainRules, startTime } = context;
+
+    const responses = await Promise.all(
+      providers.map(async (request) => {
+        const cached = useCache ? await this.getCached(searchQuery, request) : null;
+        return {
+          name: request.provider.name,
+          cacheHit: cached !== null,
+          results: cached ?? (await this.searchProvider(searchQuery, request, useCache)),
+        };
+      })
+    );
+
+    const succeeded = responses.filter((response) => response.results !== null);
+    const merged = new Map<string, WebSearchResult>();
+    for (const response of succeeded) {
+      for (const result of response.results!.slice(0, maxResults)) {
+        if (!merged.has(result.url)) {
+          merged.set(result.url, {
+            ...result,
+            metadata: { ...result.metadata!, provider: response.name },
+          });
+        }
+      }
+    }
+
+    if (succeeded.length === 0) {
+      console.error('Web search error: all search providers failed', {
         query: searchQuery.query,
-        processingTime: Date.now() - startTime,
-      };
+        attemptedProviders: providers.map((request) => request.provider.name),
+      });
+    }
+
+    return {
+      success: succeeded.length > 0,
+      results: this.scoreResults([...merged.values()], searchQuery, domainRules),
+      totalResults: merged.size,
+      query: searchQuery.query,
+      processingTime: Date.now() - startTime,
+      provider: succeeded.map((response) => response.name).join(',') || undefined,
+      attemptedProviders: responses
+        .filter((response) => !response.cacheHit)
+        .map((response) => response.name),
+      cacheHit: succeeded.length > 0 && succeeded.every((response) => response.cacheHit),
+    };
+  }
+
+  private async getCached(
+    searchQuery: SearchQuery,
+    { provider, options }: ProviderRequest
+  ): Promise<WebSearchResult[] | null> {
+    return this.cache.get({ query: searchQuery.query, provider: provider.name, ...options });
+  }
+
+  /**
+   * 1つのプロバイダーで検索（失敗時はヘルス状態を更新してnullを返す）
+   */
+  private async searchProvider(
+    searchQuery: SearchQuery,
+    { provider, options }: ProviderRequest,
+    useCache: boolean
+  ): Promise<WebSearchResult[] | null> {
+    try {
+      if (provider.quotaProvider) {
+        await quotaManager.consume(provider.quotaProvider);
+      }
+
+      const results = await provider.search(searchQuery.query, options);
+      provider.recordSuccess();
+
+      if (useCache && results.length > 0) {
+        await this.cache.set(
+          { query: searchQuery.query, provider: provider.name, ...options },
+          results
+        );
+      }
+      return results;
     } catch (error) {
-      console.error('Web search error:', error);
-      return {
-        success: false,
-        results: [],
-        totalResults: 0,
-        query: searchQuery.query,
-        processingTime: Date.now() - startTime,
-      };
+      // 利用上限による見送りはプロバイダーの障害として扱わない
+      if (!(error instanceof QuotaExceededError)) {
+        provider.recordFailure(error);
+      }
+      return null;
     }
   }
 
   /**
    * 複数のクエリを並列実行
+   * 同じ検索APIへの間隔・再試行はpoliteFetcherがホスト単位で制御する
    */
   async searchMultipleQueries(
     queries: SearchQuery[],
     options: {
       maxResultsPerQuery?: number;
       concurrency?: number;
+      dateRestrict?: string;
+      providerMode?: SearchProviderMode;
+      userId?: string;
     } = {}
   ): Promise<Map<string, SearchApiResponse>> {
-    const { maxResultsPerQuery = 8, concurrency = 3 } = options;
+    const { maxResultsPerQuery = 8, concurrency = 3, dateRestrict, providerMode, userId } = options;
 
     const results = new Map<string, SearchApiResponse>();
 
@@ -118,6 +327,9 @@ export class WebSearchCollector {
       const batchPromises = batch.map(async (query) => {
         const result = await this.searchWithQuery(query, {
           maxResults: maxResultsPerQuery,
+          dateRestrict,
+          providerMode,
+          userId,
         });
         return { query: query.query, result };
       });
@@ -129,181 +341,24 @@ export class WebSearchCollector {
           results.set(result.value.query, result.value.result);
         }
       });
-
-      // レート制限を避けるため少し待機
-      if (i + concurrency < sortedQueries.length) {
-        await new Promise((resolve) => setTimeout(resolve, 1000));
-      }
     }
 
     return results;
   }
 
-  /**
-   * Google Custom Search API
-   */
-  private async searchWithGoogle(
-    query: string,
-    options: {
-      maxResults: number;
-      language: string;
-      region: string;
-      dateRestrict?: string;
-    }
-  ): Promise<WebSearchResult[]> {
-    const params = new URLSearchParams({
-      key: this.GOOGLE_API_KEY!,
-      cx: this.GOOGLE_CX!,
-      q: query,
-      num: Math.min(options.maxResults, 10).toString(),
-      lr: `lang_${options.language}`,
-      gl: options.region,
-      safe: 'active',
-    });
-
-    if (options.dateRestrict) {
-      params.append('dateRestrict', options.dateRestrict);
-    }
-
-    const response = await fetch(`https://www.googleapis.com/customsearch/v1?${params}`);
-
-    if (!response.ok) {
-      throw new Error(`Google Search API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    return (data.items || []).map((item: any) => ({
-      title: item.title,
-      url: item.link,
-      snippet: item.snippet,
-      source: 'Google Search',
-      publishedAt: this.parseDate(item.pagemap?.metatags?.[0]?.['article:published_time']),
-      metadata: {
-        domain: new URL(item.link).hostname,
-        relevanceScore: 0.8,
-        type: 'web',
-      },
-    }));
-  }
-
-  /**
-   * SERP API (Alternative)
-   */
-  private async searchWithSerpApi(
-    query: string,
-    options: {
-      maxResults: number;
-      language: string;
-      region: string;
-    }
-  ): Promise<WebSearchResult[]> {
-    const params = new URLSearchParams({
-      api_key: this.SERP_API_KEY!,
-      q: query,
-      num: Math.min(options.maxResults, 20).toString(),
-      hl: options.language,
-      gl: options.region,
-    });
-
-    const response = await fetch(`https://serpapi.com/search?${params}`);
-
-    if (!response.ok) {
-      throw new Error(`SERP API error: ${response.status}`);
-    }
-
-    const data = await response.json();
-
-    return (data.organic_results || []).map((item: any) => ({
-      title: item.title,
-      url: item.link,
-      snippet: item.snippet,
-      source: 'SERP API',
-      metadata: {
-        domain: new URL(item.link).hostname,
-        relevanceScore: 0.7,
-        type: 'web',
-      },
-    }));
-  }
-
-  /**
-   * DuckDuckGo Instant Answer API (Free, limited)
-   */
-  private async searchWithDuckDuckGo(
-    query: string,
-    options: {
-      maxResults: number;
-    }
-  ): Promise<WebSearchResult[]> {
-    try {
-      // DuckDuckGo Instant Answer API（制限あり）
-      const params = new URLSearchParams({
-        q: query,
-        format: 'json',
-        no_html: '1',
-        skip_disambig: '1',
-      });
-
-      const response = await fetch(`https://api.duckduckgo.com/?${params}`);
-
-      if (!response.ok) {
-        throw new Error(`DuckDuckGo API error: ${response.status}`);
-      }
-
-      const data = await response.json();
-
-      const results: WebSearchResult[] = [];
-
-      // Abstract結果を追加
-      if (data.Abstract) {
-        results.push({
-          title: data.Heading || query,
-          url: data.AbstractURL || '#',
-          snippet: data.Abstract,
-          source: 'DuckDuckGo',
-          publishedAt: undefined, // DuckDuckGoは日付情報を提供しない
-          metadata: {
-            domain: data.AbstractURL ? new URL(data.AbstractURL).hostname : 'duckduckgo.com',
-            relevanceScore: 0.6,
-            type: 'abstract',
-          },
-        });
-      }
-
-      // Related Topics結果を追加
-      (data.RelatedTopics || []).slice(0, options.maxResults - 1).forEach((topic: any) => {
-        if (topic.FirstURL && topic.Text) {
-          results.push({
-            title: topic.Text.split(' - ')[0] || topic.Text,
-            url: topic.FirstURL,
-            snippet: topic.Text,
-            source: 'DuckDuckGo',
-            publishedAt: undefined, // DuckDuckGoは日付情報を提供しない
-            metadata: {
-              domain: new URL(topic.FirstURL).hostname,
-              relevanceScore: 0.5,
-              type: 'related',
-            },
-          });
-        }
-      });
-
-      return results;
-    } catch (error) {
-      console.error('DuckDuckGo search error:', error);
-      return [];
-    }
-  }
-
   /**
    * 検索結果の関連度スコアリング
    */
-  private scoreResults(results: WebSearchResult[], searchQuery: SearchQuery): WebSearchResult[] {
+  private scoreResults(
+    results: WebSearchResult[],
+    searchQuery: SearchQuery,
+    domainRules: DomainRuleSet
+  ): WebSearchResult[] {
     const queryTerms = searchQuery.query.toLowerCase().split(' ');
 
-    return results
-      .map((result) => {
+    return domainRules
+      .filter(results, (result) => result.url)
+      .items.map((result) => {
         let score = result.metadata?.relevanceScore || 0.5;
 
         // タイトルでのキーワードマッチ
@@ -316,31 +371,14 @@ export class WebSearchCollector {
         const snippetMatches = queryTerms.filter((term) => snippetLower.includes(term)).length;
         score += (snippetMatches / queryTerms.length) * 0.2;
 
-        // ドメインの信頼性
-        const trustedDomains = [
-          'github.com',
-          'stackoverflow.com',
-          'qiita.com',
-          'zenn.dev',
-          'dev.to',
-          'medium.com',
-          'react.dev',
-          'nextjs.org',
-          'typescript.org',
-        ];
-
-        if (
-          result.metadata?.domain &&
-          trustedDomains.some((domain) => result.metadata!.domain.includes(domain))
-        ) {
-          score += 0.2;
-        }
+        // ドメインルールによる加点（blockに一致する結果は事前に除外済み）
+        score += domainRules.getWeight(result.metadata?.domain || result.url);
 
         return {
           ...result,
           metadata: {
             ...result.metadata!,
-            relevanceScore: Math.min(1.0, score),
+            relevanceScore: Math.max(0, Math.min(1.0, score)),
           },
         };
       })
@@ -348,40 +386,10 @@ export class WebSearchCollector {
   }
 
   /**
-   * 日付パース
-   */
-  private parseDate(dateString?: string): Date | undefined {
-    if (!dateString) return undefined;
-
-    try {
-      const date = new Date(dateString);
-      // 有効な日付かチェック
-      if (isNaN(date.getTime())) {
-        return undefined;
-      }
-      return date;
-    } catch {
-      return undefined;
-    }
-  }
-
-  /**
-   * 利用可能な検索APIの確認
+   * 登録済み検索APIの稼働状況
    */
-  getAvailableApis(): string[] {
-    const apis: string[] = [];
-
-    if (this.GOOGLE_API_KEY && this.GOOGLE_CX) {
-      apis.push('Google Custom Search');
-    }
-
-    if (this.SERP_API_KEY) {
-      apis.push('SERP API');
-    }
-
-    apis.push('DuckDuckGo (Free)');
-
-    return apis;
+  getAvailableApis(): SearchProviderStatus[] {
+    return this.registry.getStatuses();
   }
 }
 
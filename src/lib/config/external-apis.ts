@@ -16,6 +16,7 @@ export const EXTERNAL_API_CONFIG = {
       maxRequests: 1000,
       windowMs: 24 * 60 * 60 * 1000, // 1日
     },
+    quotaWarning: 80, // 80%でwarning
     endpoints: {
       everything: '/everything',
       topHeadlines: '/top-headlines',
@@ -55,26 +56,35 @@ export const EXTERNAL_API_CONFIG = {
     },
   },
 
-  // RSS Feeds
-  rssFeeds: [
-    {
-      name: 'Hacker News',
-      url: 'https://news.ycombinator.com/rss',
-      category: 'tech',
-    },
-    {
-      name: 'Dev.to',
-      url: 'https://dev.to/feed',
-      category: 'programming',
-    },
-    {
-      name: 'CSS-Tricks',
-      url: 'https://css-tricks.com/feed/',
-      category: 'webdev',
+  // Hacker News (Algolia Search API)
+  hackerNews: {
+    baseUrl: 'https://hn.algolia.com/api/v1',
+    itemUrl: 'https://news.ycombinator.com/item?id=',
+    rateLimit: {
+      maxRequests: 10000,
+      windowMs: 60 * 60 * 1000, // 1時間
     },
-  ],
+  },
 } as const;
 
+// 外部APIごとの1日あたりの利用上限（warningPercentに達したら警告）
+export const API_QUOTAS = {
+  google: {
+    dailyLimit: EXTERNAL_API_CONFIG.googleSearch.rateLimit.maxRequests,
+    warningPercent: EXTERNAL_API_CONFIG.googleSearch.quotaWarning,
+  },
+  serpapi: { dailyLimit: 100, warningPercent: 80 },
+  newsapi: {
+    dailyLimit: EXTERNAL_API_CONFIG.newsApi.rateLimit.maxRequests,
+    warningPercent: EXTERNAL_API_CONFIG.newsApi.quotaWarning,
+  },
+  reddit: { dailyLimit: 5000, warningPercent: 80 },
+  github: { dailyLimit: 1000, warningPercent: 80 },
+  openai: { dailyLimit: 500, warningPercent: 80 },
+} as const;
+
+export type ApiQuotaProvider = keyof typeof API_QUOTAS;
+
 // APIキーの存在確認
 export function checkApiKeys() {
   const missing: string[] = [];
@@ -0,0 +1,112 @@
+export const LLM_PROVIDER_TYPES = ['openai', 'azure', 'openai-compatible'] as const;
+export type LlmProviderType = (typeof LLM_PROVIDER_TYPES)[number];
+
+function parseProviderType(value: string | undefined): LlmProviderType {
+  if (!value) return 'openai';
+  if ((LLM_PROVIDER_TYPES as readonly string[]).includes(value)) {
+    return value as LlmProviderType;
+  }
+  console.warn(`Unknown LLM_PROVIDER "${value}", falling back to openai`);
+  return 'openai';
+}
+
+function parseOptionalNumber(value: string | undefined): number | null {
+  if (!value) return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : null;
+}
+
+export interface LlmPrice {
+  // 100万トークンあたりのUSD
+  input: number;
+  output: number;
+}
+
+// モデル名の前方一致で参照する価格表（日付付きのモデル名にも一致させるため長いものを先に評価する）
+export const LLM_PRICES: Record<string, LlmPrice> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4-turbo': { input: 10, output: 30 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5 },
+  'o3-mini': { input: 1.1, output: 4.4 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+};
+
+export const LLM_CONFIG = {
+  provider: parseProviderType(process.env.LLM_PROVIDER),
+  // Azure以外で使うモデル名（Azureはデプロイ名を使う）
+  model: process.env.LLM_MODEL || 'gpt-4o-mini', // コスト効率の良いモデル
+  timeoutMs: Number(process.env.LLM_TIMEOUT_MS) || 60 * 1000,
+
+  openai: {
+    apiKey: process.env.OPENAI_API_KEY,
+  },
+
+  azure: {
+    endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+    apiKey: process.env.AZURE_OPENAI_API_KEY,
+    deployment: process.env.AZURE_OPENAI_DEPLOYMENT,
+    apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+  },
+
+  // Ollama・llama.cpp server・vLLM等のOpenAI互換サーバー
+  compatible: {
+    baseUrl: process.env.LLM_BASE_URL,
+    // ローカルサーバーは多くの場合APIキー不要
+    apiKey: process.env.LLM_API_KEY,
+    // response_format（JSONモード）に対応していないサーバーではfalse
+    jsonMode: process.env.LLM_JSON_MODE !== 'false',
+  },
+
+  // 価格表にないモデル（Azureのデプロイ名等）の価格を指定する場合
+  priceOverride:
+    parseOptionalNumber(process.env.LLM_INPUT_PRICE_PER_1M) !== null ||
+    parseOptionalNumber(process.env.LLM_OUTPUT_PRICE_PER_1M) !== null
+      ? {
+          input: parseOptionalNumber(process.env.LLM_INPUT_PRICE_PER_1M) ?? 0,
+          output: parseOptionalNumber(process.env.LLM_OUTPUT_PRICE_PER_1M) ?? 0,
+        }
+      : null,
+
+  // 構造化出力（JSON）の取得の再試行
+  structuredOutput: {
+    // 一時的なエラー（接続エラー・タイムアウト・429・5xx）の再試行回数
+    maxRetries: 2,
+    // 検証エラーを伝えて再生成させる回数
+    maxReprompts: 1,
+    baseBackoffMs: 1000,
+  },
+
+  // 記事生成前の品質評価（content-quality-evaluation）
+  qualityGate: {
+    enabled: process.env.QUALITY_GATE_ENABLED !== 'false',
+    // これ未満のスコア（0-10）の収集結果は記事生成に使わない
+    minScore: parseOptionalNumber(process.env.QUALITY_GATE_MIN_SCORE) ?? 5,
+    // 1回の収集で評価する件数（関連度の高い順）。超えた分は評価せずに残す
+    maxItems: parseOptionalNumber(process.env.QUALITY_GATE_MAX_ITEMS) ?? 30,
+    concurrency: 3,
+  },
+
+  // 推定コスト（USD）の上限。超えた場合はバッチ処理を停止する（未設定は無制限）
+  budget: {
+    dailyUsd: parseOptionalNumber(process.env.LLM_DAILY_BUDGET_USD),
+    monthlyUsd: parseOptionalNumber(process.env.LLM_MONTHLY_BUDGET_USD),
+  },
+};
+
+/**
+ * モデルの価格（価格表にない場合はnull）
+ */
+export function findLlmPrice(model: string): LlmPrice | null {
+  if (LLM_CONFIG.priceOverride) {
+    return LLM_CONFIG.priceOverride;
+  }
+
+  const key = Object.keys(LLM_PRICES)
+    .filter((name) => model === name || model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? LLM_PRICES[key] : null;
+}
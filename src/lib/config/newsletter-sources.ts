@@ -0,0 +1,63 @@
+// メールニュースレターの送信元設定
+export interface NewsletterSender {
+  // 送信元アドレス（'news@example.com'）またはドメイン（'@example.com'）
+  match: string;
+  name: string;
+  category: string;
+  active: boolean;
+}
+
+export const NEWSLETTER_SENDERS: NewsletterSender[] = [
+  {
+    match: '@cooperpress.com',
+    name: 'Cooperpress Weekly',
+    category: 'javascript',
+    active: true,
+  },
+  {
+    match: 'dan@tldrnewsletter.com',
+    name: 'TLDR',
+    category: 'tech',
+    active: true,
+  },
+  {
+    match: '@substack.com',
+    name: 'Substack',
+    category: 'tech',
+    active: false,
+  },
+];
+
+export const NEWSLETTER_CONFIG = {
+  // Maildir（cur/newを持つディレクトリ、または.emlファイルを置いたディレクトリ）
+  maildirPath: process.env.NEWSLETTER_MAILDIR_PATH || null,
+  // mboxファイル
+  mboxPath: process.env.NEWSLETTER_MBOX_PATH || null,
+  // 送信元の許可リストに一致しないメールも取り込むか
+  allowUnknownSenders: process.env.NEWSLETTER_ALLOW_UNKNOWN_SENDERS === 'true',
+  // 許可リストにカテゴリがない場合の分類
+  defaultCategory: 'newsletter',
+};
+
+/**
+ * 環境変数NEWSLETTER_SENDERS（'news@example.com=tech,@example.org=ai'）で追加された送信元
+ */
+function getEnvNewsletterSenders(): NewsletterSender[] {
+  return (process.env.NEWSLETTER_SENDERS || '')
+    .split(',')
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      const [match, category] = entry.split('=').map((value) => value.trim());
+      return {
+        match: match.toLowerCase(),
+        name: match.replace(/^@/, ''),
+        category: category || NEWSLETTER_CONFIG.defaultCategory,
+        active: true,
+      };
+    });
+}
+
+export function getActiveNewsletterSenders(): NewsletterSender[] {
+  return [...getEnvNewsletterSenders(), ...NEWSLETTER_SENDERS].filter((sender) => sender.active);
+}
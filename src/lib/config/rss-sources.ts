@@ -38,6 +38,15 @@ export const RSS_SOURCES: RSSSource[] = [
     active: true,
     priority: 6,
   },
+  {
+    id: 'css-tricks',
+    name: 'CSS-Tricks',
+    url: 'https://css-tricks.com/feed/',
+    category: 'tech',
+    description: 'CSS・フロントエンド開発の記事',
+    active: true,
+    priority: 6,
+  },
 
   // React/Next.js 特化
   {
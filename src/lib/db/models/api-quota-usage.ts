@@ -0,0 +1,46 @@
+import { prisma } from '@/lib/db/prisma';
+import type { ApiQuotaUsage } from '@prisma/client';
+
+/**
+ * UTC基準の日付（時刻を切り捨て）
+ */
+export function toQuotaDate(date: Date = new Date()): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+export class ApiQuotaUsageModel {
+  static async findByDate(date: Date = new Date()): Promise<ApiQuotaUsage[]> {
+    return prisma.apiQuotaUsage.findMany({
+      where: { date: toQuotaDate(date) },
+    });
+  }
+
+  static async find(provider: string, date: Date = new Date()): Promise<ApiQuotaUsage | null> {
+    return prisma.apiQuotaUsage.findUnique({
+      where: { provider_date: { provider, date: toQuotaDate(date) } },
+    });
+  }
+
+  /**
+   * 利用回数を加算し、加算後のレコードを返す
+   */
+  static async increment(provider: string, amount = 1): Promise<ApiQuotaUsage> {
+    const date = toQuotaDate();
+    return prisma.apiQuotaUsage.upsert({
+      where: { provider_date: { provider, date } },
+      update: { count: { increment: amount } },
+      create: { provider, date, count: amount },
+    });
+  }
+
+  /**
+   * 警告済みとして記録（既に警告済みの場合はfalse）
+   */
+  static async markWarned(id: string): Promise<boolean> {
+    const { count } = await prisma.apiQuotaUsage.updateMany({
+      where: { id, warnedAt: null },
+      data: { warnedAt: new Date() },
+    });
+    return count > 0;
+  }
+}
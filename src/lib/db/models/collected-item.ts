@@ -0,0 +1,176 @@
+import { prisma } from '@/lib/db/prisma';
+import type { CollectedItem } from '@prisma/client';
+import { canonicalizeUrl } from '@/lib/utils/url-canonicalizer';
+
+export interface CollectedItemInput {
+  url: string;
+  title: string;
+  snippet: string;
+  source: string;
+  provider?: string | null;
+  publishedAt?: Date | null;
+  query?: string | null;
+  relevanceScore?: number;
+  note?: string | null;
+  tags?: string[];
+  submittedBy?: string | null;
+}
+
+export interface CollectedItemUsage {
+  item: CollectedItem;
+  articleIds: string[];
+}
+
+export interface CollectedItemQuality {
+  score: number;
+  reasoning: string;
+  flags: string[];
+  // 評価に使ったプロンプトテンプレートのバージョン
+  promptVersion: number;
+}
+
+export class CollectedItemModel {
+  static async findByCanonicalUrl(url: string): Promise<CollectedItem | null> {
+    return prisma.collectedItem.findUnique({
+      where: { canonicalUrl: canonicalizeUrl(url) },
+    });
+  }
+
+  /**
+   * 収集結果を記録（既存のURLは最終確認日時と出現回数を更新）
+   */
+  static async recordMany(inputs: CollectedItemInput[]): Promise<CollectedItem[]> {
+    const now = new Date();
+
+    return prisma.$transaction(
+      inputs.map((input) => {
+        const data = {
+          url: input.url,
+          title: input.title,
+          snippet: input.snippet,
+          source: input.source,
+          ...(input.provider !== undefined && { provider: input.provider }),
+          ...(input.publishedAt !== undefined && { publishedAt: input.publishedAt }),
+          ...(input.query !== undefined && { query: input.query }),
+          ...(input.relevanceScore !== undefined && { relevanceScore: input.relevanceScore }),
+          ...(input.note !== undefined && { note: input.note }),
+          ...(input.tags !== undefined && { tags: input.tags }),
+          ...(input.submittedBy !== undefined && { submittedBy: input.submittedBy }),
+        };
+
+        return prisma.collectedItem.upsert({
+          where: { canonicalUrl: canonicalizeUrl(input.url) },
+          update: {
+            ...data,
+            lastSeenAt: now,
+            timesSeen: { increment: 1 },
+          },
+          create: {
+            ...data,
+            canonicalUrl: canonicalizeUrl(input.url),
+            firstSeenAt: now,
+            lastSeenAt: now,
+          },
+        });
+      })
+    );
+  }
+
+  /**
+   * URLごとの記事での使用状況を取得（キーは正規化URL）
+   */
+  static async findUsage(urls: string[]): Promise<Map<string, CollectedItemUsage>> {
+    const items = await prisma.collectedItem.findMany({
+      where: { canonicalUrl: { in: [...new Set(urls.map(canonicalizeUrl))] } },
+      include: { articles: { select: { articleId: true } } },
+    });
+
+    return new Map(
+      items.map(({ articles, ...item }) => [
+        item.canonicalUrl,
+        { item, articleIds: articles.map((article) => article.articleId) },
+      ])
+    );
+  }
+
+  /**
+   * 保存済みの品質評価を取得（キーは正規化URL、指定したバージョンのテンプレートで評価したもののみ）
+   */
+  static async findQualityScores(
+    urls: string[],
+    promptVersion: number
+  ): Promise<Map<string, CollectedItemQuality>> {
+    const items = await prisma.collectedItem.findMany({
+      where: {
+        canonicalUrl: { in: [...new Set(urls.map(canonicalizeUrl))] },
+        qualityScore: { not: null },
+        qualityPromptVersion: promptVersion,
+      },
+      select: {
+        canonicalUrl: true,
+        qualityScore: true,
+        qualityReasoning: true,
+        qualityFlags: true,
+      },
+    });
+
+    return new Map(
+      items.map((item) => [
+        item.canonicalUrl,
+        {
+          score: item.qualityScore ?? 0,
+          reasoning: item.qualityReasoning ?? '',
+          flags: item.qualityFlags,
+          promptVersion,
+        },
+      ])
+    );
+  }
+
+  /**
+   * 品質評価を保存（収集履歴にないURLは何もしない）
+   */
+  static async saveQualityScore(url: string, quality: CollectedItemQuality): Promise<void> {
+    await prisma.collectedItem.updateMany({
+      where: { canonicalUrl: canonicalizeUrl(url) },
+      data: {
+        qualityScore: quality.score,
+        qualityReasoning: quality.reasoning,
+        qualityFlags: quality.flags,
+        qualityPromptVersion: quality.promptVersion,
+        qualityEvaluatedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * 記事の生成に使われたソースを記録
+   * 収集履歴にないURL（RSSなど）も新規に登録する
+   */
+  static async markUsedInArticle(articleId: string, sources: CollectedItemInput[]): Promise<void> {
+    const items = await prisma.$transaction(
+      sources
+        .filter((source) => source.url)
+        .map((source) =>
+          prisma.collectedItem.upsert({
+            where: { canonicalUrl: canonicalizeUrl(source.url) },
+            update: {},
+            create: {
+              canonicalUrl: canonicalizeUrl(source.url),
+              url: source.url,
+              title: source.title,
+              snippet: source.snippet,
+              source: source.source,
+              provider: source.provider,
+              query: source.query,
+            },
+          })
+        )
+    );
+
+    await prisma.collectedItemArticle.createMany({
+      data: items.map((item) => ({ collectedItemId: item.id, articleId })),
+      skipDuplicates: true,
+    });
+  }
+}
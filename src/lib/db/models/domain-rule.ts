@@ -0,0 +1,90 @@
+import { prisma } from '@/lib/db/prisma';
+import type { DomainRule } from '@prisma/client';
+
+export const DOMAIN_RULE_ACTIONS = ['boost', 'neutral', 'block'] as const;
+export type DomainRuleAction = (typeof DOMAIN_RULE_ACTIONS)[number];
+
+export interface DomainRuleInput {
+  userId?: string | null;
+  domain: string;
+  action: DomainRuleAction;
+  weight?: number;
+  note?: string | null;
+}
+
+/**
+ * 'https://www.Example.com/path' や '*.example.com' を 'example.com' に揃える
+ */
+export function normalizeDomain(value: string): string {
+  let domain = value.trim().toLowerCase();
+  try {
+    if (/^[a-z][a-z0-9+.-]*:\/\//.test(domain)) {
+      domain = new URL(domain).hostname;
+    }
+  } catch {
+    // URLとして解釈できない場合はそのまま扱う
+  }
+  return domain
+    .replace(/^\*\./, '')
+    .replace(/^www\./, '')
+    .replace(/[/:].*$/, '')
+    .replace(/\.$/, '');
+}
+
+export class DomainRuleModel {
+  /**
+   * 全ユーザー共通のルールと、指定ユーザーのルール
+   */
+  static async findApplicable(userId?: string | null): Promise<DomainRule[]> {
+    return prisma.domainRule.findMany({
+      where: {
+        OR: [{ userId: null }, ...(userId ? [{ userId }] : [])],
+      },
+      orderBy: { domain: 'asc' },
+    });
+  }
+
+  static async findAll(): Promise<DomainRule[]> {
+    return prisma.domainRule.findMany({
+      orderBy: [{ userId: 'asc' }, { domain: 'asc' }],
+    });
+  }
+
+  static async findById(id: string): Promise<DomainRule | null> {
+    return prisma.domainRule.findUnique({
+      where: { id },
+    });
+  }
+
+  /**
+   * 同じユーザー（共通ルールの場合はuserIdがnull）・ドメインのルール
+   * userIdがnullの組は一意制約が効かないためfindFirstで検索する
+   */
+  static async findByDomain(domain: string, userId?: string | null): Promise<DomainRule | null> {
+    return prisma.domainRule.findFirst({
+      where: { domain: normalizeDomain(domain), userId: userId ?? null },
+    });
+  }
+
+  static async create(input: DomainRuleInput): Promise<DomainRule> {
+    return prisma.domainRule.create({
+      data: { ...input, domain: normalizeDomain(input.domain) },
+    });
+  }
+
+  static async update(id: string, input: Partial<DomainRuleInput>): Promise<DomainRule> {
+    return prisma.domainRule.update({
+      where: { id },
+      data: {
+        ...input,
+        ...(input.domain !== undefined && { domain: normalizeDomain(input.domain) }),
+      },
+    });
+  }
+
+  static async delete(id: string): Promise<DomainRule> {
+    return prisma.domainRule.delete({
+      where: { id },
+    });
+  }
+}
@@ -0,0 +1,192 @@
+import { prisma } from '@/lib/db/prisma';
+import type { FeedSource, Prisma } from '@prisma/client';
+import type { RSSSource } from '@/lib/config/rss-sources';
+
+// 連続失敗がこの回数に達したフィードは自動的に無効化する
+export const MAX_CONSECUTIVE_FAILURES = 5;
+
+export interface FeedSourceInput {
+  url: string;
+  name: string;
+  category: string;
+  description?: string | null;
+  priority?: number;
+  active?: boolean;
+}
+
+export interface FeedHealthSummary {
+  total: number;
+  active: number;
+  failing: number;
+  autoDisabled: number;
+  lastFetchedAt: Date | null;
+}
+
+export class FeedSourceModel {
+  static async findAll(): Promise<FeedSource[]> {
+    return prisma.feedSource.findMany({
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  static async count(): Promise<number> {
+    return prisma.feedSource.count();
+  }
+
+  static async findActive(category?: string): Promise<FeedSource[]> {
+    return prisma.feedSource.findMany({
+      where: {
+        active: true,
+        ...(category && { category }),
+      },
+      orderBy: [{ priority: 'desc' }, { name: 'asc' }],
+    });
+  }
+
+  static async findById(id: string): Promise<FeedSource | null> {
+    return prisma.feedSource.findUnique({
+      where: { id },
+    });
+  }
+
+  static async findByUrl(url: string): Promise<FeedSource | null> {
+    return prisma.feedSource.findUnique({
+      where: { url },
+    });
+  }
+
+  static async findByUrls(urls: string[]): Promise<FeedSource[]> {
+    return prisma.feedSource.findMany({
+      where: { url: { in: urls } },
+    });
+  }
+
+  static async create(input: FeedSourceInput): Promise<FeedSource> {
+    return prisma.feedSource.create({
+      data: input,
+    });
+  }
+
+  static async update(id: string, input: Partial<FeedSourceInput>): Promise<FeedSource> {
+    const data: Prisma.FeedSourceUpdateInput = { ...input };
+
+    // 手動で再有効化した場合は失敗カウントをリセット
+    if (input.active === true) {
+      data.consecutiveFailures = 0;
+      data.lastError = null;
+    }
+
+    return prisma.feedSource.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * URLをキーに一括登録・更新（OPMLインポート用）
+   */
+  static async upsertMany(inputs: FeedSourceInput[]): Promise<FeedSource[]> {
+    return prisma.$transaction(
+      inputs.map((input) =>
+        prisma.feedSource.upsert({
+          where: { url: input.url },
+          update: {
+            ...input,
+            // 再有効化した場合は失敗カウントをリセット
+            ...(input.active === true && { consecutiveFailures: 0, lastError: null }),
+          },
+          create: input,
+        })
+      )
+    );
+  }
+
+  static async delete(id: string): Promise<FeedSource> {
+    return prisma.feedSource.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * 取得成功を記録（ETag/Last-Modifiedを保存し失敗カウントをリセット）
+   */
+  static async recordFetchSuccess(
+    id: string,
+    cacheHeaders: { etag?: string | null; lastModified?: string | null }
+  ): Promise<void> {
+    await prisma.feedSource.update({
+      where: { id },
+      data: {
+        lastFetchedAt: new Date(),
+        lastError: null,
+        consecutiveFailures: 0,
+        ...(cacheHeaders.etag !== undefined && { etag: cacheHeaders.etag }),
+        ...(cacheHeaders.lastModified !== undefined && {
+          lastModified: cacheHeaders.lastModified,
+        }),
+      },
+    });
+  }
+
+  /**
+   * 取得失敗を記録し、連続失敗が上限に達したら無効化する
+   */
+  static async recordFetchFailure(id: string, errorMessage: string): Promise<FeedSource> {
+    const feed = await prisma.feedSource.update({
+      where: { id },
+      data: {
+        lastFetchedAt: new Date(),
+        lastError: errorMessage.slice(0, 1000),
+        consecutiveFailures: { increment: 1 },
+      },
+    });
+
+    if (feed.active && feed.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      return prisma.feedSource.update({
+        where: { id },
+        data: { active: false },
+      });
+    }
+
+    return feed;
+  }
+
+  static async getHealthSummary(): Promise<FeedHealthSummary> {
+    const [total, active, failing, autoDisabled, latest] = await Promise.all([
+      prisma.feedSource.count(),
+      prisma.feedSource.count({ where: { active: true } }),
+      prisma.feedSource.count({ where: { active: true, consecutiveFailures: { gt: 0 } } }),
+      prisma.feedSource.count({
+        where: { active: false, consecutiveFailures: { gte: MAX_CONSECUTIVE_FAILURES } },
+      }),
+      prisma.feedSource.findFirst({
+        where: { lastFetchedAt: { not: null } },
+        orderBy: { lastFetchedAt: 'desc' },
+        select: { lastFetchedAt: true },
+      }),
+    ]);
+
+    return {
+      total,
+      active,
+      failing,
+      autoDisabled,
+      lastFetchedAt: latest?.lastFetchedAt ?? null,
+    };
+  }
+
+  /**
+   * コレクターが扱うRSSSource形式に変換
+   */
+  static toRSSSource(feed: FeedSource): RSSSource {
+    return {
+      id: feed.id,
+      name: feed.name,
+      url: feed.url,
+      category: feed.category,
+      description: feed.description || '',
+      active: feed.active,
+      priority: feed.priority,
+    };
+  }
+}
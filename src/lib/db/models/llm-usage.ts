@@ -0,0 +1,116 @@
+import { prisma } from '@/lib/db/prisma';
+import type { LlmUsage } from '@prisma/client';
+import { toQuotaDate } from './api-quota-usage';
+
+export interface LlmUsageInput {
+  provider: string;
+  model: string;
+  operation: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  latencyMs: number;
+  estimatedCost: number | null;
+  userId?: string | null;
+  collectionJobId?: string | null;
+  articleId?: string | null;
+  requestId?: string | null;
+}
+
+export interface LlmUsageTotals {
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+export type LlmUsageGroupField = 'model' | 'operation' | 'userId';
+
+const sumFields = {
+  promptTokens: true,
+  completionTokens: true,
+  totalTokens: true,
+  estimatedCost: true,
+} as const;
+
+function toTotals(row: {
+  _count: { _all: number };
+  _sum: {
+    promptTokens: number | null;
+    completionTokens: number | null;
+    totalTokens: number | null;
+    estimatedCost: number | null;
+  };
+}): LlmUsageTotals {
+  return {
+    calls: row._count._all,
+    promptTokens: row._sum.promptTokens ?? 0,
+    completionTokens: row._sum.completionTokens ?? 0,
+    totalTokens: row._sum.totalTokens ?? 0,
+    estimatedCost: row._sum.estimatedCost ?? 0,
+  };
+}
+
+export class LlmUsageModel {
+  static async create(input: LlmUsageInput): Promise<LlmUsage> {
+    return prisma.llmUsage.create({
+      data: { ...input, date: toQuotaDate() },
+    });
+  }
+
+  /**
+   * 記事の保存後、同じリクエスト内の呼び出しに記事IDを設定
+   */
+  static async assignArticle(requestId: string, articleId: string): Promise<number> {
+    const result = await prisma.llmUsage.updateMany({
+      where: { requestId },
+      data: { articleId },
+    });
+    return result.count;
+  }
+
+  static async getTotals(where: { from?: Date; requestId?: string } = {}): Promise<LlmUsageTotals> {
+    const result = await prisma.llmUsage.aggregate({
+      where: {
+        ...(where.from && { date: { gte: toQuotaDate(where.from) } }),
+        ...(where.requestId && { requestId: where.requestId }),
+      },
+      _count: { _all: true },
+      _sum: sumFields,
+    });
+    return toTotals(result);
+  }
+
+  /**
+   * 日別の合計（UTCの日付、古い順）
+   */
+  static async findDailyTotals(from: Date): Promise<(LlmUsageTotals & { date: Date })[]> {
+    const rows = await prisma.llmUsage.groupBy({
+      by: ['date'],
+      where: { date: { gte: toQuotaDate(from) } },
+      _count: { _all: true },
+      _sum: sumFields,
+      orderBy: { date: 'asc' },
+    });
+    return rows.map((row) => ({ date: row.date, ...toTotals(row) }));
+  }
+
+  /**
+   * モデル・処理・ユーザーごとの合計（推定コストの高い順）
+   */
+  static async findTotalsBy(
+    field: LlmUsageGroupField,
+    from: Date
+  ): Promise<(LlmUsageTotals & { key: string | null })[]> {
+    const rows = await prisma.llmUsage.groupBy({
+      by: [field],
+      where: { date: { gte: toQuotaDate(from) } },
+      _count: { _all: true },
+      _sum: sumFields,
+    });
+    return rows
+      .map((row) => ({ key: row[field], ...toTotals(row) }))
+      .sort((a, b) => b.estimatedCost - a.estimatedCost || b.totalTokens - a.totalTokens);
+  }
+}
@@ -0,0 +1,164 @@
+import { prisma } from '@/lib/db/prisma';
+import type { PageSnapshot, PageWatch, Prisma } from '@prisma/client';
+import { MAX_CONSECUTIVE_FAILURES } from './feed-source';
+
+export const PAGE_WATCH_KINDS = ['sitemap', 'changelog'] as const;
+export type PageWatchKind = (typeof PAGE_WATCH_KINDS)[number];
+
+// 監視対象ごとに保持するスナップショット数
+const SNAPSHOT_RETENTION = 5;
+
+export interface PageWatchInput {
+  url: string;
+  name: string;
+  kind: PageWatchKind;
+  category: string;
+  active?: boolean;
+}
+
+export class PageWatchModel {
+  static async findAll(): Promise<PageWatch[]> {
+    return prisma.pageWatch.findMany({
+      orderBy: [{ kind: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  static async findActive(kind?: PageWatchKind): Promise<PageWatch[]> {
+    return prisma.pageWatch.findMany({
+      where: {
+        active: true,
+        ...(kind && { kind }),
+      },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  static async findById(id: string): Promise<PageWatch | null> {
+    return prisma.pageWatch.findUnique({
+      where: { id },
+    });
+  }
+
+  static async findByUrl(url: string): Promise<PageWatch | null> {
+    return prisma.pageWatch.findUnique({
+      where: { url },
+    });
+  }
+
+  static async create(input: PageWatchInput): Promise<PageWatch> {
+    return prisma.pageWatch.create({
+      data: input,
+    });
+  }
+
+  static async update(id: string, input: Partial<PageWatchInput>): Promise<PageWatch> {
+    const data: Prisma.PageWatchUpdateInput = { ...input };
+
+    // 手動で再有効化した場合は失敗カウントをリセット
+    if (input.active === true) {
+      data.consecutiveFailures = 0;
+      data.lastError = null;
+    }
+
+    // 種類やURLが変わった場合は以前のスナップショットと比較できない
+    if (input.kind !== undefined || input.url !== undefined) {
+      data.snapshots = { deleteMany: {} };
+      data.etag = null;
+      data.lastModified = null;
+    }
+
+    return prisma.pageWatch.update({
+      where: { id },
+      data,
+    });
+  }
+
+  static async delete(id: string): Promise<PageWatch> {
+    return prisma.pageWatch.delete({
+      where: { id },
+    });
+  }
+
+  static async findLatestSnapshot(watchId: string): Promise<PageSnapshot | null> {
+    return prisma.pageSnapshot.findFirst({
+      where: { watchId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * 変更があった場合のスナップショットを保存し、古いものを削除
+   */
+  static async saveSnapshot(
+    watchId: string,
+    contentHash: string,
+    content: Prisma.InputJsonValue
+  ): Promise<PageSnapshot> {
+    const snapshot = await prisma.pageSnapshot.create({
+      data: { watchId, contentHash, content },
+    });
+
+    const stale = await prisma.pageSnapshot.findMany({
+      where: { watchId },
+      orderBy: { createdAt: 'desc' },
+      skip: SNAPSHOT_RETENTION,
+      select: { id: true },
+    });
+    if (stale.length > 0) {
+      await prisma.pageSnapshot.deleteMany({
+        where: { id: { in: stale.map((item) => item.id) } },
+      });
+    }
+
+    await prisma.pageWatch.update({
+      where: { id: watchId },
+      data: { lastChangedAt: new Date() },
+    });
+
+    return snapshot;
+  }
+
+  /**
+   * 確認成功を記録（ETag/Last-Modifiedを保存し失敗カウントをリセット）
+   */
+  static async recordCheckSuccess(
+    id: string,
+    cacheHeaders: { etag?: string | null; lastModified?: string | null }
+  ): Promise<void> {
+    await prisma.pageWatch.update({
+      where: { id },
+      data: {
+        lastCheckedAt: new Date(),
+        lastError: null,
+        consecutiveFailures: 0,
+        ...(cacheHeaders.etag !== undefined && { etag: cacheHeaders.etag }),
+        ...(cacheHeaders.lastModified !== undefined && {
+          lastModified: cacheHeaders.lastModified,
+        }),
+      },
+    });
+  }
+
+  /**
+   * 確認失敗を記録し、連続失敗が上限に達したら無効化する
+   */
+  static async recordCheckFailure(id: string, errorMessage: string): Promise<PageWatch> {
+    const watch = await prisma.pageWatch.update({
+      where: { id },
+      data: {
+        lastCheckedAt: new Date(),
+        lastError: errorMessage.slice(0, 1000),
+        consecutiveFailures: { increment: 1 },
+      },
+    });
+
+    if (watch.active && watch.consecutiveFailures >= MAX_CONSECUTIVE_FAILURES) {
+      return prisma.pageWatch.update({
+        where: { id },
+        data: { active: false },
+      });
+    }
+
+    return watch;
+  }
+}
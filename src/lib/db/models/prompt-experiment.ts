@@ -0,0 +1,179 @@
+import { prisma } from '@/lib/db/prisma';
+import type {
+  Prisma,
+  PromptExperiment,
+  PromptExperimentOutcome,
+  PromptExperimentVariant,
+} from '@prisma/client';
+
+export const PROMPT_EXPERIMENT_STATUSES = ['draft', 'running', 'stopped'] as const;
+export type PromptExperimentStatus = (typeof PROMPT_EXPERIMENT_STATUSES)[number];
+
+export type PromptExperimentWithVariants = PromptExperiment & {
+  variants: PromptExperimentVariant[];
+};
+
+export interface PromptExperimentInput {
+  name: string;
+  templateId: string;
+  variants: { version: number; weight: number }[];
+}
+
+export interface PromptExperimentOutcomeInput {
+  experimentId: string;
+  variantId: string;
+  articleId: string;
+  aiModel: string;
+  qualityScore: number;
+  interestScore: number;
+}
+
+export interface PromptVariantStats {
+  variantId: string;
+  version: number;
+  weight: number;
+  articles: number;
+  avgQualityScore: number | null;
+  avgInterestScore: number | null;
+  // 1回以上手動で編集された記事の数と編集回数の合計
+  editedArticles: number;
+  totalEdits: number;
+  deletedArticles: number;
+  models: string[];
+}
+
+const withVariants = {
+  variants: { orderBy: { version: 'asc' } },
+} satisfies Prisma.PromptExperimentInclude;
+
+export class PromptExperimentModel {
+  static async findAll(): Promise<PromptExperimentWithVariants[]> {
+    return prisma.promptExperiment.findMany({
+      include: withVariants,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  static async findById(id: string): Promise<PromptExperimentWithVariants | null> {
+    return prisma.promptExperiment.findUnique({
+      where: { id },
+      include: withVariants,
+    });
+  }
+
+  /**
+   * テンプレートの実行中の実験（テンプレートごとに1つまで）
+   */
+  static async findRunning(templateId: string): Promise<PromptExperimentWithVariants | null> {
+    return prisma.promptExperiment.findFirst({
+      where: { templateId, status: 'running' },
+      include: withVariants,
+    });
+  }
+
+  static async create(input: PromptExperimentInput): Promise<PromptExperimentWithVariants> {
+    return prisma.promptExperiment.create({
+      data: {
+        name: input.name,
+        templateId: input.templateId,
+        variants: { create: input.variants },
+      },
+      include: withVariants,
+    });
+  }
+
+  static async updateStatus(
+    id: string,
+    status: PromptExperimentStatus
+  ): Promise<PromptExperimentWithVariants> {
+    return prisma.promptExperiment.update({
+      where: { id },
+      data: {
+        status,
+        ...(status === 'running' && { startedAt: new Date(), endedAt: null }),
+        ...(status === 'stopped' && { endedAt: new Date() }),
+      },
+      include: withVariants,
+    });
+  }
+
+  static async delete(id: string): Promise<PromptExperiment> {
+    return prisma.promptExperiment.delete({
+      where: { id },
+    });
+  }
+
+  static async recordOutcome(
+    input: PromptExperimentOutcomeInput
+  ): Promise<PromptExperimentOutcome> {
+    return prisma.promptExperimentOutcome.create({
+      data: input,
+    });
+  }
+
+  /**
+   * 記事の手動編集を記録（実験対象外の記事は何もしない）
+   */
+  static async recordEdit(articleId: string): Promise<void> {
+    await prisma.promptExperimentOutcome.updateMany({
+      where: { articleId },
+      data: { editCount: { increment: 1 } },
+    });
+  }
+
+  static async recordDeletion(articleId: string): Promise<void> {
+    await prisma.promptExperimentOutcome.updateMany({
+      where: { articleId, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+  }
+
+  /**
+   * バリアントごとの結果を集計
+   */
+  static async getVariantStats(
+    experiment: PromptExperimentWithVariants
+  ): Promise<PromptVariantStats[]> {
+    const where = { experimentId: experiment.id };
+
+    const [totals, edited, deleted, models] = await Promise.all([
+      prisma.promptExperimentOutcome.groupBy({
+        by: ['variantId'],
+        where,
+        _count: { _all: true },
+        _avg: { qualityScore: true, interestScore: true },
+        _sum: { editCount: true },
+      }),
+      prisma.promptExperimentOutcome.groupBy({
+        by: ['variantId'],
+        where: { ...where, editCount: { gt: 0 } },
+        _count: { _all: true },
+      }),
+      prisma.promptExperimentOutcome.groupBy({
+        by: ['variantId'],
+        where: { ...where, deletedAt: { not: null } },
+        _count: { _all: true },
+      }),
+      prisma.promptExperimentOutcome.groupBy({
+        by: ['variantId', 'aiModel'],
+        where,
+      }),
+    ]);
+
+    return experiment.variants.map((variant) => {
+      const total = totals.find((row) => row.variantId === variant.id);
+      return {
+        variantId: variant.id,
+        version: variant.version,
+        weight: variant.weight,
+        articles: total?._count._all ?? 0,
+        avgQualityScore: total?._avg.qualityScore ?? null,
+        avgInterestScore: total?._avg.interestScore ?? null,
+        editedArticles: edited.find((row) => row.variantId === variant.id)?._count._all ?? 0,
+        totalEdits: total?._sum.editCount ?? 0,
+        deletedArticles: deleted.find((row) => row.variantId === variant.id)?._count._all ?? 0,
+        models: models.filter((row) => row.variantId === variant.id).map((row) => row.aiModel),
+      };
+    });
+  }
+}
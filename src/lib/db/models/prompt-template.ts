@@ -0,0 +1,182 @@
+import { prisma } from '@/lib/db/prisma';
+import type { PromptTemplate, PromptTemplateVersion } from '@prisma/client';
+import type { PromptTemplateDefinition } from '@/lib/ai/types';
+
+export type PromptTemplateWithCount = PromptTemplate & { _count: { versions: number } };
+export type PromptTemplateWithVersions = PromptTemplate & { versions: PromptTemplateVersion[] };
+
+export interface PromptVersionInput {
+  systemPrompt: string;
+  template: string;
+  note?: string | null;
+  createdBy?: string | null;
+  // 保存と同時に使用中のバージョンにする
+  activate?: boolean;
+}
+
+/**
+ * テンプレート中の {{変数}} を出現順に重複なく取得
+ */
+export function extractTemplateVariables(...texts: string[]): string[] {
+  const variables = new Set<string>();
+  for (const text of texts) {
+    for (const [, name] of text.matchAll(/{{\s*([\w.-]+)\s*}}/g)) {
+      variables.add(name);
+    }
+  }
+  return [...variables];
+}
+
+export class PromptTemplateModel {
+  static async findAll(): Promise<PromptTemplateWithCount[]> {
+    return prisma.promptTemplate.findMany({
+      include: { _count: { select: { versions: true } } },
+      orderBy: [{ category: 'asc' }, { id: 'asc' }],
+    });
+  }
+
+  static async findById(id: string): Promise<PromptTemplateWithVersions | null> {
+    return prisma.promptTemplate.findUnique({
+      where: { id },
+      include: { versions: { orderBy: { version: 'desc' } } },
+    });
+  }
+
+  static async findIds(): Promise<string[]> {
+    const templates = await prisma.promptTemplate.findMany({ select: { id: true } });
+    return templates.map((template) => template.id);
+  }
+
+  /**
+   * 使用中のバージョンを持つテンプレートとそのバージョン
+   */
+  static async findActiveVersions(): Promise<
+    { template: PromptTemplate; version: PromptTemplateVersion }[]
+  > {
+    const templates = await prisma.promptTemplate.findMany({
+      where: { activeVersion: { not: null } },
+    });
+    if (templates.length === 0) {
+      return [];
+    }
+
+    const versions = await prisma.promptTemplateVersion.findMany({
+      where: {
+        OR: templates.map((template) => ({
+          templateId: template.id,
+          version: template.activeVersion!,
+        })),
+      },
+    });
+    const byTemplate = new Map(versions.map((version) => [version.templateId, version]));
+
+    return templates.flatMap((template) => {
+      const version = byTemplate.get(template.id);
+      return version ? [{ template, version }] : [];
+    });
+  }
+
+  /**
+   * DBに未登録のテンプレートをバージョン1として登録
+   */
+  static async seedDefaults(definitions: PromptTemplateDefinition[]): Promise<number> {
+    const existing = new Set(await this.findIds());
+    let created = 0;
+
+    for (const definition of definitions.filter((item) => !existing.has(item.id))) {
+      await prisma.promptTemplate.create({
+        data: {
+          id: definition.id,
+          name: definition.name,
+          description: definition.description,
+          category: definition.category,
+          activeVersion: 1,
+          versions: {
+            create: {
+              version: 1,
+              systemPrompt: definition.systemPrompt,
+              template: definition.template,
+              variables: extractTemplateVariables(definition.systemPrompt, definition.template),
+              note: 'コードの既定テンプレート',
+            },
+          },
+        },
+      });
+      created++;
+    }
+
+    return created;
+  }
+
+  /**
+   * 新しいバージョンを作成（既存のバージョンは変更しない）
+   */
+  static async createVersion(
+    templateId: string,
+    input: PromptVersionInput
+  ): Promise<PromptTemplateVersion> {
+    return prisma.$transaction(async (tx) => {
+      const latest = await tx.promptTemplateVersion.aggregate({
+        where: { templateId },
+        _max: { version: true },
+      });
+      const version = await tx.promptTemplateVersion.create({
+        data: {
+          templateId,
+          version: (latest._max.version ?? 0) + 1,
+          systemPrompt: input.systemPrompt,
+          template: input.template,
+          variables: extractTemplateVariables(input.systemPrompt, input.template),
+          note: input.note ?? null,
+          createdBy: input.createdBy ?? null,
+        },
+      });
+
+      if (input.activate) {
+        await tx.promptTemplate.update({
+          where: { id: templateId },
+          data: { activeVersion: version.version },
+        });
+      }
+
+      return version;
+    });
+  }
+
+  static async activateVersion(templateId: string, version: number): Promise<PromptTemplate> {
+    return prisma.promptTemplate.update({
+      where: { id: templateId },
+      data: { activeVersion: version },
+    });
+  }
+
+  static async findVersion(
+    templateId: string,
+    version: number
+  ): Promise<PromptTemplateVersion | null> {
+    return prisma.promptTemplateVersion.findUnique({
+      where: { templateId_version: { templateId, version } },
+    });
+  }
+
+  /**
+   * 使用中のバージョンより前のバージョンに戻す
+   * 戻せるバージョンがない場合はnull
+   */
+  static async rollback(templateId: string): Promise<PromptTemplate | null> {
+    const template = await prisma.promptTemplate.findUnique({ where: { id: templateId } });
+    if (!template?.activeVersion) {
+      return null;
+    }
+
+    const previous = await prisma.promptTemplateVersion.findFirst({
+      where: { templateId, version: { lt: template.activeVersion } },
+      orderBy: { version: 'desc' },
+    });
+    if (!previous) {
+      return null;
+    }
+
+    return this.activateVersion(templateId, previous.version);
+  }
+}
@@ -0,0 +1,42 @@
+import { prisma } from '@/lib/db/prisma';
+import type { WatchedRepository } from '@prisma/client';
+
+// 'owner/repo' 形式
+export const REPOSITORY_FULL_NAME_PATTERN = /^[A-Za-z0-9_.-]+\/[A-Za-z0-9_.-]+$/;
+
+export class WatchedRepositoryModel {
+  static async findByUser(userId: string): Promise<WatchedRepository[]> {
+    return prisma.watchedRepository.findMany({
+      where: { userId },
+      orderBy: { fullName: 'asc' },
+    });
+  }
+
+  static async add(userId: string, fullName: string): Promise<WatchedRepository> {
+    return prisma.watchedRepository.upsert({
+      where: { userId_fullName: { userId, fullName } },
+      update: {},
+      create: { userId, fullName },
+    });
+  }
+
+  static async remove(userId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.watchedRepository.deleteMany({
+      where: { id, userId },
+    });
+    return count > 0;
+  }
+
+  /**
+   * リリース確認結果を記録
+   */
+  static async markChecked(id: string, lastReleaseTag?: string | null): Promise<void> {
+    await prisma.watchedRepository.update({
+      where: { id },
+      data: {
+        lastCheckedAt: new Date(),
+        ...(lastReleaseTag !== undefined && { lastReleaseTag }),
+      },
+    });
+  }
+}
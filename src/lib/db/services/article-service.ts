@@ -1,5 +1,8 @@
 import { prisma } from '../prisma';
+import { CollectedItemModel } from '../models/collected-item';
+import { PromptExperimentModel } from '../models/prompt-experiment';
 import type { Article, Source, Tag, Category } from '@prisma/client';
+import type { ArticleGenerationInfo } from '@/lib/ai/types';
 
 export interface CreateArticleInput {
   title: string;
@@ -15,6 +18,8 @@ export interface CreateArticleInput {
   qualityScore?: number;
   interestScore?: number;
   publishedAt?: Date;
+  // 記事の生成に使用したプロンプトとモデル
+  generation?: ArticleGenerationInfo;
   metadata?: Record<string, any>;
 }
 
@@ -41,10 +46,11 @@ export class ArticleService {
       qualityScore = 0,
       interestScore = 0,
       publishedAt = new Date(),
+      generation,
       metadata: _metadata,
     } = input;
 
-    return await prisma.$transaction(async (tx) => {
+    const createdArticle = await prisma.$transaction(async (tx) => {
       console.log('Starting article creation transaction');
       const startTime = Date.now();
       
@@ -72,6 +78,11 @@ export class ArticleService {
           qualityScore,
           interestScore,
           publishedAt,
+          ...(generation && {
+            promptTemplateId: generation.promptTemplateId,
+            promptVersion: generation.promptVersion,
+            aiModel: generation.model,
+          }),
         },
       });
 
@@ -131,6 +142,40 @@ export class ArticleService {
     }, {
       timeout: 15000, // 15秒にタイムアウトを延長
     });
+
+    // 使用したソースを収集履歴に記録（失敗しても記事作成は成功扱い）
+    try {
+      await CollectedItemModel.markUsedInArticle(
+        createdArticle.id,
+        sources.map((source) => ({
+          url: source.url,
+          title: source.title,
+          snippet: '',
+          source: source.type,
+          provider: source.type,
+        }))
+      );
+    } catch (error) {
+      console.warn('Failed to record collected item usage:', error);
+    }
+
+    // A/Bテスト中に生成した記事はバリアントの結果として記録
+    if (generation?.experimentId && generation.variantId) {
+      try {
+        await PromptExperimentModel.recordOutcome({
+          experimentId: generation.experimentId,
+          variantId: generation.variantId,
+          articleId: createdArticle.id,
+          aiModel: generation.model,
+          qualityScore,
+          interestScore,
+        });
+      } catch (error) {
+        console.warn('Failed to record prompt experiment outcome:', error);
+      }
+    }
+
+    return createdArticle;
   }
 
   /**
@@ -297,7 +342,7 @@ export class ArticleService {
       return null;
     }
 
-    return await prisma.$transaction(async (tx) => {
+    const updatedArticle = await prisma.$transaction(async (tx) => {
       const startTime = Date.now();
       
       const {
@@ -429,6 +474,22 @@ export class ArticleService {
     }, {
       timeout: 14000, // Prisma Accelerateの15秒制限内に収める（14秒）
     });
+
+    // 本文等の手動編集をA/Bテストの結果として記録
+    const { title, summary, content } = input;
+    if (
+      (title !== undefined && title !== existingArticle.title) ||
+      (summary !== undefined && summary !== existingArticle.summary) ||
+      (content !== undefined && content !== existingArticle.content)
+    ) {
+      try {
+        await PromptExperimentModel.recordEdit(id);
+      } catch (error) {
+        console.warn('Failed to record prompt experiment edit:', error);
+      }
+    }
+
+    return updatedArticle;
   }
 
   /**
@@ -462,6 +523,12 @@ export class ArticleService {
       timeout: 14000, // Prisma Accelerateの15秒制限内に収める（14秒）
     });
 
+    try {
+      await PromptExperimentModel.recordDeletion(id);
+    } catch (error) {
+      console.warn('Failed to record prompt experiment deletion:', error);
+    }
+
     return true;
   }
 
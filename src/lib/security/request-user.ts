@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/db/prisma';
+import { requireAuth } from './auth-middleware';
+
+/**
+ * 認証済みユーザーのID（User.id）を取得
+ * 内部APIキーでのリクエストは ADMIN_USER_ID（管理者のメールアドレス）のユーザーとして扱う
+ * ミドルウェアから読み込まれる auth-middleware にはDBアクセスを含めないため別モジュールにしている
+ */
+export async function requireUserId(request: NextRequest): Promise<string | NextResponse> {
+  const auth = await requireAuth(request);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+  if (auth.userId !== 'internal') {
+    return auth.userId;
+  }
+
+  const adminEmail = process.env.ADMIN_USER_ID;
+  const admin = adminEmail
+    ? await prisma.user.findUnique({ where: { email: adminEmail }, select: { id: true } })
+    : null;
+
+  if (!admin) {
+    return NextResponse.json(
+      { success: false, error: 'Admin user for internal API requests not found' },
+      { status: 500 }
+    );
+  }
+  return admin.id;
+}
@@ -41,12 +41,17 @@ export type SourceType =
   | 'google'
   | 'news'
   | 'reddit'
+  | 'hackernews'
   | 'github'
   | 'rss'
+  | 'newsletter'
+  | 'sitemap'
+  | 'changelog'
   | 'tutorial'
   | 'guide'
   | 'analysis'
   | 'article'
+  | 'ingest'
   | 'test';
 
 export interface GeneratedArticle {
@@ -0,0 +1,45 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { compareByDomainWeight, DomainRuleSet } from '../domain-rules';
+import { compareByPublishedDate } from '../published-date';
+
+describe('DomainRuleSet', () => {
+  const rules = new DomainRuleSet([
+    { domain: 'example.com', action: 'boost', weight: 0.2, userId: null },
+    { domain: 'blog.example.com', action: 'boost', weight: -0.3, userId: null },
+    { domain: 'blog.example.com', action: 'boost', weight: 0.4, userId: 'user-1' },
+    { domain: 'spam.example.net', action: 'block', weight: 0, userId: null },
+  ]);
+
+  it('より具体的なドメイン・ユーザーのルールの重みを使う', () => {
+    assert.equal(rules.getWeight('https://www.example.com/a'), 0.2);
+    assert.equal(rules.getWeight('https://blog.example.com/a'), 0.4);
+    assert.equal(rules.getWeight('https://other.example.org/'), 0);
+    assert.equal(rules.isBlocked('https://spam.example.net/a'), true);
+  });
+});
+
+describe('compareByDomainWeight', () => {
+  const item = (id: string, publishedAt: string, domainWeight?: number) => ({
+    id,
+    publishedAt: new Date(publishedAt),
+    metadata: domainWeight === undefined ? {} : { domainWeight },
+  });
+
+  it('重みの大きい順に並べ、同じ重みでは元の並び順を使う', () => {
+    const items = [
+      item('neutral-new', '2026-10-19'),
+      item('penalized', '2026-10-18', -0.5),
+      item('boosted-old', '2026-10-01', 0.2),
+      item('neutral-old', '2026-10-10'),
+      item('boosted-new', '2026-10-17', 0.2),
+    ];
+
+    assert.deepEqual(
+      items
+        .sort((a, b) => compareByDomainWeight(a, b) || compareByPublishedDate(a, b))
+        .map(({ id }) => id),
+      ['boosted-new', 'boosted-old', 'neutral-new', 'neutral-old', 'penalized']
+    );
+  });
+});
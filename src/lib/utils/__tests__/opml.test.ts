@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { buildOpml, DEFAULT_OPML_CATEGORY, parseOpml, type OpmlFeed } from '../opml';
+
+const feeds: OpmlFeed[] = [
+  {
+    url: 'https://example.com/ml/feed.xml',
+    name: 'ML Weekly',
+    category: 'AI/ML',
+    description: '機械学習の"週刊"まとめ\n論文紹介つき',
+    priority: 9,
+    active: true,
+    htmlUrl: 'https://example.com/ml',
+  },
+  {
+    url: 'https://example.com/ops.rss?format=rss&lang=ja',
+    name: 'Ops & SRE',
+    category: 'infra, ops',
+    description: null,
+    priority: 3,
+    active: false,
+    htmlUrl: null,
+  },
+  {
+    url: 'https://example.com/react.xml',
+    name: 'React <News>',
+    category: 'AI/ML',
+    description: '',
+    priority: 5,
+    active: true,
+    htmlUrl: null,
+  },
+];
+
+describe('buildOpml / parseOpml', () => {
+  it('書き出したOPMLを読み込むとカテゴリ・優先度・有効状態・説明が復元される', () => {
+    const xml = buildOpml(feeds, 'Smart Curator', new Date('2026-10-19T00:00:00Z'));
+    const parsed = parseOpml(xml);
+
+    assert.equal(parsed.title, 'Smart Curator');
+    assert.deepEqual(
+      parsed.feeds.map((feed) => feed.url),
+      [
+        'https://example.com/ml/feed.xml',
+        'https://example.com/react.xml',
+        'https://example.com/ops.rss?format=rss&lang=ja',
+      ]
+    );
+    assert.deepEqual(
+      parsed.feeds.map(({ url: _url, ...feed }) => feed),
+      [
+        {
+          name: 'ML Weekly',
+          category: 'AI/ML',
+          description: '機械学習の"週刊"まとめ\n論文紹介つき',
+          priority: 9,
+          active: true,
+          htmlUrl: 'https://example.com/ml',
+        },
+        {
+          name: 'React <News>',
+          category: 'AI/ML',
+          description: null,
+          priority: 5,
+          active: true,
+          htmlUrl: null,
+        },
+        {
+          name: 'Ops & SRE',
+          category: 'infra, ops',
+          description: null,
+          priority: 3,
+          active: false,
+          htmlUrl: null,
+        },
+      ]
+    );
+  });
+
+  it('カテゴリごとのフォルダに入れ子で書き出す', () => {
+    const xml = buildOpml(feeds, 'Smart Curator');
+
+    assert.match(
+      xml,
+      /<outline text="AI\/ML" title="AI\/ML">\n\s+<outline text="ML Weekly"[^>]*\/>\n\s+<outline text="React &lt;News&gt;"[^>]*\/>\n\s+<\/outline>/
+    );
+    // 他のリーダーで読み込んでもフォルダ名からカテゴリが分かる
+    const withoutCustomAttributes = xml.replace(/ (feedCategory|category)="[^"]*"/g, '');
+    assert.deepEqual(
+      parseOpml(withoutCustomAttributes).feeds.map((feed) => feed.category),
+      ['AI/ML', 'AI/ML', 'infra, ops']
+    );
+  });
+
+  it('他のツールのOPMLでは最も内側のフォルダ・category属性の最後の要素をカテゴリにする', () => {
+    const parsed = parseOpml(`<?xml version="1.0"?>
+<opml version="2.0">
+  <body>
+    <outline text="Tech">
+      <outline text="Frontend">
+        <outline text="A" xmlUrl="https://a.example/feed"/>
+      </outline>
+      <outline text="B" xmlUrl="https://b.example/feed" category="/Tech/Backend,/News"/>
+    </outline>
+    <outline text="C" xmlUrl="https://c.example/feed"/>
+  </body>
+</opml>`);
+
+    assert.deepEqual(
+      parsed.feeds.map((feed) => [feed.name, feed.category, feed.priority, feed.active]),
+      [
+        ['A', 'Frontend', 5, true],
+        ['B', 'Backend', 5, true],
+        ['C', DEFAULT_OPML_CATEGORY, 5, true],
+      ]
+    );
+  });
+});
@@ -0,0 +1,64 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  diffChangelog,
+  revertChangelogEntries,
+  type ChangelogEntry,
+  type ChangelogSnapshot,
+} from '../changelog-diff';
+import { diffSitemap, revertSitemapChanges, toSitemapSnapshot } from '../sitemap';
+
+describe('revertSitemapChanges', () => {
+  const previous = {
+    'https://example.com/a': '2026-10-01',
+    'https://example.com/b': '2026-10-01',
+  };
+  const entries = [
+    { loc: 'https://example.com/a', lastmod: '2026-10-18' },
+    { loc: 'https://example.com/b', lastmod: '2026-10-18' },
+    { loc: 'https://example.com/c', lastmod: '2026-10-18' },
+  ];
+
+  it('持ち越した変更は次回の比較で再び検出される', () => {
+    const stored = revertSitemapChanges(toSitemapSnapshot(entries), previous, [
+      'https://example.com/b',
+      'https://example.com/c',
+    ]);
+
+    assert.deepEqual(stored, {
+      'https://example.com/a': '2026-10-18',
+      'https://example.com/b': '2026-10-01',
+    });
+    assert.deepEqual(
+      diffSitemap(stored, entries).map((change) => [change.loc, change.change]),
+      [
+        ['https://example.com/b', 'updated'],
+        ['https://example.com/c', 'new'],
+      ]
+    );
+  });
+});
+
+describe('revertChangelogEntries', () => {
+  const entry = (key: string, hash: string): ChangelogEntry => ({
+    key,
+    heading: key,
+    anchor: null,
+    text: key,
+    hash,
+  });
+  const previous: ChangelogSnapshot = [{ key: 'v1.0', heading: 'v1.0', hash: 'old' }];
+  const entries = [entry('v1.1', 'new'), entry('v1.0', 'changed')];
+
+  it('追加分は除き、更新分は前回の内容に戻す', () => {
+    const current = entries.map(({ key, heading, hash }) => ({ key, heading, hash }));
+    const stored = revertChangelogEntries(current, previous, ['v1.1', 'v1.0']);
+
+    assert.deepEqual(stored, previous);
+    const { added, updated } = diffChangelog(stored, entries);
+    assert.deepEqual(
+      [...added, ...updated].map((changed) => changed.key),
+      ['v1.1', 'v1.0']
+    );
+  });
+});
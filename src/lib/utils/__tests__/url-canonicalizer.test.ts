@@ -0,0 +1,60 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { canonicalizeUrl } from '../url-canonicalizer';
+
+describe('canonicalizeUrl', () => {
+  it('スキーム・www・トラッキングパラメータ・末尾スラッシュを統一する', () => {
+    assert.equal(
+      canonicalizeUrl('http://WWW.Example.com/posts/hello/?utm_source=x&b=2&a=1#top'),
+      'https://example.com/posts/hello?a=1&b=2'
+    );
+  });
+
+  it('AMPキャッシュのURLは元のURLに戻してAMPパスを除去する', () => {
+    assert.equal(
+      canonicalizeUrl(
+        'https://news-example-com.cdn.ampproject.org/c/s/news.example.com/story/amp/'
+      ),
+      'https://news.example.com/story'
+    );
+  });
+
+  it('?amp・outputType=amp が付いたURLはAMP版の表記を除去する', () => {
+    assert.equal(
+      canonicalizeUrl('https://amp.example.com/story.amp.html?amp'),
+      'https://example.com/story.html'
+    );
+    assert.equal(
+      canonicalizeUrl('https://example.com/story/amp?outputType=amp&id=3'),
+      'https://example.com/story?id=3'
+    );
+  });
+
+  it('AMP版と明示されていないURLの/ampやampサブドメインは残す', () => {
+    assert.equal(
+      canonicalizeUrl('https://example.com/guides/amp/'),
+      'https://example.com/guides/amp'
+    );
+    assert.equal(canonicalizeUrl('https://amp.dev/documentation'), 'https://amp.dev/documentation');
+    assert.equal(
+      canonicalizeUrl('https://example.com/export?outputType=json'),
+      'https://example.com/export?outputType=json'
+    );
+  });
+
+  it('m./mobile. は既知のホストだけ統一する', () => {
+    assert.equal(
+      canonicalizeUrl('https://m.youtube.com/watch?v=abc'),
+      'https://youtube.com/watch?v=abc'
+    );
+    assert.equal(
+      canonicalizeUrl('https://mobile.twitter.com/user/status/1'),
+      'https://twitter.com/user/status/1'
+    );
+    assert.equal(canonicalizeUrl('https://m.example.org/news'), 'https://m.example.org/news');
+    assert.equal(
+      canonicalizeUrl('https://mobile.example.com/plans'),
+      'https://mobile.example.com/plans'
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import { createHash } from 'crypto';
+
+export interface ChangelogEntry {
+  key: string;
+  heading: string;
+  // 見出しのid（ページ内リンク用）
+  anchor: string | null;
+  text: string;
+  hash: string;
+}
+
+// スナップショットとして保存するエントリ（本文は差分判定用のハッシュのみ）
+export type ChangelogSnapshot = Pick<ChangelogEntry, 'key' | 'heading' | 'hash'>[];
+
+export interface ChangelogDiff {
+  added: ChangelogEntry[];
+  updated: ChangelogEntry[];
+}
+
+const NOISE_ELEMENTS = [
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'svg',
+  'nav',
+  'header',
+  'footer',
+  'aside',
+  'form',
+];
+
+const BLOCK_BOUNDARY =
+  /<\/?(?:p|div|section|article|h[1-6]|li|ul|ol|pre|blockquote|tr|table|br|hr)\b[^>]*>/gi;
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(value) ? String.fromCodePoint(value) : entity;
+    }
+    return HTML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+/**
+ * ブロック要素の区切りを改行として残してテキスト化
+ */
+function toText(html: string): string {
+  return decodeEntities(html.replace(BLOCK_BOUNDARY, '\n').replace(/<[^>]+>/g, ' '))
+    .split('\n')
+    .map((line) => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+function hashText(text: string): string {
+  return createHash('sha1').update(text).digest('hex').slice(0, 16);
+}
+
+function toKey(heading: string): string {
+  return heading.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function cleanHtml(html: string): string {
+  let cleaned = html.replace(/<!--[\s\S]*?-->/g, '');
+  for (const tag of NOISE_ELEMENTS) {
+    cleaned = cleaned.replace(new RegExp(`<${tag}\\b[^>]*>[\\s\\S]*?<\\/${tag}>`, 'gi'), ' ');
+  }
+
+  // 本文を示す要素を優先する
+  return (
+    cleaned.match(/<main\b[^>]*>([\s\S]*)<\/main>/i)?.[1] ??
+    cleaned.match(/<article\b[^>]*>([\s\S]*)<\/article>/i)?.[1] ??
+    cleaned.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ??
+    cleaned
+  );
+}
+
+/**
+ * 区切りに使う見出しレベル（2回以上出現する最上位の見出し）
+ * 'v1.2.0' の下の 'Bug fixes' のような繰り返しの小見出しはエントリの本文として扱う
+ */
+function pickSectionLevel(levels: number[]): number | null {
+  for (let level = 1; level <= 4; level++) {
+    if (levels.filter((value) => value === level).length >= 2) {
+      return level;
+    }
+  }
+  return levels.length > 0 ? Math.min(...levels) : null;
+}
+
+/**
+ * 変更履歴ページを見出し単位のエントリに分割
+ * 見出しがないページは段落・リスト項目をそれぞれエントリとして扱う
+ */
+export function extractChangelogEntries(html: string): ChangelogEntry[] {
+  const body = cleanHtml(html);
+  const headings = [...body.matchAll(/<h([1-4])\b([^>]*)>([\s\S]*?)<\/h\1>/gi)];
+  const level = pickSectionLevel(headings.map((match) => Number(match[1])));
+
+  if (level === null) {
+    return toText(body)
+      .split('\n')
+      .map((line) => ({
+        key: toKey(line),
+        heading: line,
+        anchor: null,
+        text: line,
+        hash: hashText(line),
+      }));
+  }
+
+  const sections = headings.filter((match) => Number(match[1]) === level);
+  const seen = new Map<string, number>();
+
+  return sections
+    .map((match, index) => {
+      const start = match.index! + match[0].length;
+      const end = sections[index + 1]?.index ?? body.length;
+      const heading = toText(match[3]).replace(/\n/g, ' ');
+      const text = toText(body.slice(start, end));
+
+      // 同じ見出しが複数ある場合は出現順の番号で区別する
+      const baseKey = toKey(heading);
+      const count = (seen.get(baseKey) ?? 0) + 1;
+      seen.set(baseKey, count);
+
+      const anchor =
+        match[2].match(/\bid\s*=\s*["']([^"']+)["']/i)?.[1] ??
+        match[3].match(/\b(?:id|name)\s*=\s*["']([^"']+)["']/i)?.[1] ??
+        null;
+
+      return {
+        key: count > 1 ? `${baseKey}#${count}` : baseKey,
+        heading,
+        anchor,
+        text,
+        hash: hashText(`${heading}\n${text}`),
+      };
+    })
+    .filter((entry) => entry.heading);
+}
+
+export function toChangelogSnapshot(entries: ChangelogEntry[]): ChangelogSnapshot {
+  return entries.map(({ key, heading, hash }) => ({ key, heading, hash }));
+}
+
+/**
+ * 前回のスナップショットと比較し、追加・内容が変わったエントリを返す
+ */
+export function diffChangelog(
+  previous: ChangelogSnapshot,
+  entries: ChangelogEntry[]
+): ChangelogDiff {
+  const previousHashes = new Map(previous.map((entry) => [entry.key, entry.hash]));
+
+  return {
+    added: entries.filter((entry) => !previousHashes.has(entry.key)),
+    updated: entries.filter(
+      (entry) => previousHashes.has(entry.key) && previousHashes.get(entry.key) !== entry.hash
+    ),
+  };
+}
+
+/**
+ * 指定したキーのエントリの変更をスナップショットから取り消す（追加分は除き、更新分は前回の内容に戻す）
+ */
+export function revertChangelogEntries(
+  current: ChangelogSnapshot,
+  previous: ChangelogSnapshot,
+  keys: Iterable<string>
+): ChangelogSnapshot {
+  const reverting = new Set(keys);
+  const previousByKey = new Map(previous.map((entry) => [entry.key, entry]));
+
+  return current.flatMap((entry) => {
+    if (!reverting.has(entry.key)) {
+      return [entry];
+    }
+    const before = previousByKey.get(entry.key);
+    return before ? [before] : [];
+  });
+}
@@ -0,0 +1,116 @@
+import type { DomainRule } from '@prisma/client';
+import { DomainRuleModel, normalizeDomain } from '@/lib/db/models/domain-rule';
+import { Logger } from './logger';
+
+// ルールをDBから再読み込みするまでの間隔
+const CACHE_TTL_MS = 60 * 1000;
+
+type DomainRuleEntry = Pick<DomainRule, 'domain' | 'action' | 'weight' | 'userId'>;
+
+const logger = new Logger('DomainRules');
+const cache = new Map<string, { rules: DomainRuleSet; expiresAt: number }>();
+
+function toHost(urlOrDomain: string): string | null {
+  try {
+    return normalizeDomain(new URL(urlOrDomain).hostname);
+  } catch {
+    const domain = normalizeDomain(urlOrDomain);
+    return domain || null;
+  }
+}
+
+/**
+ * ドメインごとのboost/neutral/blockルール
+ * より具体的なドメインのルールを優先し、同じドメインではユーザーのルールが共通ルールより優先される
+ */
+export class DomainRuleSet {
+  constructor(private rules: DomainRuleEntry[] = []) {}
+
+  get size(): number {
+    return this.rules.length;
+  }
+
+  match(urlOrDomain: string): DomainRuleEntry | null {
+    const host = toHost(urlOrDomain);
+    if (!host) return null;
+
+    let matched: DomainRuleEntry | null = null;
+    for (const rule of this.rules) {
+      if (host !== rule.domain && !host.endsWith(`.${rule.domain}`)) continue;
+
+      if (
+        !matched ||
+        rule.domain.length > matched.domain.length ||
+        (rule.domain.length === matched.domain.length && rule.userId && !matched.userId)
+      ) {
+        matched = rule;
+      }
+    }
+    return matched;
+  }
+
+  isBlocked(urlOrDomain: string): boolean {
+    return this.match(urlOrDomain)?.action === 'block';
+  }
+
+  /**
+   * 関連度への加減点（boost以外は0）
+   */
+  getWeight(urlOrDomain: string): number {
+    const rule = this.match(urlOrDomain);
+    return rule?.action === 'boost' ? rule.weight : 0;
+  }
+
+  /**
+   * blockルールに一致するアイテムを除外
+   */
+  filter<T>(items: T[], getUrl: (item: T) => string): { items: T[]; blocked: number } {
+    const allowed = items.filter((item) => !this.isBlocked(getUrl(item)));
+    return { items: allowed, blocked: items.length - allowed.length };
+  }
+}
+
+/**
+ * boostの重み（metadata.domainWeight）が大きい順の比較関数
+ * 重みが同じ場合は0を返すため、各収集サービスの並び順と組み合わせて使う
+ */
+export function compareByDomainWeight(
+  a: { metadata?: Record<string, unknown> },
+  b: { metadata?: Record<string, unknown> }
+): number {
+  return getDomainWeight(b) - getDomainWeight(a);
+}
+
+function getDomainWeight(item: { metadata?: Record<string, unknown> }): number {
+  const weight = item.metadata?.domainWeight;
+  return typeof weight === 'number' ? weight : 0;
+}
+
+/**
+ * 共通ルールとユーザーのルールを読み込む（DBエラー時はルールなしとして扱う）
+ */
+export async function loadDomainRules(userId?: string | null): Promise<DomainRuleSet> {
+  const key = userId || '*';
+  const cached = cache.get(key);
+  if (cached && Date.now() < cached.expiresAt) {
+    return cached.rules;
+  }
+
+  try {
+    const rules = new DomainRuleSet(await DomainRuleModel.findApplicable(userId));
+    cache.set(key, { rules, expiresAt: Date.now() + CACHE_TTL_MS });
+    return rules;
+  } catch (error) {
+    logger.warn('Failed to load domain rules', {
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return new DomainRuleSet();
+  }
+}
+
+/**
+ * ルール編集後にキャッシュを破棄
+ */
+export function clearDomainRuleCache(): void {
+  cache.clear();
+}
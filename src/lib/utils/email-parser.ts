@@ -0,0 +1,232 @@
+export interface EmailAddress {
+  address: string;
+  name: string | null;
+}
+
+export interface ParsedEmail {
+  messageId: string | null;
+  from: EmailAddress | null;
+  subject: string;
+  date: Date | null;
+  // ヘッダー名は小文字、同名ヘッダーは最初の値のみ
+  headers: Record<string, string>;
+  html: string | null;
+  text: string | null;
+}
+
+interface MimePart {
+  headers: Record<string, string>;
+  // latin1で保持した生のバイト列
+  body: string;
+}
+
+const CHARSET_ALIASES: Record<string, string> = {
+  'us-ascii': 'utf-8',
+  ascii: 'utf-8',
+  'x-sjis': 'shift_jis',
+  sjis: 'shift_jis',
+  cp932: 'shift_jis',
+  'windows-31j': 'shift_jis',
+};
+
+/**
+ * 指定された文字コードでデコード（未対応の文字コードはUTF-8として扱う）
+ */
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset || 'utf-8').trim().toLowerCase();
+  try {
+    return new TextDecoder(CHARSET_ALIASES[label] ?? label).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const source = input.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+
+  for (let i = 0; i < source.length; i++) {
+    const hex = source[i] === '=' ? source.slice(i + 1, i + 3) : '';
+    if (/^[0-9a-f]{2}$/i.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(source.charCodeAt(i) & 0xff);
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Buffer {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(body.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return Buffer.from(body, 'latin1');
+  }
+}
+
+/**
+ * RFC 2047のエンコード済みワード（=?UTF-8?B?...?=）をデコード
+ */
+export function decodeEncodedWords(value: string): string {
+  return value
+    .replace(/(\?=)\s+(?==\?)/g, '$1')
+    .replace(
+      /=\?([^?]+)\?([bq])\?([^?]*)\?=/gi,
+      (_match, charset: string, encoding: string, text: string) => {
+        const bytes =
+          encoding.toLowerCase() === 'b'
+            ? Buffer.from(text, 'base64')
+            : decodeQuotedPrintable(text.replace(/_/g, ' '));
+        return decodeCharset(bytes, charset.split('*')[0]);
+      }
+    );
+}
+
+function parseHeaderBlock(block: string): Record<string, string> {
+  // エンコードされていない8bitヘッダーはUTF-8とみなす
+  const unfolded = Buffer.from(block, 'latin1')
+    .toString('utf8')
+    .replace(/\r?\n[ \t]+/g, ' ');
+  const headers: Record<string, string> = {};
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const name = line.slice(0, separator).trim().toLowerCase();
+    if (!(name in headers)) {
+      headers[name] = line.slice(separator + 1).trim();
+    }
+  }
+
+  return headers;
+}
+
+/**
+ * 'text/html; charset="utf-8"' を値とパラメータに分解
+ */
+function parseHeaderValue(value: string | undefined): {
+  value: string;
+  params: Record<string, string>;
+} {
+  const [main, ...rest] = (value || '').split(';');
+  const params: Record<string, string> = {};
+
+  for (const param of rest) {
+    const separator = param.indexOf('=');
+    if (separator <= 0) continue;
+    params[param.slice(0, separator).trim().toLowerCase()] = param
+      .slice(separator + 1)
+      .trim()
+      .replace(/^"(.*)"$/, '$1');
+  }
+
+  return { value: main.trim().toLowerCase(), params };
+}
+
+function splitPart(raw: string): MimePart {
+  const match = raw.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) {
+    return { headers: parseHeaderBlock(raw), body: '' };
+  }
+
+  return {
+    headers: parseHeaderBlock(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+}
+
+/**
+ * multipartを再帰的にたどり、添付ファイル以外の最初のtext/htmlとtext/plainを取り出す
+ */
+function collectBodies(part: MimePart, bodies: { html: string | null; text: string | null }) {
+  const contentType = parseHeaderValue(part.headers['content-type'] || 'text/plain');
+  const disposition = parseHeaderValue(part.headers['content-disposition']);
+
+  if (contentType.value.startsWith('multipart/')) {
+    const boundary = contentType.params.boundary;
+    if (!boundary) return;
+
+    const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    const sections = part.body.split(
+      new RegExp(`(?:^|\\r?\\n)--${escaped}(?:--)?[ \\t]*(?=\\r?\\n|$)`)
+    );
+
+    // 最初の境界より前（プリアンブル）と終端の境界より後（エピローグ）は除外
+    const closed = part.body.includes(`--${boundary}--`);
+    for (const section of sections.slice(1, closed ? -1 : undefined)) {
+      collectBodies(splitPart(section.replace(/^\r?\n/, '')), bodies);
+    }
+    return;
+  }
+
+  if (disposition.value === 'attachment') return;
+
+  const key =
+    contentType.value === 'text/html' ? 'html' : contentType.value === 'text/plain' ? 'text' : null;
+  if (!key || bodies[key] !== null) return;
+
+  const bytes = decodeTransferEncoding(part.body, part.headers['content-transfer-encoding']);
+  bodies[key] = decodeCharset(bytes, contentType.params.charset);
+}
+
+/**
+ * 'Example News <news@example.com>' を名前とアドレスに分解
+ */
+export function parseAddress(value: string | undefined): EmailAddress | null {
+  if (!value) return null;
+
+  const decoded = decodeEncodedWords(value).trim();
+  const angle = decoded.match(/^(.*?)<([^>]+)>/);
+  if (angle) {
+    const name = angle[1]
+      .trim()
+      .replace(/^"(.*)"$/, '$1')
+      .trim();
+    return { address: angle[2].trim().toLowerCase(), name: name || null };
+  }
+
+  const bare = decoded.match(/[^\s<>"]+@[^\s<>"]+/);
+  return bare ? { address: bare[0].toLowerCase(), name: null } : null;
+}
+
+/**
+ * RFC 822形式のメール（.emlファイル1通分）を解析
+ * 入力はバイト列をそのまま保持するためBufferまたはlatin1文字列で渡す
+ */
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const source = typeof raw === 'string' ? raw : raw.toString('latin1');
+  const root = splitPart(source);
+  const bodies = { html: null as string | null, text: null as string | null };
+  collectBodies(root, bodies);
+
+  const date = root.headers.date ? new Date(root.headers.date) : null;
+
+  return {
+    messageId: root.headers['message-id']?.replace(/^<|>$/g, '') || null,
+    from: parseAddress(root.headers.from),
+    subject: decodeEncodedWords(root.headers.subject || '').trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    headers: root.headers,
+    html: bodies.html,
+    text: bodies.text,
+  };
+}
+
+/**
+ * mbox（mboxo/mboxrd）を1通ずつに分割
+ * 区切りの"From "行を除き、本文中でエスケープされた">From "を元に戻す
+ */
+export function splitMbox(content: Buffer | string): string[] {
+  const source = typeof content === 'string' ? content : content.toString('latin1');
+
+  return source
+    .split(/(?:^|\r?\n)From [^\r\n]*\r?\n/)
+    .filter((message) => message.trim())
+    .map((message) => message.replace(/^>(>*From )/gm, '$1'));
+}
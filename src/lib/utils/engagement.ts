@@ -0,0 +1,12 @@
+// 反応の多さによる加点の上限
+export const MAX_ENGAGEMENT_BOOST = 0.3;
+
+/**
+ * ポイント（スコア）とコメント数から関連度への加点を算出
+ * 一部の投稿だけが突出しないよう対数で緩やかに増やす（100ポイントで約0.2）
+ */
+export function engagementBoost(points = 0, comments = 0): number {
+  const boost =
+    Math.log10(1 + Math.max(0, points)) / 10 + Math.log10(1 + Math.max(0, comments)) / 20;
+  return Math.min(MAX_ENGAGEMENT_BOOST, boost);
+}
@@ -0,0 +1,132 @@
+import { canonicalizeUrl } from './url-canonicalizer';
+
+// 64bit SimHashでこのビット数以内の差ならほぼ同一の内容とみなす（短いテキストは差が出やすいため緩めに設定）
+export const DEFAULT_SIMHASH_THRESHOLD = 8;
+
+// トークン数がこれ未満の短いテキストは誤判定を避けるため比較しない
+const MIN_TOKENS_FOR_SIMHASH = 4;
+
+const FNV_OFFSET = 0xcbf29ce484222325n;
+const FNV_PRIME = 0x100000001b3n;
+const MASK_64 = 0xffffffffffffffffn;
+
+const CJK_PATTERN = /[぀-ヿ㐀-鿿豈-﫿]/;
+
+export interface DeduplicateOptions<T> {
+  getUrl: (item: T) => string;
+  getText: (item: T) => string;
+  threshold?: number;
+}
+
+export interface DeduplicateResult<T> {
+  items: T[];
+  removed: number;
+}
+
+function fnv1a64(token: string): bigint {
+  let hash = FNV_OFFSET;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= BigInt(token.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash;
+}
+
+/**
+ * テキストをトークンに分割
+ * 英数字は単語単位、日本語など分かち書きのない文字列は2文字ずつのn-gramにする
+ */
+export function tokenize(text: string): string[] {
+  const normalized = text.normalize('NFKC').toLowerCase();
+  const tokens: string[] = [];
+
+  for (const segment of normalized.split(/[^\p{L}\p{N}]+/u)) {
+    if (!segment) continue;
+
+    if (!CJK_PATTERN.test(segment)) {
+      tokens.push(segment);
+      continue;
+    }
+
+    const chars = [...segment];
+    if (chars.length === 1) {
+      tokens.push(segment);
+    }
+    for (let i = 0; i < chars.length - 1; i++) {
+      tokens.push(chars[i] + chars[i + 1]);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 64bit SimHashを計算（トークン数が少なすぎる場合はnull）
+ */
+export function simhash(text: string): bigint | null {
+  const tokens = tokenize(text);
+  if (tokens.length < MIN_TOKENS_FOR_SIMHASH) {
+    return null;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  for (const token of tokens) {
+    const hash = fnv1a64(token);
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & 1n ? 1 : -1;
+    }
+  }
+
+  let fingerprint = 0n;
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      fingerprint |= 1n << BigInt(bit);
+    }
+  }
+  return fingerprint;
+}
+
+export function hammingDistance(a: bigint, b: bigint): number {
+  let diff = a ^ b;
+  let count = 0;
+  while (diff) {
+    diff &= diff - 1n;
+    count++;
+  }
+  return count;
+}
+
+/**
+ * 正規化URLの一致とタイトル・概要のSimHashで重複を除去
+ * 先に出現したものを残すため、優先したい順に並べてから渡すこと
+ */
+export function deduplicate<T>(items: T[], options: DeduplicateOptions<T>): DeduplicateResult<T> {
+  const { getUrl, getText, threshold = DEFAULT_SIMHASH_THRESHOLD } = options;
+
+  const seenUrls = new Set<string>();
+  const fingerprints: bigint[] = [];
+  const kept: T[] = [];
+
+  for (const item of items) {
+    const canonicalUrl = canonicalizeUrl(getUrl(item));
+    if (seenUrls.has(canonicalUrl)) {
+      continue;
+    }
+
+    const fingerprint = simhash(getText(item));
+    if (
+      fingerprint !== null &&
+      fingerprints.some((existing) => hammingDistance(existing, fingerprint) <= threshold)
+    ) {
+      continue;
+    }
+
+    seenUrls.add(canonicalUrl);
+    if (fingerprint !== null) {
+      fingerprints.push(fingerprint);
+    }
+    kept.push(item);
+  }
+
+  return { items: kept, removed: items.length - kept.length };
+}
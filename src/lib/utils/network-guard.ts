@@ -0,0 +1,113 @@
+import { lookup } from 'dns/promises';
+import { isIP } from 'net';
+
+export class UnsafeUrlError extends Error {
+  constructor(
+    public url: string,
+    reason: string
+  ) {
+    super(`Blocked URL (${reason}): ${url}`);
+    this.name = 'UnsafeUrlError';
+  }
+}
+
+type HostResolver = (hostname: string) => Promise<string[]>;
+
+const resolveHost: HostResolver = async (hostname) =>
+  (await lookup(hostname, { all: true, verbatim: true })).map((entry) => entry.address);
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.').map(Number);
+  return parts.length === 4 &&
+    parts.every((part) => Number.isInteger(part) && part >= 0 && part <= 255)
+    ? parts
+    : null;
+}
+
+function isPrivateIPv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // 未指定
+    a === 10 || // RFC1918
+    a === 127 || // ループバック
+    (a === 100 && b >= 64 && b <= 127) || // キャリアグレードNAT
+    (a === 169 && b === 254) || // リンクローカル（クラウドのメタデータを含む）
+    (a === 172 && b >= 16 && b <= 31) || // RFC1918
+    (a === 192 && b === 168) || // RFC1918
+    a >= 224 // マルチキャスト・予約済み
+  );
+}
+
+/**
+ * ループバック・プライベート・リンクローカル・ユニークローカル等の外部から到達できないアドレスか
+ */
+export function isPrivateAddress(address: string): boolean {
+  const ip = address.replace(/^\[|\]$/g, '').toLowerCase();
+
+  if (isIP(ip) === 4) {
+    const parts = parseIPv4(ip);
+    return !parts || isPrivateIPv4(parts);
+  }
+  if (isIP(ip) !== 6) {
+    return true;
+  }
+
+  // IPv4射影アドレス（::ffff:127.0.0.1 / ::ffff:7f00:1）
+  const mapped = ip.match(/^::ffff:(?:0:)?(.+)$/);
+  if (mapped) {
+    const v4 = parseIPv4(mapped[1]);
+    if (v4) return isPrivateIPv4(v4);
+
+    const hex = mapped[1].match(/^([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+    if (hex) {
+      const high = parseInt(hex[1], 16);
+      const low = parseInt(hex[2], 16);
+      return isPrivateIPv4([high >> 8, high & 0xff, low >> 8, low & 0xff]);
+    }
+    return true;
+  }
+
+  return (
+    ip === '::' ||
+    ip === '::1' ||
+    /^fe[89ab]/.test(ip) || // リンクローカル fe80::/10
+    /^f[cd]/.test(ip) || // ユニークローカル fc00::/7
+    /^ff/.test(ip) // マルチキャスト
+  );
+}
+
+/**
+ * サーバーから取得してよいURLか確認（http(s)のみ、ホストの全アドレスが外部のもの）
+ * 利用者が指定したURLを取得する前と、リダイレクトのたびに呼ぶ
+ */
+export async function assertPublicUrl(
+  input: string,
+  resolver: HostResolver = resolveHost
+): Promise<URL> {
+  let url: URL;
+  try {
+    url = new URL(input);
+  } catch {
+    throw new UnsafeUrlError(input, 'invalid URL');
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new UnsafeUrlError(input, `scheme ${url.protocol}`);
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: string[];
+  if (isIP(hostname)) {
+    addresses = [hostname];
+  } else {
+    try {
+      addresses = await resolver(hostname);
+    } catch {
+      throw new UnsafeUrlError(input, 'unresolvable host');
+    }
+  }
+
+  if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+    throw new UnsafeUrlError(input, 'private address');
+  }
+  return url;
+}
@@ -0,0 +1,184 @@
+import type { FeedSourceInput } from '@/lib/db/models/feed-source';
+
+// カテゴリ用のフォルダがない場合の分類
+export const DEFAULT_OPML_CATEGORY = 'uncategorized';
+
+const DEFAULT_PRIORITY = 5;
+
+export interface OpmlFeed extends Required<FeedSourceInput> {
+  htmlUrl: string | null;
+}
+
+export interface OpmlDocument {
+  title: string | null;
+  feeds: OpmlFeed[];
+}
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point =
+        code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1));
+      return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+    }
+    return XML_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function encodeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/\r?\n/g, '&#10;');
+}
+
+function parseAttributes(source: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of source.matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+    attributes[match[1]] = decodeXml(match[2] ?? match[3] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * category属性（カンマ区切り・"/"区切りのパス）の最後の要素を使う
+ */
+function parseCategoryAttribute(value: string | undefined): string | null {
+  const first = value?.split(',')[0]?.trim();
+  if (!first) return null;
+
+  const segments = first.split('/').filter(Boolean);
+  return segments.length > 0 ? segments[segments.length - 1] : null;
+}
+
+function parsePriority(value: string | undefined): number {
+  const priority = Number(value);
+  return Number.isInteger(priority) && priority >= 1 && priority <= 10
+    ? priority
+    : DEFAULT_PRIORITY;
+}
+
+/**
+ * OPML 2.0を解析してフィード一覧を返す
+ * xmlUrlを持たないoutlineはフォルダとして扱い、最も内側のフォルダ名をカテゴリにする
+ */
+export function parseOpml(xml: string): OpmlDocument {
+  if (!/<opml\b/i.test(xml)) {
+    throw new Error('Not an OPML document');
+  }
+
+  const source = xml.replace(/<!--[\s\S]*?-->/g, '');
+  const titleMatch = source.match(/<head\b[\s\S]*?<title>([\s\S]*?)<\/title>/i);
+  const feeds: OpmlFeed[] = [];
+  // 開いているoutlineの種類（フォルダの場合は名前、フィードの場合はnull）
+  const stack: Array<string | null> = [];
+
+  for (const match of source.matchAll(
+    /<outline\b((?:[^>"']|"[^"]*"|'[^']*')*?)(\/?)>|<\/outline\s*>/gi
+  )) {
+    if (match[0].startsWith('</')) {
+      stack.pop();
+      continue;
+    }
+
+    const attributes = parseAttributes(match[1]);
+    const selfClosing = match[2] === '/';
+    const name = attributes.text || attributes.title || '';
+
+    if (!attributes.xmlUrl) {
+      if (!selfClosing) stack.push(name || null);
+      continue;
+    }
+
+    const folder = [...stack].reverse().find((entry): entry is string => Boolean(entry));
+    feeds.push({
+      url: attributes.xmlUrl.trim(),
+      name: name || attributes.xmlUrl,
+      // このツールが書き出したfeedCategoryは"/"や","を含むカテゴリ名もそのまま復元する
+      category:
+        attributes.feedCategory?.trim() ||
+        parseCategoryAttribute(attributes.category) ||
+        folder ||
+        DEFAULT_OPML_CATEGORY,
+      description: attributes.description || null,
+      priority: parsePriority(attributes.priority),
+      active: attributes.active !== 'false',
+      htmlUrl: attributes.htmlUrl || null,
+    });
+
+    if (!selfClosing) stack.push(null);
+  }
+
+  return {
+    title: titleMatch ? decodeXml(titleMatch[1].trim()) : null,
+    feeds,
+  };
+}
+
+/**
+ * フィード一覧をカテゴリごとのフォルダに分けたOPML 2.0として出力
+ * priority・active・feedCategory（カテゴリ名そのまま）は独自属性として書き出し、再インポート時に復元する
+ */
+export function buildOpml(
+  feeds: Array<Omit<OpmlFeed, 'htmlUrl'> & { htmlUrl?: string | null }>,
+  title: string,
+  createdAt: Date = new Date()
+): string {
+  const categories = new Map<string, typeof feeds>();
+  for (const feed of feeds) {
+    categories.set(feed.category, [...(categories.get(feed.category) || []), feed]);
+  }
+
+  const outline = (feed: (typeof feeds)[number]) => {
+    const attributes: Array<[string, string | null | undefined]> = [
+      ['text', feed.name],
+      ['title', feed.name],
+      ['type', 'rss'],
+      ['xmlUrl', feed.url],
+      ['htmlUrl', feed.htmlUrl],
+      ['description', feed.description],
+      ['category', feed.category],
+      ['feedCategory', feed.category],
+      ['priority', String(feed.priority)],
+      ['active', String(feed.active)],
+    ];
+
+    return `      <outline ${attributes
+      .filter(([, value]) => value !== null && value !== undefined && value !== '')
+      .map(([key, value]) => `${key}="${encodeXml(value as string)}"`)
+      .join(' ')}/>`;
+  };
+
+  const body = [...categories.entries()]
+    .map(
+      ([category, entries]) =>
+        `    <outline text="${encodeXml(category)}" title="${encodeXml(category)}">\n` +
+        entries.map(outline).join('\n') +
+        '\n    </outline>'
+    )
+    .join('\n');
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${encodeXml(title)}</title>`,
+    `    <dateCreated>${createdAt.toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...(body ? [body] : []),
+    '  </body>',
+    '</opml>',
+    '',
+  ].join('\n');
+}
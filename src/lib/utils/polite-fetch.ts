@@ -0,0 +1,251 @@
+import { EXTERNAL_API_CONFIG } from '@/lib/config/external-apis';
+import { Logger } from './logger';
+import { ALLOW_ALL_ROBOTS, isPathAllowed, parseRobotsTxt, type RobotsPolicy } from './robots-txt';
+
+export interface PoliteFetchConfig {
+  userAgent: string;
+  // 同じホストへの同時リクエスト数
+  maxConcurrencyPerHost: number;
+  // 同じホストへのリクエスト開始間隔（robots.txtのCrawl-delayが長い場合はそちらを使う）
+  minDelayMs: number;
+  // 429/503時の再試行回数
+  maxRetries: number;
+  baseBackoffMs: number;
+  // これより長いRetry-After・バックオフは待たずにレスポンスを返す
+  maxBackoffMs: number;
+  maxCrawlDelayMs: number;
+  robotsTtlMs: number;
+  timeoutMs: number;
+}
+
+export interface PoliteFetchInit extends RequestInit {
+  // APIエンドポイントなどrobots.txtの対象外のリクエストはfalseを指定
+  respectRobots?: boolean;
+  timeoutMs?: number;
+}
+
+interface HostState {
+  active: number;
+  nextAvailableAt: number;
+  crawlDelayMs: number;
+  waiters: (() => void)[];
+}
+
+const DEFAULT_CONFIG: PoliteFetchConfig = {
+  userAgent: EXTERNAL_API_CONFIG.reddit.userAgent,
+  maxConcurrencyPerHost: 2,
+  minDelayMs: 1000,
+  maxRetries: 3,
+  baseBackoffMs: 1000,
+  maxBackoffMs: 60 * 1000,
+  maxCrawlDelayMs: 30 * 1000,
+  robotsTtlMs: 60 * 60 * 1000,
+  timeoutMs: 10000,
+};
+
+const RETRYABLE_STATUSES = new Set([429, 503]);
+
+export class RobotsDisallowedError extends Error {
+  constructor(public url: string) {
+    super(`Disallowed by robots.txt: ${url}`);
+    this.name = 'RobotsDisallowedError';
+  }
+}
+
+/**
+ * Retry-After（秒数またはHTTP日付）をミリ秒に変換
+ */
+export function parseRetryAfter(value: string | null, now: number = Date.now()): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * 収集処理で共通に使うfetch
+ * - robots.txtをキャッシュして従う（Crawl-delayも反映）
+ * - ホストごとに同時リクエスト数と開始間隔を制限
+ * - 429/503はRetry-After、なければ指数バックオフで再試行し、同じホストへの後続リクエストも待機させる
+ */
+export class PoliteFetcher {
+  private config: PoliteFetchConfig;
+  private logger: Logger;
+  private hosts = new Map<string, HostState>();
+  private robots = new Map<string, { policy: Promise<RobotsPolicy>; expiresAt: number }>();
+
+  constructor(config: Partial<PoliteFetchConfig> = {}) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.logger = new Logger('PoliteFetch');
+  }
+
+  get userAgent(): string {
+    return this.config.userAgent;
+  }
+
+  async fetch(input: string | URL, init: PoliteFetchInit = {}): Promise<Response> {
+    const { respectRobots = true, timeoutMs = this.config.timeoutMs, ...requestInit } = init;
+    const url = new URL(input);
+
+    if (respectRobots && !(await this.isAllowed(url))) {
+      throw new RobotsDisallowedError(url.toString());
+    }
+
+    const headers = new Headers(requestInit.headers);
+    if (!headers.has('User-Agent')) {
+      headers.set('User-Agent', this.config.userAgent);
+    }
+
+    for (let attempt = 0; ; attempt++) {
+      const response = await this.withHostSlot(url.host, () =>
+        fetch(url, {
+          ...requestInit,
+          headers,
+          signal: requestInit.signal ?? AbortSignal.timeout(timeoutMs),
+        })
+      );
+
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= this.config.maxRetries) {
+        return response;
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('retry-after'));
+      const delay =
+        retryAfter ?? this.config.baseBackoffMs * 2 ** attempt * (1 + Math.random() * 0.2);
+
+      if (delay > this.config.maxBackoffMs) {
+        this.logger.warn('Retry-After exceeds limit, giving up', {
+          host: url.host,
+          status: response.status,
+          delayMs: Math.round(delay),
+        });
+        return response;
+      }
+
+      await response.body?.cancel();
+      this.deferHost(url.host, delay);
+      this.logger.debug('Backing off before retry', {
+        host: url.host,
+        status: response.status,
+        attempt: attempt + 1,
+        delayMs: Math.round(delay),
+      });
+    }
+  }
+
+  /**
+   * robots.txtでURLの取得が許可されているか（取得できない場合は許可として扱う）
+   */
+  async isAllowed(url: URL): Promise<boolean> {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return true;
+    }
+
+    const policy = await this.getRobotsPolicy(url.origin);
+    return isPathAllowed(policy, `${url.pathname}${url.search}`);
+  }
+
+  clearRobotsCache(): void {
+    this.robots.clear();
+  }
+
+  private getRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+    const cached = this.robots.get(origin);
+    if (cached && Date.now() < cached.expiresAt) {
+      return cached.policy;
+    }
+
+    // 同時に来たリクエストで重複して取得しないようPromiseをキャッシュする
+    const policy = this.fetchRobotsPolicy(origin);
+    this.robots.set(origin, { policy, expiresAt: Date.now() + this.config.robotsTtlMs });
+    return policy;
+  }
+
+  private async fetchRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+    const host = new URL(origin).host;
+
+    try {
+      const response = await this.withHostSlot(host, () =>
+        fetch(`${origin}/robots.txt`, {
+          headers: { 'User-Agent': this.config.userAgent },
+          signal: AbortSignal.timeout(this.config.timeoutMs),
+        })
+      );
+
+      // 404等はrobots.txtなし、5xxは一時的な障害として制限なしで扱う
+      if (!response.ok) {
+        await response.body?.cancel();
+        return ALLOW_ALL_ROBOTS;
+      }
+
+      const policy = parseRobotsTxt(await response.text(), this.config.userAgent);
+      if (policy.crawlDelayMs) {
+        this.getHostState(host).crawlDelayMs = Math.min(
+          policy.crawlDelayMs,
+          this.config.maxCrawlDelayMs
+        );
+      }
+      return policy;
+    } catch (error) {
+      this.logger.debug('Failed to fetch robots.txt', {
+        origin,
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+      return ALLOW_ALL_ROBOTS;
+    }
+  }
+
+  private getHostState(host: string): HostState {
+    let state = this.hosts.get(host);
+    if (!state) {
+      state = { active: 0, nextAvailableAt: 0, crawlDelayMs: 0, waiters: [] };
+      this.hosts.set(host, state);
+    }
+    return state;
+  }
+
+  /**
+   * 同時実行数と開始間隔の制限内でリクエストを実行
+   */
+  private async withHostSlot<T>(host: string, task: () => Promise<T>): Promise<T> {
+    const state = this.getHostState(host);
+
+    for (;;) {
+      const wait = state.nextAvailableAt - Date.now();
+      if (state.active < this.config.maxConcurrencyPerHost && wait <= 0) break;
+
+      await new Promise<void>((resolve) => {
+        if (state.active < this.config.maxConcurrencyPerHost) {
+          setTimeout(resolve, wait);
+        } else {
+          state.waiters.push(resolve);
+        }
+      });
+    }
+
+    state.active++;
+    state.nextAvailableAt = Date.now() + Math.max(this.config.minDelayMs, state.crawlDelayMs);
+
+    try {
+      return await task();
+    } finally {
+      state.active--;
+      state.waiters.shift()?.();
+    }
+  }
+
+  /**
+   * バックオフ中は同じホストへの新しいリクエストも開始しない
+   */
+  private deferHost(host: string, delayMs: number): void {
+    const state = this.getHostState(host);
+    state.nextAvailableAt = Math.max(state.nextAvailableAt, Date.now() + delayMs);
+  }
+}
+
+export const politeFetcher = new PoliteFetcher();
@@ -0,0 +1,131 @@
+// 公開日を表すmetaタグ（優先度順、name/property/itempropのいずれか）
+const PUBLISHED_META_KEYS = [
+  'article:published_time',
+  'og:published_time',
+  'datepublished',
+  'publishdate',
+  'pubdate',
+  'parsely-pub-date',
+  'sailthru.date',
+  'dc.date.issued',
+  'dc.date',
+  'dcterms.created',
+  'date',
+];
+
+// これより古い日付はパース誤り（UNIX時間の0等）として扱う
+const MIN_VALID_TIME = Date.UTC(1995, 0, 1);
+// タイムゾーンのずれを許容する未来方向の猶予
+const FUTURE_TOLERANCE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * 日付文字列をDateに変換（不正な値・ありえない日付はnull）
+ */
+export function parsePublishedDate(
+  value: string | null | undefined,
+  now: number = Date.now()
+): Date | null {
+  if (!value) return null;
+
+  const trimmed = value.trim();
+  // 20261019 のような区切りなしの日付
+  const compact = trimmed.match(/^(\d{4})(\d{2})(\d{2})$/);
+  const date = compact
+    ? new Date(`${compact[1]}-${compact[2]}-${compact[3]}T00:00:00Z`)
+    : new Date(trimmed);
+
+  const time = date.getTime();
+  if (isNaN(time) || time < MIN_VALID_TIME || time > now + FUTURE_TOLERANCE_MS) {
+    return null;
+  }
+  return date;
+}
+
+/**
+ * metaタグの { キー: 値 } から公開日を取得（Google検索のpagemap.metatags等）
+ */
+export function publishedDateFromMetaTags(
+  tags: Record<string, unknown> | null | undefined
+): Date | null {
+  if (!tags) return null;
+
+  const normalized = new Map(
+    Object.entries(tags).map(([key, value]) => [key.toLowerCase(), value])
+  );
+  for (const key of PUBLISHED_META_KEYS) {
+    const value = normalized.get(key);
+    const date = typeof value === 'string' ? parsePublishedDate(value) : null;
+    if (date) return date;
+  }
+  return null;
+}
+
+/**
+ * JSON-LDのdatePublished（@graphや配列の入れ子を含む）
+ */
+function findJsonLdDate(data: unknown): string | null {
+  if (Array.isArray(data)) {
+    for (const entry of data) {
+      const found = findJsonLdDate(entry);
+      if (found) return found;
+    }
+    return null;
+  }
+  if (!data || typeof data !== 'object') {
+    return null;
+  }
+
+  const record = data as Record<string, unknown>;
+  if (typeof record.datePublished === 'string') {
+    return record.datePublished;
+  }
+  return findJsonLdDate(record['@graph']);
+}
+
+/**
+ * HTMLのメタデータから公開日を抽出
+ * metaタグ → JSON-LD → <time datetime> の順に探し、見つからなければnull
+ */
+export function extractPublishedDate(html: string): Date | null {
+  const head = html.match(/<head\b[^>]*>([\s\S]*?)<\/head>/i)?.[1] ?? html;
+
+  const tags: Record<string, string> = {};
+  for (const [tag] of head.matchAll(/<meta\b[^>]*>/gi)) {
+    const key = tag.match(/\b(?:property|name|itemprop)\s*=\s*["']([^"']+)["']/i)?.[1];
+    const content = tag.match(/\bcontent\s*=\s*["']([^"']*)["']/i)?.[1];
+    if (key && content && !(key.toLowerCase() in tags)) {
+      tags[key.toLowerCase()] = content;
+    }
+  }
+  const fromMeta = publishedDateFromMetaTags(tags);
+  if (fromMeta) return fromMeta;
+
+  for (const [, json] of html.matchAll(
+    /<script\b[^>]*type\s*=\s*["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi
+  )) {
+    try {
+      const date = parsePublishedDate(findJsonLdDate(JSON.parse(json)));
+      if (date) return date;
+    } catch {
+      // 壊れたJSON-LDは無視する
+    }
+  }
+
+  // 本文中で最初の <time datetime> を公開日とみなす（pubdate属性付きを優先）
+  const timeTag =
+    html.match(/<time\b[^>]*\bpubdate\b[^>]*>/i)?.[0] ?? html.match(/<time\b[^>]*>/i)?.[0];
+  return parsePublishedDate(timeTag?.match(/\bdatetime\s*=\s*["']([^"']+)["']/i)?.[1]);
+}
+
+/**
+ * 新しい順の比較関数（公開日が不明なものは最後に並べる）
+ */
+export function compareByPublishedDate(
+  a: { publishedAt: Date | null },
+  b: { publishedAt: Date | null }
+): number {
+  if (!a.publishedAt || !b.publishedAt) {
+    return (a.publishedAt ? 0 : 1) - (b.publishedAt ? 0 : 1);
+  }
+  return b.publishedAt.getTime() - a.publishedAt.getTime();
+}
@@ -0,0 +1,150 @@
+import { EventEmitter } from 'events';
+import { API_QUOTAS, type ApiQuotaProvider } from '@/lib/config/external-apis';
+import { ApiQuotaUsageModel, toQuotaDate } from '@/lib/db/models/api-quota-usage';
+import { Logger } from './logger';
+
+export interface QuotaStatus {
+  provider: ApiQuotaProvider;
+  used: number;
+  limit: number;
+  remaining: number;
+  usageRate: number;
+  warning: boolean;
+  exhausted: boolean;
+  resetAt: Date;
+}
+
+export interface QuotaWarningEvent {
+  type: 'warning' | 'exhausted';
+  status: QuotaStatus;
+}
+
+export class QuotaExceededError extends Error {
+  constructor(
+    public provider: ApiQuotaProvider,
+    public resetAt: Date
+  ) {
+    super(`Daily quota exceeded for ${provider}`);
+    this.name = 'QuotaExceededError';
+  }
+}
+
+export class QuotaManager {
+  readonly events = new EventEmitter();
+  private logger: Logger;
+
+  constructor() {
+    this.logger = new Logger('QuotaManager');
+  }
+
+  /**
+   * 呼び出し前に利用枠を1回分消費する
+   * 上限に達している場合はQuotaExceededErrorを投げる（DBに接続できない場合は呼び出しを許可）
+   */
+  async consume(provider: ApiQuotaProvider, amount = 1): Promise<QuotaStatus | null> {
+    const { dailyLimit } = API_QUOTAS[provider];
+
+    let before: number;
+    let after: { id: string; count: number; warnedAt: Date | null };
+    try {
+      before = (await ApiQuotaUsageModel.find(provider))?.count ?? 0;
+      if (before >= dailyLimit) {
+        throw new QuotaExceededError(provider, this.getResetAt());
+      }
+      after = await ApiQuotaUsageModel.increment(provider, amount);
+    } catch (error) {
+      if (error instanceof QuotaExceededError) {
+        this.logger.warn('API call refused: daily quota exhausted', { provider });
+        throw error;
+      }
+      this.logger.error('Failed to track API quota', error as Error, { provider });
+      return null;
+    }
+
+    const status = this.toStatus(provider, after.count);
+
+    if (status.warning && !after.warnedAt && (await ApiQuotaUsageModel.markWarned(after.id))) {
+      this.emit({ type: 'warning', status });
+    }
+    if (status.exhausted && before < dailyLimit) {
+      this.emit({ type: 'exhausted', status });
+    }
+
+    return status;
+  }
+
+  async getStatus(provider: ApiQuotaProvider): Promise<QuotaStatus> {
+    const usage = await ApiQuotaUsageModel.find(provider);
+    return this.toStatus(provider, usage?.count ?? 0);
+  }
+
+  /**
+   * 全プロバイダーの当日の利用状況
+   */
+  async getAllStatuses(): Promise<QuotaStatus[]> {
+    const usages = await ApiQuotaUsageModel.findByDate();
+    const counts = new Map(usages.map((usage) => [usage.provider, usage.count]));
+
+    return (Object.keys(API_QUOTAS) as ApiQuotaProvider[]).map((provider) =>
+      this.toStatus(provider, counts.get(provider) ?? 0)
+    );
+  }
+
+  onWarning(listener: (event: QuotaWarningEvent) => void): void {
+    this.events.on('quota', listener);
+  }
+
+  private emit(event: QuotaWarningEvent): void {
+    this.logger.warn(`API quota ${event.type}`, { ...event.status });
+    this.events.emit('quota', event);
+  }
+
+  private toStatus(provider: ApiQuotaProvider, used: number): QuotaStatus {
+    const { dailyLimit, warningPercent } = API_QUOTAS[provider];
+    const usageRate = Math.round((used / dailyLimit) * 100);
+
+    return {
+      provider,
+      used,
+      limit: dailyLimit,
+      remaining: Math.max(0, dailyLimit - used),
+      usageRate,
+      warning: usageRate >= warningPercent,
+      exhausted: used >= dailyLimit,
+      resetAt: this.getResetAt(),
+    };
+  }
+
+  private getResetAt(): Date {
+    const today = toQuotaDate();
+    return new Date(today.getTime() + 24 * 60 * 60 * 1000);
+  }
+}
+
+/**
+ * Slack Webhookが設定されていれば警告を通知
+ */
+async function notifySlack(event: QuotaWarningEvent): Promise<void> {
+  const webhookUrl = process.env.SLACK_WEBHOOK_URL;
+  if (!webhookUrl) return;
+
+  const { provider, used, limit, usageRate } = event.status;
+  const label =
+    event.type === 'warning' ? '⚠️ API利用量が警告値に達しました' : '🛑 API利用上限に達しました';
+
+  try {
+    await fetch(webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text: `${label}: ${provider} ${used}/${limit} (${usageRate}%)` }),
+      signal: AbortSignal.timeout(5000),
+    });
+  } catch (error) {
+    console.error('Slack notification error:', error);
+  }
+}
+
+export const quotaManager = new QuotaManager();
+quotaManager.onWarning((event) => {
+  void notifySlack(event);
+});
@@ -1,6 +1,6 @@
 import { Logger } from './logger';
 
-interface RateLimitConfig {
+export interface RateLimitConfig {
   maxRequests: number;
   windowMs: number;
 }
@@ -13,12 +13,12 @@ export class RateLimiter {
     this.logger = new Logger('RateLimiter');
   }
 
-  async track(key: string): Promise<void> {
+  async track(key: string, config: RateLimitConfig = { maxRequests: 10, windowMs: 60000 }): Promise<void> {
     const now = Date.now();
     const requests = this.requests.get(key) || [];
     
     // 古いリクエストを削除
-    const validRequests = requests.filter(time => now - time < 60000); // 1分以内
+    const validRequests = requests.filter(time => now - time < config.windowMs);
     
     validRequests.push(now);
     this.requests.set(key, validRequests);
@@ -45,6 +45,13 @@ export class RateLimiter {
     return false;
   }
 
+  async getUsage(key: string, config: RateLimitConfig = { maxRequests: 10, windowMs: 60000 }): Promise<number> {
+    const now = Date.now();
+    const requests = this.requests.get(key) || [];
+    
+    return requests.filter(time => now - time < config.windowMs).length;
+  }
+
   async getNextAvailableTime(key: string, config: RateLimitConfig = { maxRequests: 10, windowMs: 60000 }): Promise<Date | null> {
     const requests = this.requests.get(key) || [];
     
@@ -0,0 +1,115 @@
+export interface RobotsRule {
+  allow: boolean;
+  path: string;
+}
+
+export interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+}
+
+// robots.txtを取得できなかった場合など、制限なしとして扱うポリシー
+export const ALLOW_ALL_ROBOTS: RobotsPolicy = { rules: [], crawlDelayMs: null };
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+}
+
+/**
+ * robots.txtを解析し、指定したUser-Agentに適用されるグループを返す
+ * 'SmartCurator/1.0' の場合は 'smartcurator' に一致するグループ、なければ '*' のグループを使う
+ */
+export function parseRobotsTxt(text: string, userAgent: string): RobotsPolicy {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator <= 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // 連続するUser-agent行は同じグループ
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (field === 'allow' || field === 'disallow') {
+      // 空のDisallowは「制限なし」の意味
+      if (value) {
+        current.rules.push({ allow: field === 'allow', path: value });
+      }
+    } else if (field === 'crawl-delay') {
+      const seconds = Number(value);
+      if (Number.isFinite(seconds) && seconds >= 0) {
+        current.crawlDelayMs = seconds * 1000;
+      }
+    }
+  }
+
+  const token = userAgent.split('/')[0].trim().toLowerCase();
+  const specific = groups.filter((group) =>
+    group.agents.some((agent) => agent !== '*' && token.includes(agent))
+  );
+  const matched =
+    specific.length > 0 ? specific : groups.filter((group) => group.agents.includes('*'));
+
+  if (matched.length === 0) {
+    return ALLOW_ALL_ROBOTS;
+  }
+
+  // 同じUser-Agentに複数のグループがある場合はまとめて扱う
+  const delays = matched
+    .map((group) => group.crawlDelayMs)
+    .filter((delay): delay is number => delay !== null);
+
+  return {
+    rules: matched.flatMap((group) => group.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+function toPattern(path: string): RegExp {
+  const anchored = path.endsWith('$');
+  const escaped = (anchored ? path.slice(0, -1) : path)
+    .split('*')
+    .map((segment) => segment.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}${anchored ? '$' : ''}`);
+}
+
+/**
+ * パス（クエリ文字列を含む）が取得可能か判定
+ * 最も長く一致したルールを採用し、同じ長さの場合はAllowを優先する（RFC 9309）
+ */
+export function isPathAllowed(policy: RobotsPolicy, pathWithQuery: string): boolean {
+  let matched: RobotsRule | null = null;
+
+  for (const rule of policy.rules) {
+    if (!toPattern(rule.path).test(pathWithQuery)) continue;
+
+    if (
+      !matched ||
+      rule.path.length > matched.path.length ||
+      (rule.path.length === matched.path.length && rule.allow)
+    ) {
+      matched = rule;
+    }
+  }
+
+  return matched ? matched.allow : true;
+}
@@ -0,0 +1,118 @@
+export interface SitemapEntry {
+  loc: string;
+  lastmod: string | null;
+}
+
+export interface SitemapDocument {
+  // sitemapindexの場合、entriesは子サイトマップのURL
+  type: 'urlset' | 'sitemapindex';
+  entries: SitemapEntry[];
+}
+
+export interface SitemapChange extends SitemapEntry {
+  change: 'new' | 'updated';
+}
+
+// スナップショットとして保存する { URL: lastmod }
+export type SitemapSnapshot = Record<string, string | null>;
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, '$1')
+    .replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+      if (code[0] === '#') {
+        const point =
+          code[1] === 'x' || code[1] === 'X'
+            ? parseInt(code.slice(2), 16)
+            : parseInt(code.slice(1));
+        return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+      }
+      return XML_ENTITIES[code.toLowerCase()] ?? entity;
+    })
+    .trim();
+}
+
+function findTag(block: string, tag: string): string | null {
+  const match = block.match(
+    new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>`, 'i')
+  );
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * sitemap.xml（urlset）またはサイトマップインデックス（sitemapindex）を解析
+ */
+export function parseSitemap(xml: string): SitemapDocument {
+  const isIndex = /<(?:\w+:)?sitemapindex\b/i.test(xml);
+  if (!isIndex && !/<(?:\w+:)?urlset\b/i.test(xml)) {
+    throw new Error('Not a sitemap document');
+  }
+
+  const tag = isIndex ? 'sitemap' : 'url';
+  const entries: SitemapEntry[] = [];
+
+  for (const match of xml.matchAll(
+    new RegExp(`<(?:\\w+:)?${tag}\\b[^>]*>([\\s\\S]*?)<\\/(?:\\w+:)?${tag}>`, 'gi')
+  )) {
+    const loc = findTag(match[1], 'loc');
+    if (loc) {
+      entries.push({ loc, lastmod: findTag(match[1], 'lastmod') });
+    }
+  }
+
+  return { type: isIndex ? 'sitemapindex' : 'urlset', entries };
+}
+
+export function toSitemapSnapshot(entries: SitemapEntry[]): SitemapSnapshot {
+  return Object.fromEntries(entries.map((entry) => [entry.loc, entry.lastmod]));
+}
+
+/**
+ * 前回のスナップショットと比較し、新規URLとlastmodが新しくなったURLを返す
+ * 前回lastmodがなかったURLは比較できないため更新として扱わない
+ */
+export function diffSitemap(previous: SitemapSnapshot, entries: SitemapEntry[]): SitemapChange[] {
+  const changes: SitemapChange[] = [];
+
+  for (const entry of entries) {
+    if (!(entry.loc in previous)) {
+      changes.push({ ...entry, change: 'new' });
+      continue;
+    }
+
+    const before = previous[entry.loc];
+    if (before && entry.lastmod && Date.parse(entry.lastmod) > Date.parse(before)) {
+      changes.push({ ...entry, change: 'updated' });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * 指定したURLの変更をスナップショットから取り消す（新規URLは除き、更新は前回のlastmodに戻す）
+ * 返さなかった変更を次回の比較で再び検出するために使う
+ */
+export function revertSitemapChanges(
+  current: SitemapSnapshot,
+  previous: SitemapSnapshot,
+  urls: Iterable<string>
+): SitemapSnapshot {
+  const reverted = { ...current };
+  for (const url of urls) {
+    if (url in previous) {
+      reverted[url] = previous[url];
+    } else {
+      delete reverted[url];
+    }
+  }
+  return reverted;
+}
@@ -0,0 +1,77 @@
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// これを超える行数の組み合わせはLCSを計算せず、全行の削除・追加として扱う
+const MAX_LCS_CELLS = 4_000_000;
+
+/**
+ * 2つのテキストの行単位の差分（最長共通部分列による）
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // 先頭・末尾の共通行は表を作らずに処理する
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const head = a.slice(0, start).map((text): DiffLine => ({ type: 'same', text }));
+  const tail = a.slice(endA).map((text): DiffLine => ({ type: 'same', text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+
+  if (midA.length * midB.length > MAX_LCS_CELLS) {
+    return [
+      ...head,
+      ...midA.map((text): DiffLine => ({ type: 'removed', text })),
+      ...midB.map((text): DiffLine => ({ type: 'added', text })),
+      ...tail,
+    ];
+  }
+
+  // lengths[i][j] = midA[i:] と midB[j:] の最長共通部分列の長さ
+  const lengths = Array.from({ length: midA.length + 1 }, () =>
+    new Array<number>(midB.length + 1).fill(0)
+  );
+  for (let i = midA.length - 1; i >= 0; i--) {
+    for (let j = midB.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        midA[i] === midB[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const middle: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < midA.length && j < midB.length) {
+    if (midA[i] === midB[j]) {
+      middle.push({ type: 'same', text: midA[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      middle.push({ type: 'removed', text: midA[i++] });
+    } else {
+      middle.push({ type: 'added', text: midB[j++] });
+    }
+  }
+  while (i < midA.length) {
+    middle.push({ type: 'removed', text: midA[i++] });
+  }
+  while (j < midB.length) {
+    middle.push({ type: 'added', text: midB[j++] });
+  }
+
+  return [...head, ...middle, ...tail];
+}
@@ -0,0 +1,146 @@
+// 同一コンテンツを指すURLを1つの表記にまとめるための正規化
+
+// 計測・広告用で内容に影響しないクエリパラメータ
+const TRACKING_PARAMS = new Set([
+  'fbclid',
+  'gclid',
+  'dclid',
+  'msclkid',
+  'yclid',
+  'igshid',
+  'mc_cid',
+  'mc_eid',
+  '_hsenc',
+  '_hsmi',
+  'ref_src',
+  'ref_url',
+  'cmpid',
+  'spm',
+]);
+
+const TRACKING_PARAM_PREFIXES = ['utm_', 'pk_', 'mtm_'];
+
+// モバイル版が同じ内容を返すことが分かっているホスト（m./mobile. は別サイトの場合があるため一律には除去しない）
+const MOBILE_HOST_ALIASES: Record<string, string> = {
+  'm.youtube.com': 'youtube.com',
+  'm.facebook.com': 'facebook.com',
+  'mobile.twitter.com': 'twitter.com',
+  'mobile.x.com': 'x.com',
+};
+
+// Google AMPキャッシュ: https://example-com.cdn.ampproject.org/c/s/example.com/path
+const AMP_CACHE_PATH = /^\/[a-z]\/(s\/)?(.+)$/;
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase();
+  return (
+    TRACKING_PARAMS.has(name) ||
+    TRACKING_PARAMS.has(lower) ||
+    TRACKING_PARAM_PREFIXES.some((prefix) => lower.startsWith(prefix))
+  );
+}
+
+/**
+ * AMPキャッシュのURLを元のURLに戻す（AMPキャッシュでない場合はnull）
+ */
+function unwrapAmpCache(url: URL): URL | null {
+  if (!url.hostname.endsWith('.cdn.ampproject.org')) {
+    return null;
+  }
+
+  const match = url.pathname.match(AMP_CACHE_PATH);
+  if (!match) {
+    return null;
+  }
+
+  try {
+    return new URL(`https://${match[2]}${url.search}`);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * AMP版であることが明示されたURLか（?amp、outputType=amp）
+ */
+function hasAmpParam(url: URL): boolean {
+  return url.searchParams.has('amp') || url.searchParams.get('outputType')?.toLowerCase() === 'amp';
+}
+
+function isAmpParam(name: string, value: string): boolean {
+  return name === 'amp' || (name === 'outputType' && value.toLowerCase() === 'amp');
+}
+
+/**
+ * URLを正規化する
+ * - http/httpsの統一、ホスト名の小文字化、wwwサブドメインの除去、既知のモバイル版ホストの統一
+ * - utm_*、fbclid等のトラッキングパラメータ除去とパラメータの並び替え
+ * - フラグメント、末尾スラッシュの除去
+ * - AMPキャッシュ・?amp・outputType=amp のURLに限り、ampサブドメインとAMPパスを除去
+ */
+export function canonicalizeUrl(rawUrl: string): string {
+  const trimmed = rawUrl.trim();
+
+  let url: URL;
+  let isAmp: boolean;
+  try {
+    const parsed = new URL(trimmed);
+    const unwrapped = unwrapAmpCache(parsed);
+    url = unwrapped ?? parsed;
+    isAmp = unwrapped !== null || hasAmpParam(parsed);
+  } catch {
+    return trimmed;
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return trimmed;
+  }
+
+  let hostname = url.hostname.toLowerCase().replace(/^www\./, '');
+  hostname = MOBILE_HOST_ALIASES[hostname] ?? hostname;
+  if (isAmp) {
+    hostname = hostname.replace(/^amp\./, '');
+  }
+  const port = url.port && url.port !== '80' && url.port !== '443' ? `:${url.port}` : '';
+
+  let pathname = url.pathname.replace(/\/{2,}/g, '/');
+  if (isAmp) {
+    pathname = pathname.replace(/\/amp\/?$/i, '').replace(/\.amp(\.html)?$/i, '$1');
+  }
+  pathname = pathname.replace(/\/index\.html?$/i, '').replace(/\/+$/, '');
+
+  const params = [...url.searchParams.entries()]
+    .filter(([name, value]) => !isTrackingParam(name) && !(isAmp && isAmpParam(name, value)))
+    .sort(([a], [b]) => a.localeCompare(b));
+  const search = params.length > 0 ? `?${new URLSearchParams(params)}` : '';
+
+  return `https://${hostname}${port}${pathname}${search}`;
+}
+
+/**
+ * HTMLの<link rel="canonical">から正規URLを取得する
+ * 見つからない場合はページURLを正規化して返す
+ */
+export function resolveCanonicalUrl(html: string, pageUrl: string): string {
+  const linkTags = html.match(/<link\b[^>]*>/gi) || [];
+
+  for (const tag of linkTags) {
+    const rel = tag.match(/\brel\s*=\s*["']?([^"'\s>]+)/i)?.[1];
+    if (rel?.toLowerCase() !== 'canonical') {
+      continue;
+    }
+
+    const href = tag.match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (!href) {
+      continue;
+    }
+
+    try {
+      return canonicalizeUrl(new URL(href, pageUrl).toString());
+    } catch {
+      break;
+    }
+  }
+
+  return canonicalizeUrl(pageUrl);
+}